@@ -0,0 +1,38 @@
+import type { NextRequest } from "next/server";
+import {
+  getIndexerStore,
+  getEnumParam,
+  getPaginationParams,
+  toMemberInfo,
+  paginatedResponse,
+  errorResponse,
+  handleApiRequest
+} from "@/indexer/api";
+import { isValidObjectId } from "@/utils/sui";
+import type { MemberListQuery } from "@/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/forums/:id/members?sortBy=joinedAt|address&sortOrder=asc|desc&limit=&offset=
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  return handleApiRequest(() => {
+    if (!isValidObjectId(id)) {
+      return errorResponse(400, "Invalid forum ID");
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const pagination = getPaginationParams(searchParams);
+    const query: MemberListQuery = {
+      forumId: id,
+      ...pagination,
+      sortBy: getEnumParam(searchParams, "sortBy", ["joinedAt", "address"] as const),
+      sortOrder: getEnumParam(searchParams, "sortOrder", ["asc", "desc"] as const),
+    };
+
+    const { members, total } = getIndexerStore().listMembers(query);
+    return paginatedResponse(members.map(toMemberInfo), total, pagination);
+  });
+}
@@ -0,0 +1,29 @@
+import type { NextRequest } from "next/server";
+import {
+  getIndexerStore,
+  getPaginationParams,
+  toIndexedPoll,
+  paginatedResponse,
+  errorResponse,
+  handleApiRequest
+} from "@/indexer/api";
+import { isValidObjectId } from "@/utils/sui";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/forums/:id/polls?limit=&offset= (newest first)
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  return handleApiRequest(() => {
+    if (!isValidObjectId(id)) {
+      return errorResponse(400, "Invalid forum ID");
+    }
+
+    const pagination = getPaginationParams(request.nextUrl.searchParams);
+    const { polls, total } = getIndexerStore().listPolls(id, pagination);
+    const now = Date.now();
+    return paginatedResponse(polls.map(poll => toIndexedPoll(poll, now)), total, pagination);
+  });
+}
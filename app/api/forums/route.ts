@@ -0,0 +1,33 @@
+import type { NextRequest } from "next/server";
+import {
+  getIndexerStore,
+  getIntegerParam,
+  getBooleanParam,
+  getPaginationParams,
+  toIndexedForum,
+  paginatedResponse,
+  handleApiRequest
+} from "@/indexer/api";
+import type { ForumQueryFilters } from "@/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/forums?creator=&hasActivePoll=&minMembers=&maxMembers=&createdAfter=&createdBefore=&limit=&offset=
+export function GET(request: NextRequest) {
+  return handleApiRequest(() => {
+    const params = request.nextUrl.searchParams;
+    const filters: ForumQueryFilters = {
+      creator: params.get("creator") || undefined,
+      hasActivePoll: getBooleanParam(params, "hasActivePoll"),
+      minMembers: getIntegerParam(params, "minMembers"),
+      maxMembers: getIntegerParam(params, "maxMembers"),
+      createdAfter: getIntegerParam(params, "createdAfter"),
+      createdBefore: getIntegerParam(params, "createdBefore"),
+    };
+    const pagination = getPaginationParams(params);
+
+    const { forums, total } = getIndexerStore().listForums(filters, pagination);
+    return paginatedResponse(forums.map(toIndexedForum), total, pagination);
+  });
+}
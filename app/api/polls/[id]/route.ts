@@ -0,0 +1,29 @@
+import type { NextRequest } from "next/server";
+import {
+  getIndexerStore,
+  toIndexedPoll,
+  apiResponse,
+  errorResponse,
+  handleApiRequest
+} from "@/indexer/api";
+import { isValidObjectId } from "@/utils/sui";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/polls/:id
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  return handleApiRequest(() => {
+    if (!isValidObjectId(id)) {
+      return errorResponse(400, "Invalid poll ID");
+    }
+
+    const poll = getIndexerStore().getPoll(id);
+    if (!poll) {
+      return errorResponse(404, "Poll not found");
+    }
+    return apiResponse(toIndexedPoll(poll));
+  });
+}
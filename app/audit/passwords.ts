@@ -0,0 +1,131 @@
+// Forum password audit for Shallot system
+//
+//   tsx audit/passwords.ts --network testnet
+//   tsx audit/passwords.ts --forum 0x... --forum 0x... --wordlist rockyou-top10k.txt
+//   tsx audit/passwords.ts --rpc http://127.0.0.1:9000 --package 0x... --json
+//
+// Commitment forums are checked too, at one PBKDF2 derivation per guess, so long word
+// lists take a while. Exits with status 1 when any forum's password is on the list.
+
+import { parseArgs } from "node:util";
+import { readFileSync } from "node:fs";
+import { SuiClient } from "@mysten/sui/client";
+import {
+  DEVNET_SHALLOT_PACKAGE_ID,
+  TESTNET_SHALLOT_PACKAGE_ID,
+  MAINNET_SHALLOT_PACKAGE_ID
+} from "../constants";
+import { resolveRpcUrl, iterateForumCreatedEvents, getForumCommitment } from "../utils/sui";
+import { decodeEvents, decodeForumCreatedEvent } from "../utils/decoders";
+import { auditForumPassword } from "../utils/passwordAudit";
+import type { ForumPasswordAudit } from "../utils/passwordAudit";
+import { COMMON_PASSWORDS } from "../utils/commonPasswords";
+import { processForum } from "../types";
+import type { Forum } from "../types";
+
+const PACKAGE_IDS: Record<string, string> = {
+  devnet: DEVNET_SHALLOT_PACKAGE_ID,
+  testnet: TESTNET_SHALLOT_PACKAGE_ID,
+  mainnet: MAINNET_SHALLOT_PACKAGE_ID,
+};
+
+// multiGetObjects accepts at most 50 IDs per call
+const OBJECT_BATCH_SIZE = 50;
+
+const { values: args } = parseArgs({
+  options: {
+    network: { type: "string", default: "testnet" },
+    rpc: { type: "string" },
+    package: { type: "string" },
+    forum: { type: "string", multiple: true },
+    wordlist: { type: "string" },
+    json: { type: "boolean", default: false },
+  },
+});
+
+function loadPasswords(): readonly string[] {
+  if (!args.wordlist) {
+    return COMMON_PASSWORDS;
+  }
+  const extra = readFileSync(args.wordlist, "utf8").split(/\r?\n/).filter(line => line.length > 0);
+  return [...COMMON_PASSWORDS, ...extra];
+}
+
+// Needed for the forum list and for commitment lookups, which are typed by package
+function getPackageId(): string {
+  const packageId = args.package || PACKAGE_IDS[args.network!];
+  if (!packageId || packageId === "0xTODO") {
+    throw new Error(`No Shallot package ID for ${args.network}; pass --package`);
+  }
+  return packageId;
+}
+
+async function listForumIds(client: SuiClient, packageId: string): Promise<string[]> {
+  if (args.forum && args.forum.length > 0) {
+    return args.forum;
+  }
+
+  const events = [];
+  for await (const event of iterateForumCreatedEvents(client, packageId)) {
+    events.push(event);
+  }
+  return decodeEvents(events, decodeForumCreatedEvent).map(event => event.forum_id);
+}
+
+async function loadForums(client: SuiClient, forumIds: string[]): Promise<Forum[]> {
+  const forums: Forum[] = [];
+  for (let i = 0; i < forumIds.length; i += OBJECT_BATCH_SIZE) {
+    // Not getMultipleObjectsSafe: an unreachable RPC must fail the audit, not pass it
+    const responses = await client.multiGetObjects({
+      ids: forumIds.slice(i, i + OBJECT_BATCH_SIZE),
+      options: { showContent: true, showType: true },
+    });
+    responses.forEach((response, index) => {
+      const forum = response.data ? processForum(response.data) : null;
+      if (forum) {
+        forums.push(forum);
+      } else {
+        console.warn(`⚠️ Skipping ${forumIds[i + index]}: not a readable Forum object`);
+      }
+    });
+  }
+  return forums;
+}
+
+async function main() {
+  const client = new SuiClient({ url: resolveRpcUrl(args.rpc || args.network!) });
+  const passwords = loadPasswords();
+
+  const packageId = getPackageId();
+
+  const forums = await loadForums(client, await listForumIds(client, packageId));
+  const results: ForumPasswordAudit[] = [];
+  for (const forum of forums) {
+    const commitment = await getForumCommitment(client, packageId, forum.id);
+    results.push(await auditForumPassword(forum, commitment, passwords));
+  }
+  const exposed = results.filter(result => result.exposed);
+  const unchecked = results.filter(result => result.checkedAgainst === null);
+
+  if (args.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    console.log(`🔎 Checked ${results.length} forum(s) against ${passwords.length} passwords`);
+    exposed.forEach(result =>
+      console.log(`❌ ${result.forumId} "${result.name}": password is "${result.matchedPassword}"`)
+    );
+    unchecked.forEach(result =>
+      console.log(`⚠️ ${result.forumId} "${result.name}": no password hash or commitment, not checked`)
+    );
+    if (exposed.length === 0) {
+      console.log("✅ No forum uses a listed password");
+    }
+  }
+
+  process.exit(exposed.length > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error("❌ Password audit failed:", err?.message || err);
+  process.exit(2);
+});
@@ -0,0 +1,91 @@
+// Poll tally audit for Shallot system
+//
+//   tsx audit/tally.ts --network testnet
+//   tsx audit/tally.ts --poll 0x... --poll 0x...
+//   tsx audit/tally.ts --rpc http://127.0.0.1:9000 --package 0x... --json
+//
+// Exits with status 1 when any poll's tally disagrees with its ballots.
+
+import { parseArgs } from "node:util";
+import { SuiClient } from "@mysten/sui/client";
+import {
+  DEVNET_SHALLOT_PACKAGE_ID,
+  TESTNET_SHALLOT_PACKAGE_ID,
+  MAINNET_SHALLOT_PACKAGE_ID
+} from "../constants";
+import { resolveRpcUrl, iteratePollCreatedEvents } from "../utils/sui";
+import { decodeEvents, decodePollCreatedEvent } from "../utils/decoders";
+import { loadTallyAudit } from "../utils/tallyAudit";
+import type { TallyAudit } from "../utils/tallyAudit";
+
+const PACKAGE_IDS: Record<string, string> = {
+  devnet: DEVNET_SHALLOT_PACKAGE_ID,
+  testnet: TESTNET_SHALLOT_PACKAGE_ID,
+  mainnet: MAINNET_SHALLOT_PACKAGE_ID,
+};
+
+const { values: args } = parseArgs({
+  options: {
+    network: { type: "string", default: "testnet" },
+    rpc: { type: "string" },
+    package: { type: "string" },
+    poll: { type: "string", multiple: true },
+    json: { type: "boolean", default: false },
+  },
+});
+
+function resolvePackageId(): string {
+  const packageId = args.package || PACKAGE_IDS[args.network!];
+  if (!packageId || packageId === "0xTODO") {
+    throw new Error(`No Shallot package ID for ${args.network}; pass --package`);
+  }
+  return packageId;
+}
+
+async function listPollIds(client: SuiClient, packageId: string): Promise<string[]> {
+  if (args.poll && args.poll.length > 0) {
+    return args.poll;
+  }
+
+  const events = [];
+  for await (const event of iteratePollCreatedEvents(client, packageId)) {
+    events.push(event);
+  }
+  return decodeEvents(events, decodePollCreatedEvent).map(event => event.poll_id);
+}
+
+async function main() {
+  const client = new SuiClient({ url: resolveRpcUrl(args.rpc || args.network!) });
+  const packageId = resolvePackageId();
+
+  const results: TallyAudit[] = [];
+  for (const pollId of await listPollIds(client, packageId)) {
+    results.push(await loadTallyAudit(client, packageId, pollId));
+  }
+  const inconsistent = results.filter(result => !result.consistent);
+
+  if (args.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    console.log(`🔎 Recounted ${results.length} poll(s)`);
+    results.forEach(result => {
+      const tally = `${result.recount.yes} yes / ${result.recount.no} no from ${result.ballots} ballot(s)`;
+      if (result.consistent) {
+        console.log(`✅ ${result.pollId}: ${tally}`);
+      } else {
+        console.log(`❌ ${result.pollId}: ${tally}`);
+        result.issues.forEach(issue => console.log(`   ${issue.check}: ${issue.message}`));
+      }
+    });
+    if (inconsistent.length === 0) {
+      console.log("✅ Every tally matches its ballots");
+    }
+  }
+
+  process.exit(inconsistent.length > 0 ? 1 : 0);
+}
+
+main().catch(err => {
+  console.error("❌ Tally audit failed:", err?.message || err);
+  process.exit(2);
+});
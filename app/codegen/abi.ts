@@ -0,0 +1,149 @@
+// Move ABI loading for Shallot codegen
+//
+// Everything is reduced to the RPC's normalized module format, whether it comes
+// from a fullnode, a saved snapshot or the `move/shallot` build output.
+
+import { readFileSync, readdirSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { SuiClient } from "@mysten/sui/client";
+import type {
+  SuiMoveNormalizedModule,
+  SuiMoveNormalizedModules,
+  SuiMoveNormalizedType,
+  SuiMoveAbility,
+  SuiMoveAbilitySet
+} from "@mysten/sui/client";
+import { deserialize } from "@mysten/move-bytecode-template";
+import { resolveRpcUrl } from "../utils/sui";
+
+// ===== Sources =====
+
+/**
+ * Normalized modules of a published package
+ */
+export async function loadAbiFromRpc(networkOrUrl: string, packageId: string): Promise<SuiMoveNormalizedModules> {
+  const client = new SuiClient({ url: resolveRpcUrl(networkOrUrl) });
+  return client.getNormalizedMoveModulesByPackage({ package: packageId });
+}
+
+/**
+ * Normalized modules saved with `--save-abi`
+ */
+export function loadAbiFromFile(path: string): SuiMoveNormalizedModules {
+  const modules = JSON.parse(readFileSync(path, "utf8"));
+  if (!modules || typeof modules !== "object" || Object.keys(modules).length === 0) {
+    throw new Error(`${path} does not contain normalized Move modules`);
+  }
+  return modules;
+}
+
+/**
+ * Normalized modules from `sui move build` output of a Move package directory
+ */
+export function loadAbiFromBuild(packageDir: string): SuiMoveNormalizedModules {
+  const manifest = readFileSync(join(packageDir, "Move.toml"), "utf8");
+  const name = manifest.match(/^\s*name\s*=\s*"([^"]+)"/m)?.[1];
+  if (!name) {
+    throw new Error(`No package name in ${join(packageDir, "Move.toml")}`);
+  }
+
+  const bytecodeDir = join(packageDir, "build", name, "bytecode_modules");
+  if (!existsSync(bytecodeDir)) {
+    throw new Error(`${bytecodeDir} not found; run \`sui move build\` in ${packageDir} first`);
+  }
+
+  const modules: SuiMoveNormalizedModules = {};
+  for (const file of readdirSync(bytecodeDir).filter(file => file.endsWith(".mv"))) {
+    const module = normalizeCompiledModule(deserialize(readFileSync(join(bytecodeDir, file))));
+    modules[module.name] = module;
+  }
+  return modules;
+}
+
+// ===== Bytecode Normalization =====
+
+// Ability bits as stored in the binary format
+const ABILITY_BITS: [number, SuiMoveAbility][] = [
+  [0x1, "Copy"],
+  [0x2, "Drop"],
+  [0x4, "Store"],
+  [0x8, "Key"],
+];
+
+function toAbilitySet(bits: number): SuiMoveAbilitySet {
+  return { abilities: ABILITY_BITS.filter(([bit]) => (bits & bit) !== 0).map(([, ability]) => ability) };
+}
+
+/**
+ * Convert a deserialized CompiledModule (move-binary-format JSON) to the normalized format
+ */
+export function normalizeCompiledModule(compiled: any): SuiMoveNormalizedModule {
+  const identifier = (index: number): string => compiled.identifiers[index];
+  const address = (index: number): string => `0x${compiled.address_identifiers[index]}`;
+
+  const datatype = (index: number) => {
+    const handle = compiled.datatype_handles[index];
+    const module = compiled.module_handles[handle.module];
+    return { address: address(module.address), module: identifier(module.name), name: identifier(handle.name) };
+  };
+
+  const toType = (token: any): SuiMoveNormalizedType => {
+    if (typeof token === "string") {
+      return token as SuiMoveNormalizedType;
+    }
+    if ("Vector" in token) return { Vector: toType(token.Vector) };
+    if ("Reference" in token) return { Reference: toType(token.Reference) };
+    if ("MutableReference" in token) return { MutableReference: toType(token.MutableReference) };
+    if ("TypeParameter" in token) return { TypeParameter: token.TypeParameter };
+    if ("Datatype" in token) {
+      return { Struct: { ...datatype(token.Datatype), typeArguments: [] } };
+    }
+    if ("DatatypeInstantiation" in token) {
+      const [index, typeArguments] = token.DatatypeInstantiation;
+      return { Struct: { ...datatype(index), typeArguments: typeArguments.map(toType) } };
+    }
+    throw new Error(`Unsupported signature token: ${JSON.stringify(token)}`);
+  };
+
+  const self = compiled.module_handles[compiled.self_module_handle_idx];
+  const module: SuiMoveNormalizedModule = {
+    fileFormatVersion: compiled.version,
+    address: address(self.address),
+    name: identifier(self.name),
+    friends: compiled.friend_decls.map((friend: any) => ({
+      address: address(friend.address),
+      name: identifier(friend.name),
+    })),
+    structs: {},
+    exposedFunctions: {},
+  };
+
+  for (const definition of compiled.struct_defs) {
+    const handle = compiled.datatype_handles[definition.struct_handle];
+    const fields = definition.field_information.Declared || [];
+    module.structs[identifier(handle.name)] = {
+      abilities: toAbilitySet(handle.abilities),
+      typeParameters: handle.type_parameters.map((parameter: any) => ({
+        constraints: toAbilitySet(parameter.constraints),
+        isPhantom: parameter.is_phantom,
+      })),
+      fields: fields.map((field: any) => ({ name: identifier(field.name), type: toType(field.signature) })),
+    };
+  }
+
+  // Like the RPC, expose everything callable from outside the module
+  for (const definition of compiled.function_defs) {
+    if (definition.visibility === "Private" && !definition.is_entry) continue;
+
+    const handle = compiled.function_handles[definition.function];
+    module.exposedFunctions[identifier(handle.name)] = {
+      visibility: definition.visibility,
+      isEntry: definition.is_entry,
+      typeParameters: handle.type_parameters.map(toAbilitySet),
+      parameters: compiled.signatures[handle.parameters].map(toType),
+      return: compiled.signatures[handle.return_].map(toType),
+    };
+  }
+
+  return module;
+}
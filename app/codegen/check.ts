@@ -0,0 +1,228 @@
+// Drift checks between the Move ABI and hand-written frontend code
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import ts from "typescript";
+import type { SuiMoveNormalizedModules } from "@mysten/sui/client";
+import { MODULES, FUNCTIONS } from "../constants";
+import {
+  emitStructTypes,
+  structInterfaceNames,
+  structKey,
+  parameterKind,
+  moveTypeName,
+  type ParameterKind
+} from "./emit";
+
+// Hand-written field interfaces that mirror Move structs: [module, struct, file, interface]
+const CHECKED_INTERFACES: [string, string, string, string][] = [
+  ["forum", "Forum", "types/forum.ts", "ForumFields"],
+  ["verifier", "CommitmentVerifier", "types/forum.ts", "CommitmentVerifierFields"],
+  ["forum", "GovernanceConfig", "types/forum.ts", "GovernanceConfigFields"],
+  ["poll", "Poll", "types/poll.ts", "PollFields"],
+  ["poll", "SecretBallot", "types/poll.ts", "SecretBallotFields"],
+  ["ballot", "VoteCommitment", "types/poll.ts", "VoteCommitmentFields"],
+];
+
+const CHECK_FILE = "__codegen_check__.ts";
+
+// Hand-written transaction builders whose `moveCall` arguments are checked against the ABI
+const CHECKED_BUILDERS = "utils/sui.ts";
+
+// BCS schema the generator uses for each `tx.pure.<type>` helper
+const PURE_HELPER_BCS: Record<string, string> = {
+  bool: "bcs.bool()",
+  u8: "bcs.u8()",
+  u16: "bcs.u16()",
+  u32: "bcs.u32()",
+  u64: "bcs.u64()",
+  u128: "bcs.u128()",
+  u256: "bcs.u256()",
+  address: "bcs.Address",
+  id: "bcs.Address",
+  string: "bcs.string()",
+};
+
+/**
+ * Names in constants.ts that the package does not expose
+ */
+export function checkConstants(modules: SuiMoveNormalizedModules): string[] {
+  const problems: string[] = [];
+
+  Object.entries(MODULES).forEach(([key, name]) => {
+    if (!modules[name]) {
+      problems.push(`MODULES.${key}: module "${name}" is not in the package`);
+    }
+  });
+
+  Object.entries(FUNCTIONS).forEach(([key, name]) => {
+    const exposed = Object.values(modules).some(module => module.exposedFunctions[name]);
+    if (!exposed) {
+      problems.push(`FUNCTIONS.${key}: function "${name}" is not exposed by any module`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Type-check the hand-written field interfaces against the generated ones in both directions
+ */
+export function checkInterfaces(modules: SuiMoveNormalizedModules, rootDir: string): string[] {
+  const names = structInterfaceNames(modules);
+  const problems: string[] = [];
+  const lines = [emitStructTypes(modules)];
+
+  CHECKED_INTERFACES.forEach(([moduleName, structName, file, declared], index) => {
+    const module = modules[moduleName];
+    const generated = module && names.get(structKey(module.address, moduleName, structName));
+    if (!module || !generated || !module.structs[structName]) {
+      problems.push(`${file}: ${declared} has no ${moduleName}::${structName} struct to match`);
+      return;
+    }
+
+    const importPath = resolve(rootDir, file).replace(/\.ts$/, "");
+    // Aliases keep both names readable in the compiler's messages
+    lines.push(
+      `import type { ${declared} as Declared${declared} } from ${JSON.stringify(importPath)};`,
+      `declare const generated${index}: ${generated};`,
+      `declare const declared${index}: Declared${declared};`,
+      `export const toDeclared${index}: Declared${declared} = generated${index};`,
+      `export const toGenerated${index}: ${generated} = declared${index};`
+    );
+  });
+
+  const source = lines.join("\n");
+  const options: ts.CompilerOptions = { strict: true, noEmit: true, skipLibCheck: true, target: ts.ScriptTarget.ES2020 };
+  const host = ts.createCompilerHost(options);
+  const readFile = host.readFile.bind(host);
+  const fileExists = host.fileExists.bind(host);
+  const checkPath = resolve(rootDir, CHECK_FILE);
+  host.readFile = path => (path === checkPath ? source : readFile(path));
+  host.fileExists = path => path === checkPath || fileExists(path);
+  host.getSourceFile = (path, languageVersion) => {
+    const text = host.readFile(path);
+    return text === undefined ? undefined : ts.createSourceFile(path, text, languageVersion, true);
+  };
+
+  const program = ts.createProgram([checkPath], options, host);
+  const checkFile = program.getSourceFile(checkPath);
+  ts.getPreEmitDiagnostics(program, checkFile).forEach(diagnostic => {
+    problems.push(ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+  });
+
+  return problems;
+}
+
+/**
+ * Each `moveCall` in the hand-written builders must pass what the ABI takes: one argument
+ * per non-context parameter, objects for objects, and pure values with the same BCS type
+ */
+export function checkCallBuilders(modules: SuiMoveNormalizedModules, rootDir: string): string[] {
+  const problems: string[] = [];
+  const source = ts.createSourceFile(
+    CHECKED_BUILDERS,
+    readFileSync(resolve(rootDir, CHECKED_BUILDERS), "utf8"),
+    ts.ScriptTarget.ES2020,
+    true
+  );
+
+  const visit = (node: ts.Node) => {
+    const call = moveCallOf(node);
+    if (call) {
+      const line = source.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+      problems.push(...checkMoveCall(modules, call).map(problem => `${CHECKED_BUILDERS}:${line}: ${problem}`));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return problems;
+}
+
+interface MoveCallSite {
+  module: string;     // MODULES key
+  function: string;   // FUNCTIONS key
+  arguments: readonly ts.Expression[];
+}
+
+/**
+ * `tx.moveCall({ target: buildMoveCallTarget(_, "MODULE", "FUNCTION"), arguments: [...] })`
+ */
+function moveCallOf(node: ts.Node): MoveCallSite | null {
+  if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return null;
+  if (node.expression.name.text !== "moveCall") return null;
+
+  const options = node.arguments[0];
+  if (!options || !ts.isObjectLiteralExpression(options)) return null;
+  const property = (name: string) => options.properties.find(
+    (prop): prop is ts.PropertyAssignment => ts.isPropertyAssignment(prop) && prop.name.getText() === name
+  )?.initializer;
+
+  const target = property("target");
+  const args = property("arguments");
+  if (!target || !ts.isCallExpression(target) || target.expression.getText() !== "buildMoveCallTarget") return null;
+  const [, module, fn] = target.arguments;
+  if (!module || !fn || !ts.isStringLiteral(module) || !ts.isStringLiteral(fn)) return null;
+
+  return {
+    module: module.text,
+    function: fn.text,
+    arguments: args && ts.isArrayLiteralExpression(args) ? args.elements : [],
+  };
+}
+
+function checkMoveCall(modules: SuiMoveNormalizedModules, call: MoveCallSite): string[] {
+  const moduleName = MODULES[call.module as keyof typeof MODULES];
+  const functionName = FUNCTIONS[call.function as keyof typeof FUNCTIONS];
+  const fn = moduleName && functionName ? modules[moduleName]?.exposedFunctions[functionName] : undefined;
+  if (!fn) {
+    return [`${call.module}::${call.function} is not a function of the package`];
+  }
+
+  const name = `${moduleName}::${functionName}`;
+  const parameters = fn.parameters
+    .map(type => ({ type, kind: parameterKind(type) }))
+    .filter(param => param.kind.kind !== "context");
+  if (parameters.length !== call.arguments.length) {
+    return [`${name} takes ${parameters.length} argument(s) but the builder passes ${call.arguments.length}`];
+  }
+
+  return parameters.flatMap(({ type, kind }, index) => {
+    const passed = argumentBcs(call.arguments[index]);
+    return passesAs(passed, kind)
+      ? []
+      : [`${name} argument ${index + 1} is ${moveTypeName(type)} but the builder passes ${call.arguments[index].getText()}`];
+  });
+}
+
+/**
+ * "object" for `tx.object(...)`, the BCS schema for `tx.pure.<type>(...)`, or null
+ */
+function argumentBcs(arg: ts.Expression): string | null {
+  if (!ts.isCallExpression(arg)) return null;
+  const callee = arg.expression.getText();
+  if (callee === "tx.object" || callee.startsWith("tx.object.")) return "object";
+
+  const helper = callee.match(/^tx\.pure\.(\w+)$/)?.[1];
+  if (!helper) return null;
+  if (helper === "vector" || helper === "option") {
+    const element = arg.arguments[0];
+    const inner = element && ts.isStringLiteral(element) ? PURE_HELPER_BCS[element.text] : undefined;
+    return inner ? `bcs.${helper}(${inner})` : null;
+  }
+  return PURE_HELPER_BCS[helper] ?? null;
+}
+
+function passesAs(passed: string | null, kind: ParameterKind): boolean {
+  switch (kind.kind) {
+    case "object":
+    case "clock":
+    case "random":
+      return passed === "object";
+    case "pure":
+      return passed === kind.bcs;
+    default:
+      return true;
+  }
+}
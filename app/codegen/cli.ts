@@ -0,0 +1,97 @@
+// Command line entry point for Shallot codegen
+//
+//   tsx codegen/cli.ts --network testnet                 # published package from constants.ts
+//   tsx codegen/cli.ts --build ../move/shallot           # local `sui move build` output
+//   tsx codegen/cli.ts --abi codegen/shallot.abi.json    # saved snapshot
+//   tsx codegen/cli.ts --build ../move/shallot --check   # report drift, write nothing
+
+import { parseArgs } from "node:util";
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type { SuiMoveNormalizedModules } from "@mysten/sui/client";
+import {
+  DEVNET_SHALLOT_PACKAGE_ID,
+  TESTNET_SHALLOT_PACKAGE_ID,
+  MAINNET_SHALLOT_PACKAGE_ID
+} from "../constants";
+import { loadAbiFromRpc, loadAbiFromFile, loadAbiFromBuild } from "./abi";
+import { emitBindings } from "./emit";
+import { checkConstants, checkInterfaces, checkCallBuilders } from "./check";
+
+const PACKAGE_IDS: Record<string, string> = {
+  devnet: DEVNET_SHALLOT_PACKAGE_ID,
+  testnet: TESTNET_SHALLOT_PACKAGE_ID,
+  mainnet: MAINNET_SHALLOT_PACKAGE_ID,
+};
+
+const { values: args } = parseArgs({
+  options: {
+    network: { type: "string", default: "testnet" },
+    rpc: { type: "string" },
+    package: { type: "string" },
+    build: { type: "string" },
+    abi: { type: "string" },
+    out: { type: "string", default: "generated/shallot.ts" },
+    "save-abi": { type: "string" },
+    check: { type: "boolean", default: false },
+  },
+});
+
+// Run from the app directory; the output path and checked interface files are relative to it
+const ROOT_DIR = process.cwd();
+
+async function loadAbi(): Promise<{ modules: SuiMoveNormalizedModules; source: string }> {
+  if (args.build) {
+    return { modules: loadAbiFromBuild(args.build), source: "move build output" };
+  }
+  if (args.abi) {
+    return { modules: loadAbiFromFile(args.abi), source: "saved ABI snapshot" };
+  }
+
+  const packageId = args.package || PACKAGE_IDS[args.network!];
+  if (!packageId || packageId === "0xTODO") {
+    throw new Error(`No Shallot package ID for ${args.network}; pass --package`);
+  }
+  const modules = await loadAbiFromRpc(args.rpc || args.network!, packageId);
+  return { modules, source: `${args.rpc || args.network} package ${packageId}` };
+}
+
+async function main() {
+  const { modules, source } = await loadAbi();
+  console.log(`🔎 Loaded ${Object.keys(modules).length} modules from ${source}`);
+
+  if (args["save-abi"]) {
+    writeFileSync(args["save-abi"], JSON.stringify(modules, null, 2) + "\n");
+    console.log(`✅ Saved ABI to ${args["save-abi"]}`);
+  }
+
+  const outPath = resolve(ROOT_DIR, args.out!);
+  const bindings = emitBindings(modules);
+
+  if (args.check) {
+    const problems = [
+      ...checkConstants(modules),
+      ...checkInterfaces(modules, ROOT_DIR),
+      ...checkCallBuilders(modules, ROOT_DIR),
+    ];
+    if (existsSync(outPath) && readFileSync(outPath, "utf8") !== bindings) {
+      problems.push(`${args.out} is out of date; rerun codegen without --check`);
+    }
+
+    if (problems.length > 0) {
+      problems.forEach(problem => console.error(`❌ ${problem}`));
+      process.exit(1);
+    }
+    console.log("✅ Frontend types, constants and call builders match the Move ABI");
+    return;
+  }
+
+  mkdirSync(dirname(outPath), { recursive: true });
+  writeFileSync(outPath, bindings);
+  console.log(`✅ Wrote ${args.out}`);
+}
+
+main().catch(err => {
+  console.error("❌ Codegen failed:", err?.message || err);
+  process.exit(1);
+});
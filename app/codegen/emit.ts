@@ -0,0 +1,306 @@
+// TypeScript emission for Shallot codegen
+//
+// Struct types describe the JSON the RPC returns for object content and event
+// `parsedJson`; call builders encode each argument with the BCS type from the ABI.
+
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type {
+  SuiMoveNormalizedModules,
+  SuiMoveNormalizedFunction,
+  SuiMoveNormalizedType
+} from "@mysten/sui/client";
+
+type StructRef = Extract<SuiMoveNormalizedType, { Struct: unknown }>["Struct"];
+
+// ===== Naming =====
+
+function pascalCase(name: string): string {
+  return name.split("_").map(part => part.charAt(0).toUpperCase() + part.slice(1)).join("");
+}
+
+function camelCase(name: string): string {
+  const pascal = pascalCase(name);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Key identifying a struct regardless of address padding
+ */
+export function structKey(address: string, module: string, name: string): string {
+  return `${normalizeSuiAddress(address)}::${module}::${name}`;
+}
+
+function isFrameworkStruct(struct: StructRef, module: string, name: string): boolean {
+  const address = normalizeSuiAddress(struct.address);
+  return (address === normalizeSuiAddress("0x1") || address === normalizeSuiAddress("0x2")) &&
+    struct.module === module && struct.name === name;
+}
+
+/**
+ * `${Struct}Fields` interface names, prefixed with the module where two modules share a struct name
+ */
+export function structInterfaceNames(modules: SuiMoveNormalizedModules): Map<string, string> {
+  const counts = new Map<string, number>();
+  Object.values(modules).forEach(module =>
+    Object.keys(module.structs).forEach(name => counts.set(name, (counts.get(name) || 0) + 1))
+  );
+
+  const names = new Map<string, string>();
+  Object.values(modules).forEach(module =>
+    Object.keys(module.structs).forEach(name => {
+      const prefix = (counts.get(name) || 0) > 1 ? pascalCase(module.name) : "";
+      names.set(structKey(module.address, module.name, name), `${prefix}${name}Fields`);
+    })
+  );
+  return names;
+}
+
+// ===== JSON Types =====
+
+/**
+ * TypeScript type of a Move value as rendered in RPC JSON
+ */
+function jsonType(type: SuiMoveNormalizedType, names: Map<string, string>): string {
+  if (typeof type === "string") {
+    switch (type) {
+      case "Bool": return "boolean";
+      case "U8": case "U16": case "U32": return "number";
+      case "U64": case "U128": case "U256": return "string";
+      default: return "string"; // Address, Signer
+    }
+  }
+  if ("Vector" in type) {
+    const element = jsonType(type.Vector, names);
+    return element.includes(" ") ? `(${element})[]` : `${element}[]`;
+  }
+  if ("Reference" in type) return jsonType(type.Reference, names);
+  if ("MutableReference" in type) return jsonType(type.MutableReference, names);
+  if ("TypeParameter" in type) return "unknown";
+
+  const struct = type.Struct;
+  if (isFrameworkStruct(struct, "string", "String") || isFrameworkStruct(struct, "ascii", "String")) return "string";
+  if (isFrameworkStruct(struct, "object", "UID")) return "{ id: string }";
+  if (isFrameworkStruct(struct, "object", "ID")) return "string";
+  if (isFrameworkStruct(struct, "balance", "Balance")) return "string";
+  if (isFrameworkStruct(struct, "url", "Url")) return "string";
+  if (isFrameworkStruct(struct, "option", "Option")) {
+    return `${jsonType(struct.typeArguments[0], names)} | null`;
+  }
+  if (["table", "bag", "object_table", "object_bag"].some(module => isFrameworkStruct(struct, module, pascalCase(module)))) {
+    return "{ type: string; fields: { id: { id: string }; size: string } }";
+  }
+
+  const local = names.get(structKey(struct.address, struct.module, struct.name));
+  return `{ type: string; fields: ${local || "Record<string, unknown>"} }`;
+}
+
+/**
+ * Interfaces for every struct in the package
+ */
+export function emitStructTypes(modules: SuiMoveNormalizedModules): string {
+  const names = structInterfaceNames(modules);
+  const lines: string[] = [];
+
+  for (const module of Object.values(modules).sort((a, b) => a.name.localeCompare(b.name))) {
+    for (const [name, struct] of Object.entries(module.structs).sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`// ${module.name}::${name} (${struct.abilities.abilities.join(", ") || "no abilities"})`);
+      lines.push(`export interface ${names.get(structKey(module.address, module.name, name))} {`);
+      struct.fields.forEach(field => lines.push(`  ${field.name}: ${jsonType(field.type, names)};`));
+      lines.push("}", "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ===== Call Builders =====
+
+export type ParameterKind =
+  | { kind: "pure"; tsType: string; bcs: string }
+  | { kind: "object" }
+  | { kind: "clock" }
+  | { kind: "random" }
+  | { kind: "context" }
+  | { kind: "raw" };
+
+/**
+ * TypeScript input type and BCS schema for a pure argument, or null if the type is not pure
+ */
+function pureType(type: SuiMoveNormalizedType): { tsType: string; bcs: string } | null {
+  if (typeof type === "string") {
+    switch (type) {
+      case "Bool": return { tsType: "boolean", bcs: "bcs.bool()" };
+      case "U8": return { tsType: "number", bcs: "bcs.u8()" };
+      case "U16": return { tsType: "number", bcs: "bcs.u16()" };
+      case "U32": return { tsType: "number", bcs: "bcs.u32()" };
+      case "U64": return { tsType: "number | bigint | string", bcs: "bcs.u64()" };
+      case "U128": return { tsType: "number | bigint | string", bcs: "bcs.u128()" };
+      case "U256": return { tsType: "number | bigint | string", bcs: "bcs.u256()" };
+      case "Address": return { tsType: "string", bcs: "bcs.Address" };
+      default: return null;
+    }
+  }
+  if ("Vector" in type) {
+    if (type.Vector === "U8") {
+      return { tsType: "Uint8Array | number[]", bcs: "bcs.vector(bcs.u8())" };
+    }
+    const element = pureType(type.Vector);
+    return element && {
+      tsType: element.tsType.includes(" ") ? `(${element.tsType})[]` : `${element.tsType}[]`,
+      bcs: `bcs.vector(${element.bcs})`,
+    };
+  }
+  if (!("Struct" in type)) return null;
+
+  const struct = type.Struct;
+  if (isFrameworkStruct(struct, "string", "String") || isFrameworkStruct(struct, "ascii", "String")) {
+    return { tsType: "string", bcs: "bcs.string()" };
+  }
+  if (isFrameworkStruct(struct, "object", "ID")) {
+    return { tsType: "string", bcs: "bcs.Address" };
+  }
+  if (isFrameworkStruct(struct, "option", "Option")) {
+    const inner = pureType(struct.typeArguments[0]);
+    return inner && { tsType: `${inner.tsType} | null`, bcs: `bcs.option(${inner.bcs})` };
+  }
+  return null;
+}
+
+/**
+ * How a Move parameter is passed from a transaction; also used by `--check` on hand-written builders
+ */
+export function parameterKind(type: SuiMoveNormalizedType): ParameterKind {
+  const inner = typeof type !== "string" && "Reference" in type ? type.Reference
+    : typeof type !== "string" && "MutableReference" in type ? type.MutableReference
+    : type;
+
+  if (typeof inner !== "string" && "Struct" in inner) {
+    if (isFrameworkStruct(inner.Struct, "tx_context", "TxContext")) return { kind: "context" };
+    if (isFrameworkStruct(inner.Struct, "clock", "Clock")) return { kind: "clock" };
+    if (isFrameworkStruct(inner.Struct, "random", "Random")) return { kind: "random" };
+  }
+
+  const pure = inner === type ? pureType(type) : null;
+  if (pure) return { kind: "pure", ...pure };
+
+  // References and key structs are passed as objects; anything else needs a prior command's result
+  if (inner !== type || (typeof type !== "string" && "Struct" in type)) return { kind: "object" };
+  return { kind: "raw" };
+}
+
+/**
+ * Move signature for doc comments, e.g. `&mut Forum`
+ */
+export function moveTypeName(type: SuiMoveNormalizedType): string {
+  if (typeof type === "string") return type.toLowerCase();
+  if ("Vector" in type) return `vector<${moveTypeName(type.Vector)}>`;
+  if ("Reference" in type) return `&${moveTypeName(type.Reference)}`;
+  if ("MutableReference" in type) return `&mut ${moveTypeName(type.MutableReference)}`;
+  if ("TypeParameter" in type) return `T${type.TypeParameter}`;
+  const args = type.Struct.typeArguments.map(moveTypeName);
+  return args.length > 0 ? `${type.Struct.name}<${args.join(", ")}>` : type.Struct.name;
+}
+
+function emitCallBuilder(moduleName: string, functionName: string, fn: SuiMoveNormalizedFunction): string[] {
+  const kinds = fn.parameters.map(parameterKind);
+  const inputs: string[] = [];
+  const callArguments: string[] = [];
+
+  kinds.forEach(kind => {
+    const index = inputs.length;
+    switch (kind.kind) {
+      case "context":
+        break;
+      case "clock":
+        callArguments.push("tx.object.clock()");
+        break;
+      case "random":
+        callArguments.push("tx.object.random()");
+        break;
+      case "pure":
+        inputs.push(`arg${index}: ${kind.tsType}`);
+        callArguments.push(`tx.pure(${kind.bcs}.serialize(args[${index}]))`);
+        break;
+      case "object":
+        inputs.push(`arg${index}: TransactionObjectInput`);
+        callArguments.push(`tx.object(args[${index}])`);
+        break;
+      case "raw":
+        inputs.push(`arg${index}: TransactionArgument`);
+        callArguments.push(`args[${index}]`);
+        break;
+    }
+  });
+
+  const signature = fn.parameters.map(moveTypeName).join(", ");
+  const params = ["tx: Transaction", "packageId: string"];
+  if (inputs.length > 0) params.push(`args: [${inputs.join(", ")}]`);
+  if (fn.typeParameters.length > 0) {
+    params.push(`typeArguments: [${fn.typeParameters.map(() => "string").join(", ")}]`);
+  }
+
+  return [
+    `  /** ${moduleName}::${functionName}(${signature}) */`,
+    `  ${camelCase(functionName)}(${params.join(", ")}) {`,
+    "    return tx.moveCall({",
+    `      target: \`\${packageId}::${moduleName}::${functionName}\`,`,
+    ...(fn.typeParameters.length > 0 ? ["      typeArguments,"] : []),
+    `      arguments: [${callArguments.join(", ")}],`,
+    "    });",
+    "  },",
+  ];
+}
+
+/**
+ * One object of call builders per module, covering entry and public functions
+ */
+export function emitCallBuilders(modules: SuiMoveNormalizedModules): string {
+  const lines: string[] = [];
+
+  for (const module of Object.values(modules).sort((a, b) => a.name.localeCompare(b.name))) {
+    const callable = Object.entries(module.exposedFunctions)
+      .filter(([, fn]) => fn.isEntry || fn.visibility === "Public")
+      .sort(([a], [b]) => a.localeCompare(b));
+    if (callable.length === 0) continue;
+
+    lines.push(`export const ${camelCase(module.name)} = {`);
+    callable.forEach(([name, fn]) => lines.push(...emitCallBuilder(module.name, name, fn)));
+    lines.push("};", "");
+  }
+
+  return lines.join("\n");
+}
+
+// ===== Module =====
+
+/**
+ * Complete bindings module
+ */
+export function emitBindings(modules: SuiMoveNormalizedModules): string {
+  const moduleNames = Object.keys(modules).sort();
+  const functionNames = moduleNames.map(name =>
+    `  ${name}: [${Object.keys(modules[name].exposedFunctions).sort().map(fn => `"${fn}"`).join(", ")}],`
+  );
+
+  return [
+    "// Shallot Move bindings, generated by codegen/cli.ts. Do not edit.",
+    "",
+    'import { bcs } from "@mysten/sui/bcs";',
+    'import type { Transaction, TransactionArgument, TransactionObjectInput } from "@mysten/sui/transactions";',
+    "",
+    "// ===== Modules =====",
+    "",
+    `export const SHALLOT_MODULES = [${moduleNames.map(name => `"${name}"`).join(", ")}] as const;`,
+    "",
+    "export const SHALLOT_FUNCTIONS = {",
+    ...functionNames,
+    "} as const;",
+    "",
+    "// ===== Struct Types =====",
+    "",
+    emitStructTypes(modules),
+    "// ===== Call Builders =====",
+    "",
+    emitCallBuilders(modules),
+  ].join("\n");
+}
@@ -81,6 +81,12 @@ export default function Navbar() {
               <Link href="/" className="text-gray-900">Home</Link>
             </NavigationMenuLink>
           </NavigationMenuItem>
+
+          <NavigationMenuItem>
+            <NavigationMenuLink asChild className={navigationMenuTriggerStyle()}>
+              <Link href="/receipt" className="text-gray-900">Verify Receipt</Link>
+            </NavigationMenuLink>
+          </NavigationMenuItem>
         </div>
 
         <NavigationMenuItem className="flex ml-auto">
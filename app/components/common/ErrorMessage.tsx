@@ -2,6 +2,7 @@ import React from "react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { ShallotError } from "../../utils/errors";
 import { 
   AlertCircle, 
   XCircle, 
@@ -75,6 +76,7 @@ export function ErrorMessage({
   if (!error) return null;
 
   const errorMessage = error instanceof Error ? error.message : error;
+  const suggestion = error instanceof ShallotError ? error.suggestion : undefined;
   const Icon = iconMap[type];
 
   // Use Alert component for styled errors
@@ -86,6 +88,7 @@ export function ErrorMessage({
           <div className="flex flex-col space-y-2">
             {title && <div className="font-medium">{title}</div>}
             <div>{errorMessage}</div>
+            {suggestion && <div className="text-sm opacity-90">{suggestion}</div>}
             {children}
             {onRetry && (
               <Button
@@ -134,6 +137,7 @@ export function ErrorMessage({
             <h3 className="text-sm font-medium mb-1">{title}</h3>
           )}
           <p className="text-sm">{errorMessage}</p>
+          {suggestion && <p className="text-sm mt-1 opacity-90">{suggestion}</p>}
           {children && <div className="mt-2">{children}</div>}
         </div>
 
@@ -288,18 +292,20 @@ export function WalletError({ onRetry, className }: NetworkErrorProps) {
  * Transaction error component
  */
 interface TransactionErrorProps {
+  error?: string | Error | null;
   digest?: string;
   onRetry?: () => void;
   className?: string;
 }
 
-export function TransactionError({ digest, onRetry, className }: TransactionErrorProps) {
+export function TransactionError({ error, digest, onRetry, className }: TransactionErrorProps) {
   return (
     <ErrorMessage
       error={
-        digest 
+        error ||
+        (digest
           ? `Transaction failed. Transaction ID: ${digest.slice(0, 8)}...`
-          : "Transaction failed. Please try again."
+          : "Transaction failed. Please try again.")
       }
       type="error"
       title="Transaction Failed"
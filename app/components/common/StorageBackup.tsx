@@ -0,0 +1,76 @@
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Download, Upload } from "lucide-react";
+import { ErrorMessage } from "./ErrorMessage";
+import {
+  exportStore,
+  importStore,
+  getStorageScope
+} from "../../utils/storage";
+
+interface StorageBackupProps {
+  className?: string;
+}
+
+/**
+ * Export and import the locally stored forum/poll IDs as a JSON file
+ */
+export function StorageBackup({ className }: StorageBackupProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([exportStore()], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${getStorageScope().replace(/:/g, "-")}-backup.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setMessage(null);
+    setError(null);
+    try {
+      const imported = importStore(await file.text());
+      setMessage(`Imported ${imported} forum ${imported === 1 ? "entry" : "entries"}`);
+    } catch (err: any) {
+      console.error("Storage import failed:", err);
+      setError(err.message || "Failed to import backup");
+    }
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <Download className="w-4 h-4 mr-1" />
+          Export Local Data
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-1" />
+          Import Backup
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {message && <ErrorMessage error={message} type="success" dismissible onDismiss={() => setMessage(null)} />}
+      {error && <ErrorMessage error={error} dismissible onDismiss={() => setError(null)} />}
+    </div>
+  );
+}
+
+export default StorageBackup;
@@ -0,0 +1,151 @@
+import React, { createContext, useCallback, useContext, useRef, useState } from "react";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ErrorMessage } from "./ErrorMessage";
+import { formatObjectId, formatSui } from "../../utils/formatting";
+import type { SimulatedObjectChange, TransactionSimulation } from "../../types";
+
+interface PendingConfirmation {
+  action: string;
+  simulation: TransactionSimulation;
+  resolve: (confirmed: boolean) => void;
+}
+
+// Resolves true when the user approves signing; always false for a failed simulation
+type ConfirmTransaction = (action: string, simulation: TransactionSimulation) => Promise<boolean>;
+
+const TransactionConfirmContext = createContext<ConfirmTransaction | null>(null);
+
+/**
+ * Confirmation step shown between the dry run and the wallet prompt
+ */
+export function useTransactionConfirm(): ConfirmTransaction {
+  const confirm = useContext(TransactionConfirmContext);
+  if (!confirm) {
+    throw new Error("useTransactionConfirm must be used within a TransactionConfirmProvider");
+  }
+  return confirm;
+}
+
+// `0x5a...::forum::Forum` -> `forum::Forum`
+function shortType(objectType: string): string {
+  return objectType.split("::").slice(1).join("::") || objectType;
+}
+
+function ObjectChangeList({ label, changes }: { label: string; changes: SimulatedObjectChange[] }) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-900 mb-1">{label}</h4>
+      <ul className="space-y-1">
+        {changes.map(change => (
+          <li key={change.objectId} className="flex items-center justify-between text-sm">
+            <span className="font-mono text-gray-800">{shortType(change.objectType)}</span>
+            <span className="text-gray-500">
+              {formatObjectId(change.objectId)} · {change.owner === "you" ? "owned by you" : change.owner}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+interface TransactionConfirmDialogProps {
+  action: string;
+  simulation: TransactionSimulation;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Simulated outcome of a transaction: abort reason, or gas cost and object changes
+ */
+export function TransactionConfirmDialog({ action, simulation, onConfirm, onCancel }: TransactionConfirmDialogProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" role="dialog" aria-modal="true">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle className="text-lg">{action}</CardTitle>
+          <p className="text-sm text-gray-600">
+            {simulation.success
+              ? "Simulated against the current chain state. Review before signing."
+              : "This transaction would fail, so it was not sent to your wallet."}
+          </p>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {simulation.success ? (
+            <>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-600">Estimated gas cost</span>
+                <span className="font-medium text-gray-900">{formatSui(simulation.gasCost)}</span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-600">Gas budget</span>
+                <span className="text-gray-900">{formatSui(simulation.gasBudget)}</span>
+              </div>
+              <ObjectChangeList label="Creates" changes={simulation.created} />
+              <ObjectChangeList label="Modifies" changes={simulation.mutated} />
+            </>
+          ) : (
+            <ErrorMessage error={simulation.error || "Transaction simulation failed"} title="Simulation failed" />
+          )}
+        </CardContent>
+
+        <CardFooter className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onCancel}>
+            {simulation.success ? "Cancel" : "Close"}
+          </Button>
+          {simulation.success && (
+            <Button onClick={onConfirm}>
+              Sign &amp; Execute
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * Provides useTransactionConfirm and renders the dialog for the pending transaction
+ */
+export function TransactionConfirmProvider({ children }: { children: React.ReactNode }) {
+  const [pending, setPending] = useState<PendingConfirmation | null>(null);
+  const pendingRef = useRef<PendingConfirmation | null>(null);
+
+  const confirm = useCallback<ConfirmTransaction>((action, simulation) => {
+    // A newer request replaces one that was never answered
+    pendingRef.current?.resolve(false);
+
+    return new Promise<boolean>(resolve => {
+      const next = { action, simulation, resolve };
+      pendingRef.current = next;
+      setPending(next);
+    });
+  }, []);
+
+  const close = (confirmed: boolean) => {
+    pending?.resolve(confirmed && pending.simulation.success);
+    pendingRef.current = null;
+    setPending(null);
+  };
+
+  return (
+    <TransactionConfirmContext.Provider value={confirm}>
+      {children}
+      {pending && (
+        <TransactionConfirmDialog
+          action={pending.action}
+          simulation={pending.simulation}
+          onConfirm={() => close(true)}
+          onCancel={() => close(false)}
+        />
+      )}
+    </TransactionConfirmContext.Provider>
+  );
+}
+
+export default TransactionConfirmDialog;
@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle } from "lucide-react";
+import { ButtonLoading } from "../common/LoadingSpinner";
+import { ErrorMessage, FieldError } from "../common/ErrorMessage";
+import PasswordInput from "../common/PasswordInput";
+import { useForum } from "../../hooks/useForum";
+import { validateCreateForumForm, validatePasswordStrength } from "../../utils/validation";
+import { formatObjectId, formatRelativeTime } from "../../utils/formatting";
+import type { PendingForumCreation } from "../../utils/storage";
+import {
+  type CreateForumFormData,
+  type ForumValidationResult,
+  type GovernanceConfig,
+  DEFAULT_GOVERNANCE,
+  PASS_THRESHOLDS
+} from "../../types";
+
+interface CreateForumProps {
+  onCreated?: (forumId: string) => void;
+  className?: string;
+}
+
+const EMPTY_FORM: CreateForumFormData = {
+  name: "",
+  description: "",
+  password: "",
+  governance: { ...DEFAULT_GOVERNANCE },
+};
+
+/**
+ * Forum creation form
+ */
+export function CreateForum({ onCreated, className }: CreateForumProps) {
+  const {
+    isLoading,
+    error,
+    createForum,
+    finishForumSetup,
+    getPendingForums,
+    clearError,
+  } = useForum();
+
+  const [formData, setFormData] = useState<CreateForumFormData>(EMPTY_FORM);
+  const [errors, setErrors] = useState<ForumValidationResult["errors"]>({});
+  const [pendingForums, setPendingForums] = useState<PendingForumCreation[]>([]);
+  const [weakPasswordAccepted, setWeakPasswordAccepted] = useState(false);
+
+  const passwordStrength = validatePasswordStrength(formData.password);
+  const isWeakPassword = !!formData.password && passwordStrength.score < 3;
+
+  // Forums whose registry step was interrupted, possibly in an earlier session
+  useEffect(() => {
+    setPendingForums(getPendingForums());
+  }, [getPendingForums]);
+
+  const handleGovernanceChange = (changes: Partial<GovernanceConfig>) => {
+    setFormData(prev => ({ ...prev, governance: { ...DEFAULT_GOVERNANCE, ...prev.governance, ...changes } }));
+  };
+
+  const handleChange = (field: "name" | "description" | "password", value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (field === "password") {
+      setWeakPasswordAccepted(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const validation = validateCreateForumForm(formData);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+    if (isWeakPassword && !weakPasswordAccepted) return;
+
+    try {
+      const result = await createForum(formData);
+      if (result.success) {
+        setFormData(EMPTY_FORM);
+        if (result.objectId) {
+          onCreated?.(result.objectId);
+        }
+      }
+    } catch (err) {
+      console.error("Create forum failed:", err);
+    } finally {
+      setPendingForums(getPendingForums());
+    }
+  };
+
+  const handleFinishSetup = async (pending: PendingForumCreation) => {
+    try {
+      const result = await finishForumSetup(pending.forumId);
+      if (result.success) {
+        onCreated?.(pending.forumId);
+      }
+    } catch (err) {
+      console.error("Finish forum setup failed:", err);
+    } finally {
+      setPendingForums(getPendingForums());
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg">Create New Forum</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <ErrorMessage error={error} dismissible onDismiss={clearError} />}
+
+        {pendingForums.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-3">
+            <div>
+              <h4 className="font-medium text-yellow-800">Unfinished Forums</h4>
+              <p className="text-sm text-yellow-700">
+                These forums were created but their member registry was not, so nobody can join them yet.
+              </p>
+            </div>
+            {pendingForums.map(pending => (
+              <div key={pending.forumId} className="flex items-center justify-between gap-4 text-sm">
+                <span>
+                  <span className="font-medium text-gray-900">{pending.name}</span>
+                  <span className="text-gray-500"> · {formatObjectId(pending.forumId)} · {formatRelativeTime(pending.updatedAt)}</span>
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleFinishSetup(pending)}
+                  disabled={isLoading}
+                >
+                  Finish Setup
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="text-sm font-medium text-gray-700">
+              Forum Name *
+            </label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => handleChange("name", e.target.value)}
+              placeholder="Enter forum name"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <FieldError error={errors.name} />
+          </div>
+
+          <div>
+            <PasswordInput
+              label="Access Password *"
+              value={formData.password}
+              onChange={(e) => handleChange("password", e.target.value)}
+              placeholder="Set forum password"
+              error={errors.password}
+              showToggle={true}
+            />
+          </div>
+        </div>
+
+        {isWeakPassword && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 space-y-2" role="alert">
+            <div className="flex items-center text-red-800 font-medium">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              This password can be cracked offline
+            </div>
+            <p className="text-sm text-red-700">
+              The forum publishes a value derived from its password in a public on-chain object.
+              Anyone can test guesses against it without rate limits, so with a weak password
+              anyone can effectively join the forum and vote.
+            </p>
+            <ul className="text-sm text-red-700 list-disc list-inside">
+              {passwordStrength.feedback.map(item => <li key={item}>{item}</li>)}
+            </ul>
+            <label className="flex items-center text-sm text-red-800">
+              <input
+                type="checkbox"
+                checked={weakPasswordAccepted}
+                onChange={(e) => setWeakPasswordAccepted(e.target.checked)}
+                className="mr-2"
+              />
+              I understand that this forum is effectively open to anyone
+            </label>
+          </div>
+        )}
+
+        <div>
+          <label className="text-sm font-medium text-gray-700">
+            Description
+          </label>
+          <textarea
+            value={formData.description}
+            onChange={(e) => handleChange("description", e.target.value)}
+            placeholder="Enter forum description"
+            rows={3}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <FieldError error={errors.description} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="text-sm font-medium text-gray-700">
+              Quorum (% of members)
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={formData.governance?.quorumPercent ?? 0}
+              onChange={(e) => handleGovernanceChange({ quorumPercent: parseInt(e.target.value) || 0 })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Share of members who must vote for a poll to count; 0 for no quorum
+            </p>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">
+              Pass Threshold
+            </label>
+            <select
+              value={`${formData.governance?.thresholdNumerator ?? 1}/${formData.governance?.thresholdDenominator ?? 2}`}
+              onChange={(e) => {
+                const [thresholdNumerator, thresholdDenominator] = e.target.value.split("/").map(Number);
+                handleGovernanceChange({ thresholdNumerator, thresholdDenominator });
+              }}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {PASS_THRESHOLDS.map(threshold => (
+                <option key={threshold.label} value={`${threshold.numerator}/${threshold.denominator}`}>
+                  {threshold.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Share of votes cast that must be yes
+            </p>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          The quorum and pass threshold apply to every poll and cannot be changed later.
+        </p>
+        <FieldError error={errors.governance} />
+
+        <Button
+          onClick={handleSubmit}
+          disabled={isLoading || !formData.name || !formData.password || (isWeakPassword && !weakPasswordAccepted)}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <ButtonLoading isLoading={isLoading}>Create Forum</ButtonLoading>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default CreateForum;
@@ -0,0 +1,61 @@
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { Users, Vote } from "lucide-react";
+import type { ForumListItem } from "../../types";
+import {
+  formatDate,
+  formatMemberCount,
+  truncateText
+} from "../../utils/formatting";
+
+interface ForumCardProps {
+  forum: ForumListItem;
+  isSelected?: boolean;
+  onSelect?: (forum: ForumListItem) => void;
+  className?: string;
+}
+
+/**
+ * Compact forum summary for lists
+ */
+export function ForumCard({ forum, isSelected = false, onSelect, className }: ForumCardProps) {
+  return (
+    <Card
+      className={cn(
+        "transition-shadow hover:shadow-md",
+        onSelect && "cursor-pointer",
+        isSelected && "ring-2 ring-blue-500",
+        className
+      )}
+      onClick={() => onSelect?.(forum)}
+    >
+      <CardContent className="p-4">
+        <div className="flex items-start justify-between">
+          <div className="flex-1 min-w-0">
+            <h4 className="font-medium text-gray-900">{forum.name}</h4>
+            {forum.description && (
+              <p className="text-sm text-gray-600 mt-1">{truncateText(forum.description, 160)}</p>
+            )}
+          </div>
+          {forum.hasActivePoll && (
+            <span className="ml-4 flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">
+              <Vote className="w-3 h-3 mr-1" />
+              Poll open
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-4 text-xs text-gray-500 mt-3">
+          <span className="flex items-center">
+            <Users className="w-3 h-3 mr-1" />
+            {formatMemberCount(forum.memberCount)}
+          </span>
+          <span>Created {formatDate(forum.createdAt)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ForumCard;
@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Users, Vote, User, Calendar, RefreshCw, AlertTriangle } from "lucide-react";
+import { LoadingSpinner } from "../common/LoadingSpinner";
+import { LoadingError } from "../common/ErrorMessage";
+import { CreatePoll } from "../poll/CreatePoll";
+import { PollDetail } from "../poll/PollDetail";
+import { MigrateForumVerifier } from "./MigrateForumVerifier";
+import { useForum } from "../../hooks/useForum";
+import { findPasswordForHash } from "../../utils/passwordAudit";
+import type { Forum } from "../../types";
+import {
+  formatAddress,
+  formatDate,
+  formatMemberCount,
+  formatObjectId
+} from "../../utils/formatting";
+
+interface ForumDetailProps {
+  forumId: string;
+  onForumLoaded?: (forum: Forum) => void;
+  className?: string;
+  children?: React.ReactNode; // extra actions rendered under the forum summary
+}
+
+/**
+ * Live view of an on-chain Forum object and its active poll
+ */
+export function ForumDetail({ forumId, onForumLoaded, className, children }: ForumDetailProps) {
+  const { isLoading, getForumDetails, currentAccount } = useForum();
+
+  const [forum, setForum] = useState<Forum | null>(null);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [passwordExposed, setPasswordExposed] = useState(false);
+
+  const loadForum = useCallback(async () => {
+    const forumData = await getForumDetails(forumId);
+    setForum(forumData);
+    setHasLoaded(true);
+    if (forumData) {
+      onForumLoaded?.(forumData);
+    }
+  }, [forumId, getForumDetails, onForumLoaded]);
+
+  useEffect(() => {
+    setForum(null);
+    setHasLoaded(false);
+    loadForum();
+  }, [loadForum]);
+
+  // The stored hash is public, so a common password means anyone can join
+  useEffect(() => {
+    let cancelled = false;
+    setPasswordExposed(false);
+    if (forum?.passwordHash) {
+      findPasswordForHash(forum.passwordHash).then(match => {
+        if (!cancelled) setPasswordExposed(match !== null);
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [forum?.passwordHash]);
+
+  if (!forum) {
+    if (!hasLoaded || isLoading) {
+      return <LoadingSpinner className={cn("p-8", className)}>Loading forum...</LoadingSpinner>;
+    }
+    return <LoadingError resource="forum" onRetry={loadForum} className={className} />;
+  }
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <CardTitle className="text-xl">{forum.name}</CardTitle>
+            <Button variant="ghost" size="sm" onClick={loadForum} disabled={isLoading}>
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+          </div>
+          {forum.description && (
+            <p className="text-sm text-gray-600">{forum.description}</p>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm text-gray-700">
+            <div className="flex items-center">
+              <Users className="w-4 h-4 mr-2 text-gray-400" />
+              {formatMemberCount(forum.memberCount)}
+            </div>
+            <div className="flex items-center">
+              <Vote className="w-4 h-4 mr-2 text-gray-400" />
+              {forum.activePoll
+                ? <>Active poll: {formatObjectId(forum.activePoll)}</>
+                : "No active poll"}
+            </div>
+            <div className="flex items-center">
+              <User className="w-4 h-4 mr-2 text-gray-400" />
+              Created by {formatAddress(forum.creator)}
+            </div>
+            <div className="flex items-center">
+              <Calendar className="w-4 h-4 mr-2 text-gray-400" />
+              {formatDate(forum.createdAt)}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500 break-all">Forum ID: {forum.id}</p>
+
+          {passwordExposed && (
+            <div className="flex items-start bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800" role="alert">
+              <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              This forum&apos;s password is on the common-password list. Its hash is public, so anyone can
+              recover the password and join.
+            </div>
+          )}
+
+          {/* Password forums can be moved to a commitment by any member */}
+          {currentAccount && !forum.commitment && forum.passwordHash.length > 0 && (
+            <MigrateForumVerifier forum={forum} onMigrated={loadForum} />
+          )}
+
+          {children}
+        </CardContent>
+      </Card>
+
+      {/* Active poll, or a proposal form when there is none */}
+      {forum.activePoll ? (
+        <PollDetail pollId={forum.activePoll} onExecuted={loadForum} />
+      ) : currentAccount ? (
+        <CreatePoll
+          key={`${forum.name}:${forum.description}`}
+          forumId={forum.id}
+          currentName={forum.name}
+          currentDescription={forum.description}
+          memberCount={forum.memberCount}
+          governance={forum.governance}
+          onCreated={loadForum}
+        />
+      ) : null}
+    </div>
+  );
+}
+
+export default ForumDetail;
@@ -0,0 +1,142 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { LoadingSpinner } from "../common/LoadingSpinner";
+import { ErrorMessage } from "../common/ErrorMessage";
+import { ForumCard } from "./ForumCard";
+import { useForum } from "../../hooks/useForum";
+import {
+  type Forum,
+  type ForumListItem,
+  type ForumQueryFilters,
+  forumToListItem
+} from "../../types";
+
+interface ForumListProps {
+  filters?: ForumQueryFilters;
+  selectedForumId?: string | null;
+  onSelectForum?: (forum: ForumListItem) => void;
+  onLoaded?: (forums: Forum[]) => void;
+  refreshKey?: number; // bump to force a reload
+  limit?: number;
+  className?: string;
+}
+
+/**
+ * Browsable list of forums with basic filters
+ */
+export function ForumList({
+  filters,
+  selectedForumId,
+  onSelectForum,
+  onLoaded,
+  refreshKey = 0,
+  limit = 20,
+  className,
+}: ForumListProps) {
+  const { isLoading, error, getForumsPage, clearError, currentAccount } = useForum();
+
+  const [forums, setForums] = useState<Forum[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [activePollOnly, setActivePollOnly] = useState(false);
+  const [mineOnly, setMineOnly] = useState(false);
+
+  const activeFilters = useMemo<ForumQueryFilters>(() => ({
+    ...filters,
+    ...(activePollOnly ? { hasActivePoll: true } : {}),
+    ...(mineOnly && currentAccount ? { creator: currentAccount.address } : {}),
+  }), [filters, activePollOnly, mineOnly, currentAccount]);
+
+  const loadForums = useCallback(async () => {
+    const page = await getForumsPage(null, limit, activeFilters);
+    setForums(page.data);
+    setNextCursor(page.pagination.nextCursor ?? null);
+    onLoaded?.(page.data);
+  }, [getForumsPage, limit, activeFilters, onLoaded]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+
+    const page = await getForumsPage(nextCursor, limit, activeFilters);
+    if (!page.success) return;
+
+    // Guard against overlap if a forum shows up on both pages
+    const known = new Set(forums.map(forum => forum.id));
+    const combined = [...forums, ...page.data.filter(forum => !known.has(forum.id))];
+    setForums(combined);
+    setNextCursor(page.pagination.nextCursor ?? null);
+    onLoaded?.(combined);
+  };
+
+  // refreshKey only forces a reload
+  useEffect(() => {
+    loadForums();
+  }, [loadForums, refreshKey]);
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-medium">Available Forums</h3>
+        <div className="flex items-center gap-4 text-sm text-gray-700">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={activePollOnly}
+              onChange={(e) => setActivePollOnly(e.target.checked)}
+            />
+            Active poll
+          </label>
+          {currentAccount && (
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={mineOnly}
+                onChange={(e) => setMineOnly(e.target.checked)}
+              />
+              Created by me
+            </label>
+          )}
+          <Button onClick={loadForums} disabled={isLoading} variant="outline" size="sm">
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && <ErrorMessage error={error} onRetry={() => { clearError(); loadForums(); }} />}
+
+      {isLoading && forums.length === 0 ? (
+        <LoadingSpinner className="py-8">Loading forums...</LoadingSpinner>
+      ) : forums.length > 0 ? (
+        <div className="space-y-3">
+          {forums.map(forumToListItem).map(forum => (
+            <ForumCard
+              key={forum.id}
+              forum={forum}
+              isSelected={selectedForumId === forum.id}
+              onSelect={onSelectForum}
+            />
+          ))}
+          {nextCursor && (
+            <Button onClick={loadMore} disabled={isLoading} variant="outline" className="w-full">
+              {isLoading ? "Loading..." : "Load more"}
+            </Button>
+          )}
+        </div>
+      ) : nextCursor ? (
+        // Filters can empty a page while older forums remain
+        <div className="text-center py-8 text-gray-500 space-y-3">
+          <p>No matching forums on this page.</p>
+          <Button onClick={loadMore} disabled={isLoading} variant="outline" size="sm">
+            Load more
+          </Button>
+        </div>
+      ) : (
+        <div className="text-center py-8 text-gray-500">
+          No forums found. Create the first one!
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ForumList;
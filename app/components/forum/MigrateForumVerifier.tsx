@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { ShieldCheck } from "lucide-react";
+import { ButtonLoading } from "../common/LoadingSpinner";
+import { ErrorMessage } from "../common/ErrorMessage";
+import PasswordInput from "../common/PasswordInput";
+import { useForum } from "../../hooks/useForum";
+import { useMembership } from "../../hooks/useMembership";
+import { validatePassword } from "../../utils/validation";
+import { verifyPasswordHash } from "../../utils/crypto";
+import { normalizeAddress } from "../../utils/sui";
+import type { Forum } from "../../types";
+
+interface MigrateForumVerifierProps {
+  forum: Pick<Forum, "id" | "passwordHash" | "creator">;
+  onMigrated?: () => void;
+  className?: string;
+}
+
+/**
+ * Lets the creator move a password forum to a commitment, so joiners stop
+ * sending the password in plaintext. Renders nothing for anyone else, since
+ * the contract only accepts the migration from the creator as a member.
+ */
+export function MigrateForumVerifier({ forum, onMigrated, className }: MigrateForumVerifierProps) {
+  const { isLoading, error, migrateToCommitment, clearError } = useForum();
+  const { checkMembership, currentAccount } = useMembership();
+
+  const [isMember, setIsMember] = useState(false);
+  const [password, setPassword] = useState("");
+  const [passwordError, setPasswordError] = useState<string | undefined>();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsMember(false);
+    checkMembership(forum.id).then(member => {
+      if (!cancelled) setIsMember(member);
+    }).catch(() => {
+      // Membership unknown: keep the form hidden
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [forum.id, checkMembership]);
+
+  const handleSubmit = async () => {
+    const validationError = validatePassword(password);
+    if (validationError) {
+      setPasswordError(validationError.message);
+      return;
+    }
+
+    // The contract rejects a wrong password too, but only after a signature prompt
+    if (!(await verifyPasswordHash(password, forum.passwordHash))) {
+      setPasswordError("Wrong password");
+      return;
+    }
+
+    try {
+      await migrateToCommitment(forum.id, password);
+      setPassword("");
+      onMigrated?.();
+    } catch (err) {
+      console.error("Forum migration failed:", err);
+    }
+  };
+
+  const isCreator = !!currentAccount && normalizeAddress(currentAccount.address) === normalizeAddress(forum.creator);
+  if (!isCreator || !isMember) {
+    return null;
+  }
+
+  return (
+    <div className={cn("bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3", className)}>
+      <div>
+        <h4 className="flex items-center font-medium text-blue-800">
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          Stop sending the password on chain
+        </h4>
+        <p className="text-sm text-blue-700">
+          Joining this forum puts its password in the transaction, where anyone can read it.
+          Switching to a commitment lets new members prove they know the password without
+          revealing it. The migration transaction sends the current password one last time.
+        </p>
+      </div>
+
+      {error && <ErrorMessage error={error} dismissible onDismiss={clearError} />}
+
+      <PasswordInput
+        label="Current Forum Password"
+        value={password}
+        onChange={(e) => {
+          setPassword(e.target.value);
+          setPasswordError(undefined);
+        }}
+        placeholder="Enter forum password"
+        error={passwordError}
+      />
+
+      <Button
+        size="sm"
+        onClick={handleSubmit}
+        disabled={isLoading || !password}
+        className="bg-blue-600 hover:bg-blue-700"
+      >
+        <ButtonLoading isLoading={isLoading}>Migrate Forum</ButtonLoading>
+      </Button>
+    </div>
+  );
+}
+
+export default MigrateForumVerifier;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ButtonLoading } from "../common/LoadingSpinner";
+import { ErrorMessage } from "../common/ErrorMessage";
+import PasswordInput from "../common/PasswordInput";
+import { useMembership } from "../../hooks/useMembership";
+import { useForum } from "../../hooks/useForum";
+import { validateJoinForumForm } from "../../utils/validation";
+import { verifyPasswordHash, verifyCommitmentPassword } from "../../utils/crypto";
+import type { Forum, JoinForumFormData, JoinForumValidationResult } from "../../types";
+
+interface JoinForumProps {
+  forumId: string;
+  forumName?: string;
+  passwordHash?: number[]; // loaded with the forum's commitment when not given
+  onJoined?: (membershipId?: string) => void;
+  className?: string;
+}
+
+async function passwordMatches(
+  password: string,
+  verifier: Pick<Forum, "passwordHash" | "commitment">
+): Promise<boolean> {
+  if (verifier.commitment) {
+    return verifyCommitmentPassword(password, verifier.commitment);
+  }
+  if (verifier.passwordHash.length > 0) {
+    return verifyPasswordHash(password, verifier.passwordHash);
+  }
+  return true;
+}
+
+/**
+ * Password form for joining a forum and minting a Membership NFT
+ */
+export function JoinForum({ forumId, forumName, passwordHash, onJoined, className }: JoinForumProps) {
+  const { isLoading, error, joinForum, clearError, currentAccount } = useMembership();
+  const { getForumDetails } = useForum();
+
+  const [formData, setFormData] = useState<JoinForumFormData>({ password: "" });
+  const [errors, setErrors] = useState<JoinForumValidationResult["errors"]>({});
+  const [verifier, setVerifier] = useState<Pick<Forum, "passwordHash" | "commitment"> | null>(null);
+
+  // The stored hash or commitment lets a wrong password be rejected before any transaction
+  useEffect(() => {
+    // Migrated forums keep an empty hash, so only a non-empty one settles it
+    if (passwordHash && passwordHash.length > 0) {
+      setVerifier({ passwordHash, commitment: null });
+      return;
+    }
+
+    let cancelled = false;
+    getForumDetails(forumId)
+      .then(forum => {
+        if (!cancelled) setVerifier(forum);
+      })
+      .catch(err => console.warn("⚠️ Could not load forum verifier:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [forumId, passwordHash, getForumDetails]);
+
+  const handleSubmit = async () => {
+    const validation = validateJoinForumForm(formData);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    // Without a stored hash or commitment the on-chain check is the only one
+    if (verifier && !(await passwordMatches(formData.password, verifier))) {
+      setErrors({ password: "Wrong password" });
+      return;
+    }
+
+    try {
+      const result = await joinForum(forumId, formData);
+      if (result.success) {
+        setFormData({ password: "" });
+        onJoined?.(result.objectId);
+      }
+    } catch (err) {
+      console.error("Join forum failed:", err);
+    }
+  };
+
+  if (!currentAccount) {
+    return null;
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg">
+          Join {forumName ? `"${forumName}"` : "Forum"}
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Members receive a non-transferable Membership NFT and can create and vote on polls.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <ErrorMessage error={error} dismissible onDismiss={clearError} />}
+
+        <PasswordInput
+          label="Forum Password"
+          value={formData.password}
+          onChange={(e) => {
+            setFormData({ password: e.target.value });
+            setErrors({});
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSubmit();
+          }}
+          placeholder="Enter forum password"
+          error={errors.password}
+        />
+
+        {verifier?.commitment && (
+          <p className="text-xs text-gray-500">
+            Your password stays in this browser; the transaction only carries a proof tied to your address.
+          </p>
+        )}
+
+        <Button
+          onClick={handleSubmit}
+          disabled={isLoading || !formData.password}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          <ButtonLoading isLoading={isLoading}>Join Forum</ButtonLoading>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default JoinForum;
@@ -0,0 +1,132 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { RefreshCw } from "lucide-react";
+import { LoadingSpinner } from "../common/LoadingSpinner";
+import { ErrorMessage } from "../common/ErrorMessage";
+import { useMembership } from "../../hooks/useMembership";
+import {
+  type MemberInfo,
+  type MemberJoinedEvent,
+  addressToMemberInfo
+} from "../../types";
+import {
+  formatAddress,
+  formatDate
+} from "../../utils/formatting";
+
+const PAGE_SIZE = 20;
+
+interface MemberListProps {
+  forumId: string;
+  registryId: string;
+  className?: string;
+}
+
+// Every registry entry comes from join_forum, so MemberJoined events list the same members in join order
+function toMemberInfo(event: MemberJoinedEvent): MemberInfo {
+  return addressToMemberInfo(event.member, {
+    id: event.membership_id,
+    forumId: event.forum_id,
+    member: event.member,
+    joinedAt: event.timestamp,
+  });
+}
+
+/**
+ * Members of a forum with join dates, paged from MemberJoined events
+ */
+export function MemberList({ forumId, registryId, className }: MemberListProps) {
+  const {
+    isLoading,
+    error,
+    getMemberRegistry,
+    getForumMembersPage,
+    clearError,
+    currentAccount,
+  } = useMembership();
+
+  const [members, setMembers] = useState<MemberInfo[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  const loadMembers = useCallback(async () => {
+    const registry = await getMemberRegistry(registryId);
+    setTotalCount(registry?.totalCount ?? 0);
+    if (!registry) {
+      setMembers([]);
+      setNextCursor(null);
+      return;
+    }
+
+    const page = await getForumMembersPage(forumId, null, PAGE_SIZE);
+    setMembers(page.data.map(toMemberInfo));
+    setNextCursor(page.pagination.nextCursor ?? null);
+  }, [forumId, registryId, getMemberRegistry, getForumMembersPage]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+
+    const page = await getForumMembersPage(forumId, nextCursor, PAGE_SIZE);
+    if (!page.success) return;
+
+    setMembers(prev => [...prev, ...page.data.map(toMemberInfo)]);
+    setNextCursor(page.pagination.nextCursor ?? null);
+  };
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Forum Members ({totalCount})</CardTitle>
+          <Button variant="ghost" size="sm" onClick={loadMembers} disabled={isLoading}>
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <ErrorMessage error={error} onRetry={() => { clearError(); loadMembers(); }} className="mb-4" />}
+
+        {isLoading && members.length === 0 ? (
+          <LoadingSpinner className="py-4">Loading members...</LoadingSpinner>
+        ) : members.length > 0 ? (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {members.map(member => (
+              <div
+                key={member.address}
+                className={cn(
+                  "flex items-center justify-between p-2 border border-gray-200 rounded text-sm",
+                  member.address === currentAccount?.address && "border-blue-300 bg-blue-50"
+                )}
+              >
+                <span className="font-mono">
+                  {formatAddress(member.address)}
+                  {member.address === currentAccount?.address && (
+                    <span className="ml-2 font-sans text-xs text-blue-600">(you)</span>
+                  )}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {member.joinedAt > 0 ? `Joined ${formatDate(member.joinedAt)}` : "Join date unknown"}
+                </span>
+              </div>
+            ))}
+            {nextCursor && (
+              <Button onClick={loadMore} disabled={isLoading} variant="outline" size="sm" className="w-full">
+                {isLoading ? "Loading..." : `Load more (${members.length} of ${totalCount})`}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <p className="text-center py-4 text-sm text-gray-500">No members yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default MemberList;
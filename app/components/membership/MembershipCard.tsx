@@ -0,0 +1,66 @@
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { BadgeCheck, Users, Vote } from "lucide-react";
+import type { UserMembershipItem } from "../../types";
+import {
+  formatDate,
+  formatRelativeTime,
+  formatObjectId,
+  formatMemberCount
+} from "../../utils/formatting";
+
+interface MembershipCardProps {
+  membership: UserMembershipItem;
+  onOpen?: (forumId: string) => void;
+  className?: string;
+}
+
+/**
+ * A user's Membership NFT for one forum, with the forum's live state
+ */
+export function MembershipCard({ membership, onOpen, className }: MembershipCardProps) {
+  return (
+    <Card
+      className={cn(
+        "bg-green-50 border-green-200",
+        onOpen && "cursor-pointer transition-shadow hover:shadow-md",
+        className
+      )}
+      onClick={() => onOpen?.(membership.forumId)}
+    >
+      <CardContent className="p-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <h4 className="flex items-center font-medium text-gray-900">
+              <BadgeCheck className="w-4 h-4 mr-1 text-green-600" />
+              {membership.forumName}
+            </h4>
+            <p className="text-sm text-gray-600 mt-1">
+              Joined {formatDate(membership.joinedAt)}
+              <span className="text-gray-400"> · {formatRelativeTime(membership.joinedAt)}</span>
+            </p>
+          </div>
+          {membership.hasActivePoll && (
+            <span className="flex items-center text-xs font-medium text-blue-700 bg-blue-100 px-2 py-1 rounded">
+              <Vote className="w-3 h-3 mr-1" />
+              Active poll
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center text-sm text-gray-600 mt-3">
+          <Users className="w-4 h-4 mr-1" />
+          {formatMemberCount(membership.memberCount)}
+        </div>
+
+        <div className="text-xs text-gray-500 mt-3 space-y-0.5">
+          <p>Membership NFT: {formatObjectId(membership.membershipId)}</p>
+          <p>Forum ID: {formatObjectId(membership.forumId)}</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default MembershipCard;
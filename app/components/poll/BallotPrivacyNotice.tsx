@@ -0,0 +1,39 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+import { Eye } from "lucide-react";
+import { formatNumber } from "../../utils/formatting";
+import type { BallotPrivacyReport } from "../../utils/privacy";
+
+interface BallotPrivacyNoticeProps {
+  report: BallotPrivacyReport | null; // null while loading or when the analysis failed
+  className?: string;
+}
+
+/**
+ * States plainly that ballots can be traced to voters, with the measured count for this poll
+ */
+export function BallotPrivacyNotice({ report, className }: BallotPrivacyNoticeProps) {
+  return (
+    <div
+      className={cn("flex items-start rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800", className)}
+      role="note"
+    >
+      <Eye className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+      <div className="space-y-1">
+        <p className="font-medium">Votes are not anonymous</p>
+        <p>
+          A ballot&apos;s voter ID is a hash of the voter&apos;s address and the poll ID. Both are public,
+          so anyone can work out who cast each ballot and how they voted.
+        </p>
+        {report && report.totalBallots > 0 && (
+          <p className="text-xs">
+            {formatNumber(report.linkedBallots)} of {formatNumber(report.totalBallots)} ballots on this poll
+            are linked to a member address.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BallotPrivacyNotice;
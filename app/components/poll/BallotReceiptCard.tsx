@@ -0,0 +1,62 @@
+import React from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Download, Receipt } from "lucide-react";
+import { formatDate, formatObjectId } from "../../utils/formatting";
+import { serializeBallotReceipt, type BallotReceipt } from "../../utils/receipt";
+
+interface BallotReceiptCardProps {
+  receipt: BallotReceipt;
+  className?: string;
+}
+
+/**
+ * Where the current account's ballot is on chain, with a downloadable receipt
+ */
+export function BallotReceiptCard({ receipt, className }: BallotReceiptCardProps) {
+  const handleDownload = () => {
+    const blob = new Blob([serializeBallotReceipt(receipt)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `ballot-receipt-${receipt.pollId.slice(2, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className={cn("rounded-lg border border-gray-200 p-4 text-sm space-y-2", className)}>
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center font-medium text-gray-900">
+          <Receipt className="w-4 h-4 mr-2" />
+          Your ballot receipt
+        </h4>
+        <Button variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-1" />
+          Download
+        </Button>
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-gray-700">
+        <dt className="text-gray-500">Choice</dt>
+        <dd>{receipt.choice ? "Yes" : "No"}</dd>
+        <dt className="text-gray-500">Counted</dt>
+        <dd>{formatDate(receipt.timestamp)}</dd>
+        <dt className="text-gray-500">Voter ID</dt>
+        <dd className="font-mono break-all">{receipt.anonymousVoterId}</dd>
+        <dt className="text-gray-500">Ballot</dt>
+        <dd className="font-mono">{formatObjectId(receipt.ballotId)}</dd>
+        <dt className="text-gray-500">Transaction</dt>
+        <dd className="font-mono break-all">{receipt.txDigest}</dd>
+      </dl>
+
+      <p className="text-xs text-gray-500">
+        Keep this file to check later that your ballot is still on chain as cast.{" "}
+        <Link href="/receipt" className="text-blue-600 hover:underline">Verify a receipt</Link>
+      </p>
+    </div>
+  );
+}
+
+export default BallotReceiptCard;
@@ -0,0 +1,285 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ButtonLoading } from "../common/LoadingSpinner";
+import { ErrorMessage, FieldError } from "../common/ErrorMessage";
+import { usePoll } from "../../hooks/usePoll";
+import { validateCreatePollForm } from "../../utils/validation";
+import {
+  formatDuration,
+  formatNumber,
+  formatObjectId,
+  formatPassThreshold,
+  formatRelativeTime
+} from "../../utils/formatting";
+import type { PendingPollCreation } from "../../utils/storage";
+import {
+  type CreatePollFormData,
+  type GovernanceConfig,
+  type PollValidationResult,
+  DEFAULT_GOVERNANCE,
+  DEFAULT_REVEAL_DURATION_HOURS
+} from "../../types";
+
+interface CreatePollProps {
+  forumId: string;
+  currentName: string;
+  currentDescription: string;
+  memberCount: number; // becomes the poll's member snapshot
+  governance?: GovernanceConfig | null; // the forum's quorum and pass threshold; null for the default rule
+  onCreated?: (pollId: string) => void;
+  className?: string;
+}
+
+const DEFAULT_DURATION_HOURS = 24;
+
+const inputClassName =
+  "mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+/**
+ * Proposal form for renaming a forum and changing its description
+ */
+export function CreatePoll({
+  forumId,
+  currentName,
+  currentDescription,
+  memberCount,
+  governance,
+  onCreated,
+  className,
+}: CreatePollProps) {
+  const { isLoading, error, createPoll, finishPollSetup, getPendingPolls, clearError } = usePoll();
+
+  const [formData, setFormData] = useState<CreatePollFormData>({
+    title: "",
+    description: "",
+    proposedName: currentName,
+    proposedDescription: currentDescription,
+    duration: DEFAULT_DURATION_HOURS,
+    secretBallot: false,
+    revealDuration: DEFAULT_REVEAL_DURATION_HOURS,
+  });
+  const [errors, setErrors] = useState<PollValidationResult["errors"]>({});
+  const [pendingPolls, setPendingPolls] = useState<PendingPollCreation[]>([]);
+
+  // This forum's polls whose registry step was interrupted, possibly in an earlier session
+  const refreshPendingPolls = useCallback(() => {
+    setPendingPolls(getPendingPolls().filter(pending => pending.forumId === forumId));
+  }, [getPendingPolls, forumId]);
+
+  useEffect(() => {
+    refreshPendingPolls();
+  }, [refreshPendingPolls]);
+
+  const handleChange = (field: keyof CreatePollFormData, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: field === "duration" || field === "revealDuration" ? parseFloat(value) || 0 : value,
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const validation = validateCreatePollForm(formData);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    try {
+      const result = await createPoll(forumId, formData);
+      if (result.success && result.objectId) {
+        setFormData({
+          title: "",
+          description: "",
+          proposedName: formData.proposedName,
+          proposedDescription: formData.proposedDescription,
+          duration: DEFAULT_DURATION_HOURS,
+          secretBallot: formData.secretBallot,
+          revealDuration: formData.revealDuration,
+        });
+        onCreated?.(result.objectId);
+      }
+    } catch (err) {
+      console.error("Create poll failed:", err);
+    } finally {
+      refreshPendingPolls();
+    }
+  };
+
+  const handleFinishSetup = async (pending: PendingPollCreation) => {
+    try {
+      const result = await finishPollSetup(pending.pollId);
+      if (result.success) {
+        onCreated?.(pending.pollId);
+      }
+    } catch (err) {
+      console.error("Finish poll setup failed:", err);
+    } finally {
+      refreshPendingPolls();
+    }
+  };
+
+  const rule = governance ?? DEFAULT_GOVERNANCE;
+  const quorumVotes = Math.ceil((rule.quorumPercent * memberCount) / 100);
+
+  const isUnchanged =
+    formData.proposedName === currentName &&
+    formData.proposedDescription === currentDescription;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg">Propose a Change</CardTitle>
+        <p className="text-sm text-gray-600">
+          Forum metadata can only change through a vote of its members.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <ErrorMessage error={error} dismissible onDismiss={clearError} />}
+
+        {pendingPolls.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-3">
+            <div>
+              <h4 className="font-medium text-yellow-800">Unfinished Polls</h4>
+              <p className="text-sm text-yellow-700">
+                These polls were created but their vote registry was not, so nobody can vote on them yet.
+              </p>
+            </div>
+            {pendingPolls.map(pending => (
+              <div key={pending.pollId} className="flex items-center justify-between gap-4 text-sm">
+                <span>
+                  <span className="font-medium text-gray-900">{pending.title}</span>
+                  <span className="text-gray-500"> · {formatObjectId(pending.pollId)} · {formatRelativeTime(pending.updatedAt)}</span>
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleFinishSetup(pending)}
+                  disabled={isLoading}
+                >
+                  Finish Setup
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <label className="text-sm font-medium text-gray-700">Poll Title *</label>
+          <input
+            type="text"
+            value={formData.title}
+            onChange={(e) => handleChange("title", e.target.value)}
+            placeholder="e.g. Rename the forum"
+            className={inputClassName}
+          />
+          <FieldError error={errors.title} />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium text-gray-700">Reason *</label>
+          <textarea
+            value={formData.description}
+            onChange={(e) => handleChange("description", e.target.value)}
+            placeholder="Explain why members should support this change"
+            rows={2}
+            className={inputClassName}
+          />
+          <FieldError error={errors.description} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="text-sm font-medium text-gray-700">New Forum Name *</label>
+            <input
+              type="text"
+              value={formData.proposedName}
+              onChange={(e) => handleChange("proposedName", e.target.value)}
+              className={inputClassName}
+            />
+            <FieldError error={errors.proposedName} />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">Voting Duration (hours) *</label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={formData.duration || ""}
+              onChange={(e) => handleChange("duration", e.target.value)}
+              className={inputClassName}
+            />
+            {formData.duration > 0 && !errors.duration && (
+              <p className="text-xs text-gray-500 mt-1">
+                Voting closes after {formatDuration(formData.duration * 60 * 60 * 1000)}
+              </p>
+            )}
+            <FieldError error={errors.duration} />
+          </div>
+        </div>
+
+        <div>
+          <label className="text-sm font-medium text-gray-700">New Forum Description *</label>
+          <textarea
+            value={formData.proposedDescription}
+            onChange={(e) => handleChange("proposedDescription", e.target.value)}
+            rows={3}
+            className={inputClassName}
+          />
+          <FieldError error={errors.proposedDescription} />
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!formData.secretBallot}
+              onChange={(e) => setFormData(prev => ({ ...prev, secretBallot: e.target.checked }))}
+              className="mr-2"
+            />
+            Secret ballot (commit now, reveal after voting closes)
+          </label>
+          {formData.secretBallot && (
+            <div>
+              <label className="text-sm font-medium text-gray-700">Reveal Window (hours) *</label>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={formData.revealDuration || ""}
+                onChange={(e) => handleChange("revealDuration", e.target.value)}
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Only votes revealed within this window are counted; the poll can be executed once it ends.
+              </p>
+              <FieldError error={errors.revealDuration} />
+            </div>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          To pass,{" "}
+          {rule.quorumPercent > 0 &&
+            `at least ${formatNumber(quorumVotes)} of the forum's ${formatNumber(memberCount)} members must vote (${rule.quorumPercent}% quorum) and `}
+          {formatPassThreshold(rule).toLowerCase()} of the votes cast must be yes.
+        </p>
+
+        {isUnchanged && (
+          <p className="text-xs text-yellow-700">
+            The proposal matches the current name and description.
+          </p>
+        )}
+
+        <Button
+          onClick={handleSubmit}
+          disabled={isLoading || !formData.title}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <ButtonLoading isLoading={isLoading}>Create Poll</ButtonLoading>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default CreatePoll;
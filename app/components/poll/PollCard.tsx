@@ -0,0 +1,71 @@
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { PollCountdown } from "./VotingInterface";
+import { useCurrentTime } from "../../hooks/useCurrentTime";
+import {
+  type Poll,
+  PollStatus,
+  pollToListItem
+} from "../../types";
+import {
+  formatPollStatus,
+  getStatusColor,
+  formatDate,
+  truncateText
+} from "../../utils/formatting";
+
+interface PollCardProps {
+  poll: Poll;
+  isSelected?: boolean;
+  onSelect?: (poll: Poll) => void;
+  className?: string;
+}
+
+/**
+ * Compact poll summary for lists
+ */
+export function PollCard({ poll, isSelected = false, onSelect, className }: PollCardProps) {
+  const now = useCurrentTime();
+  const item = pollToListItem(poll, now);
+
+  return (
+    <Card
+      className={cn(
+        "transition-shadow hover:shadow-md",
+        onSelect && "cursor-pointer",
+        isSelected && "ring-2 ring-blue-500",
+        className
+      )}
+      onClick={() => onSelect?.(poll)}
+    >
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-start justify-between">
+          <h4 className="font-medium text-gray-900">{poll.title}</h4>
+          <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", getStatusColor(item.status))}>
+            {formatPollStatus(item.status)}
+          </span>
+        </div>
+
+        {poll.description && (
+          <p className="text-sm text-gray-600">{truncateText(poll.description, 120)}</p>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Proposes: <span className="font-medium text-gray-700">{poll.proposedName}</span>
+        </p>
+
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          {item.status === PollStatus.ACTIVE ? (
+            <PollCountdown poll={poll} className="text-xs" />
+          ) : (
+            <span>Ended {formatDate(poll.endTime)}</span>
+          )}
+          <span>{item.participationRate.toFixed(1)}% participation</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default PollCard;
@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Play } from "lucide-react";
+import { LoadingSpinner, ButtonLoading } from "../common/LoadingSpinner";
+import { ErrorMessage, LoadingError, SuccessMessage } from "../common/ErrorMessage";
+import { VotingInterface } from "./VotingInterface";
+import { PollResults } from "./PollResults";
+import { BallotPrivacyNotice } from "./BallotPrivacyNotice";
+import { BallotReceiptCard } from "./BallotReceiptCard";
+import { usePoll } from "../../hooks/usePoll";
+import { useCurrentTime } from "../../hooks/useCurrentTime";
+import type { BallotPrivacyReport } from "../../utils/privacy";
+import type { BallotReceipt } from "../../utils/receipt";
+import type { TallyAudit } from "../../utils/tallyAudit";
+import {
+  type Poll,
+  type UserVoteStatus,
+  PollStatus,
+  getPollStatus,
+  isSecretBallot
+} from "../../types";
+import {
+  formatAddress,
+  formatDate,
+  formatPollStatus,
+  getStatusColor
+} from "../../utils/formatting";
+
+interface PollDetailProps {
+  pollId: string;
+  onExecuted?: (poll: Poll) => void;
+  className?: string;
+}
+
+/**
+ * Full poll view: proposal, voting panel, results and execution
+ */
+export function PollDetail({ pollId, onExecuted, className }: PollDetailProps) {
+  const {
+    isLoading,
+    error,
+    vote,
+    revealVote,
+    executePoll,
+    finishPollSetup,
+    getPollDetails,
+    getUserVoteStatus,
+    getBallotPrivacy,
+    getBallotReceipt,
+    getTallyAudit,
+    clearError,
+    currentAccount,
+  } = usePoll();
+  const now = useCurrentTime();
+
+  const [poll, setPoll] = useState<Poll | null>(null);
+  const [voteStatus, setVoteStatus] = useState<UserVoteStatus | null>(null);
+  const [privacyReport, setPrivacyReport] = useState<BallotPrivacyReport | null>(null);
+  const [receipt, setReceipt] = useState<BallotReceipt | null>(null);
+  const [tallyAudit, setTallyAudit] = useState<TallyAudit | null>(null);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [successMessage, setSuccessMessage] = useState("");
+
+  const loadPoll = useCallback(async () => {
+    const pollData = await getPollDetails(pollId);
+    setPoll(pollData);
+    setHasLoaded(true);
+
+    if (pollData) {
+      const status = await getUserVoteStatus(pollData);
+      setVoteStatus(status);
+      setPrivacyReport(await getBallotPrivacy(pollData));
+
+      // Secret ballots have no Ballot until the vote is revealed
+      const counted = status.hasVoted && (!isSecretBallot(pollData) || status.hasRevealed);
+      setReceipt(counted ? await getBallotReceipt(pollData) : null);
+      setTallyAudit(await getTallyAudit(pollData));
+    }
+  }, [pollId, getPollDetails, getUserVoteStatus, getBallotPrivacy, getBallotReceipt, getTallyAudit]);
+
+  useEffect(() => {
+    loadPoll();
+  }, [loadPoll]);
+
+  const handleVote = async (choice: boolean) => {
+    if (!poll) return;
+
+    await vote(poll, choice);
+    setSuccessMessage(
+      isSecretBallot(poll)
+        ? `Your "${choice ? "Yes" : "No"}" vote was committed. Reveal it after voting closes so it is counted.`
+        : `Your "${choice ? "Yes" : "No"}" vote was recorded.`
+    );
+    await loadPoll();
+  };
+
+  const handleReveal = async () => {
+    if (!poll) return;
+
+    await revealVote(poll);
+    setSuccessMessage("Your vote was revealed and counted.");
+    await loadPoll();
+  };
+
+  const handleCreateVoteRegistry = async () => {
+    if (!poll) return;
+
+    try {
+      await finishPollSetup(poll.id);
+      setSuccessMessage("Vote registry created. Members can now vote.");
+      await loadPoll();
+    } catch (err) {
+      console.error("Create vote registry failed:", err);
+    }
+  };
+
+  const handleExecute = async () => {
+    if (!poll) return;
+
+    try {
+      await executePoll(poll);
+      setSuccessMessage("Poll executed.");
+      await loadPoll();
+      onExecuted?.(poll);
+    } catch (err) {
+      console.error("Execute poll failed:", err);
+    }
+  };
+
+  if (!poll) {
+    if (!hasLoaded || isLoading) {
+      return <LoadingSpinner className={cn("p-8", className)}>Loading poll...</LoadingSpinner>;
+    }
+    return <LoadingError resource="poll" onRetry={loadPoll} className={className} />;
+  }
+
+  const status = getPollStatus(poll, now);
+  const canExecute = status === PollStatus.ENDED || status === PollStatus.FAILED;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <CardTitle className="text-lg">{poll.title}</CardTitle>
+          <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", getStatusColor(status))}>
+            {formatPollStatus(status)}
+          </span>
+        </div>
+        {poll.description && (
+          <p className="text-sm text-gray-600">{poll.description}</p>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {error && <ErrorMessage error={error} dismissible onDismiss={clearError} />}
+        {successMessage && (
+          <SuccessMessage message={successMessage} dismissible onDismiss={() => setSuccessMessage("")} />
+        )}
+
+        {/* Proposal */}
+        <div className="rounded-lg bg-gray-50 p-4 text-sm space-y-1">
+          <h4 className="font-medium text-gray-900 mb-2">Proposed changes</h4>
+          <p><strong>New name:</strong> {poll.proposedName}</p>
+          <p><strong>New description:</strong> {poll.proposedDescription || <em>(empty)</em>}</p>
+          <p className="text-xs text-gray-500 pt-2">
+            Proposed by {formatAddress(poll.creator)} · {formatDate(poll.startTime)} → {formatDate(poll.endTime)}
+          </p>
+          {isSecretBallot(poll) && (
+            <p className="text-xs text-gray-500">
+              Secret ballot · votes are revealed until {formatDate(poll.revealEndTime!)}
+            </p>
+          )}
+        </div>
+
+        <BallotPrivacyNotice report={privacyReport} />
+
+        {/* Voting */}
+        {(status === PollStatus.ACTIVE || status === PollStatus.REVEAL) && (
+          <VotingInterface
+            poll={poll}
+            voteStatus={voteStatus}
+            onVote={handleVote}
+            onReveal={handleReveal}
+            isLoading={isLoading}
+          />
+        )}
+
+        {voteStatus?.needsVoteRegistry && currentAccount && (
+          <Button variant="outline" onClick={handleCreateVoteRegistry} disabled={isLoading}>
+            <ButtonLoading isLoading={isLoading}>Create Vote Registry</ButtonLoading>
+          </Button>
+        )}
+
+        {receipt && <BallotReceiptCard receipt={receipt} />}
+
+        {/* Results */}
+        <PollResults poll={poll} audit={tallyAudit} />
+
+        {/* Execution */}
+        {canExecute && currentAccount && (
+          <Button
+            onClick={handleExecute}
+            disabled={isLoading}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            <ButtonLoading isLoading={isLoading}>
+              <Play className="w-4 h-4" />
+              Execute
+            </ButtonLoading>
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default PollDetail;
@@ -0,0 +1,163 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+import { CheckCircle, XCircle, EyeOff, ShieldCheck, ShieldAlert } from "lucide-react";
+import { useCurrentTime } from "../../hooks/useCurrentTime";
+import {
+  type Poll,
+  type PollResults as PollResultsSummary,
+  calculatePollResults,
+  isPollActive,
+  isRevealPhase,
+  isSecretBallot
+} from "../../types";
+import {
+  formatPercentage,
+  formatPassThreshold,
+  formatVoteCount,
+  formatNumber
+} from "../../utils/formatting";
+import type { TallyAudit } from "../../utils/tallyAudit";
+
+interface PollResultsProps {
+  poll: Poll;
+  audit?: TallyAudit | null; // omitted or null while loading, or when the audit could not run
+  className?: string;
+}
+
+/**
+ * Whether the poll counters agree with a recount of its ballots
+ */
+export function TallyIntegrityBadge({ audit, className }: { audit: TallyAudit; className?: string }) {
+  if (audit.consistent) {
+    return (
+      <div className={cn("flex items-center text-xs text-green-700", className)}>
+        <ShieldCheck className="w-4 h-4 mr-1" />
+        Tally verified against {formatNumber(audit.ballots)} ballot{audit.ballots === 1 ? "" : "s"}
+        {audit.unrevealed > 0 && ` (${formatNumber(audit.unrevealed)} unrevealed)`}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-700", className)} role="alert">
+      <div className="flex items-center font-medium">
+        <ShieldAlert className="w-4 h-4 mr-1" />
+        Tally does not match the ballots
+      </div>
+      <ul className="mt-1 list-disc pl-5">
+        {audit.issues.map(issue => <li key={issue.message}>{issue.message}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+function pluralVotes(count: number, kind = ""): string {
+  return `${formatNumber(count)} more${kind} vote${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * How the tally stands against the forum's quorum and pass threshold
+ */
+function PassingRequirements({ results }: { results: PollResultsSummary }) {
+  const { governance, executed } = results;
+
+  const thresholdText = results.thresholdMet
+    ? "met"
+    : results.yesVotesToPass === null
+    ? "can no longer be met"
+    : executed ? "not met" : `${pluralVotes(results.yesVotesToPass, " yes")} needed`;
+
+  return (
+    <ul className="space-y-1 text-xs text-gray-600">
+      {governance.quorumPercent > 0 && (
+        <li className="flex items-center">
+          {results.quorumMet
+            ? <CheckCircle className="w-3 h-3 mr-1 text-green-600" />
+            : <XCircle className="w-3 h-3 mr-1 text-gray-400" />}
+          Quorum of {governance.quorumPercent}% ({formatNumber(results.quorumVotes)} of {formatNumber(results.totalEligibleVoters)} members):{" "}
+          {results.quorumMet ? "met" : executed ? "not met" : `${pluralVotes(results.votesToQuorum)} needed`}
+        </li>
+      )}
+      <li className="flex items-center">
+        {results.thresholdMet
+          ? <CheckCircle className="w-3 h-3 mr-1 text-green-600" />
+          : <XCircle className="w-3 h-3 mr-1 text-gray-400" />}
+        {formatPassThreshold(governance)} of votes yes: {thresholdText}
+      </li>
+    </ul>
+  );
+}
+
+/**
+ * Yes/no results bar with participation summary
+ * Secret ballots show nothing while voting is open and only revealed votes afterwards
+ */
+export function PollResults({ poll, audit, className }: PollResultsProps) {
+  const now = useCurrentTime();
+  const results = calculatePollResults(poll);
+  const revealing = isRevealPhase(poll, now);
+
+  if (isSecretBallot(poll) && isPollActive(poll, now)) {
+    return (
+      <div className={cn("flex items-center text-sm text-gray-600", className)}>
+        <EyeOff className="w-4 h-4 mr-1" />
+        Secret ballot: results are hidden until voting closes and votes are revealed.
+      </div>
+    );
+  }
+
+  const yesWidth = results.totalVotes > 0 ? (results.yesVotes / results.totalVotes) * 100 : 0;
+  const noWidth = results.totalVotes > 0 ? (results.noVotes / results.totalVotes) * 100 : 0;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {/* Vote split */}
+      <div className="flex justify-between text-sm">
+        <span className="font-medium text-green-700">
+          Yes · {formatVoteCount(results.yesVotes)} ({formatPercentage(results.yesVotes, results.totalVotes)})
+        </span>
+        <span className="font-medium text-red-700">
+          No · {formatVoteCount(results.noVotes)} ({formatPercentage(results.noVotes, results.totalVotes)})
+        </span>
+      </div>
+
+      <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-200">
+        <div className="bg-green-500 transition-all" style={{ width: `${yesWidth}%` }} />
+        <div className="bg-red-500 transition-all" style={{ width: `${noWidth}%` }} />
+      </div>
+
+      {/* Participation */}
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>
+          {formatNumber(results.totalVotes)} of {formatNumber(results.totalEligibleVoters)} members
+          {isSecretBallot(poll) ? " revealed" : " voted"}{revealing && " so far"}
+        </span>
+        <span>{results.participationRate.toFixed(1)}% participation</span>
+      </div>
+
+      <PassingRequirements results={results} />
+
+      {/* Outcome */}
+      <div
+        className={cn(
+          "flex items-center text-sm",
+          results.passed ? "text-green-700" : "text-gray-600"
+        )}
+      >
+        {results.passed ? (
+          <CheckCircle className="w-4 h-4 mr-1" />
+        ) : (
+          <XCircle className="w-4 h-4 mr-1" />
+        )}
+        {results.executed
+          ? results.passed ? "Passed and executed" : "Rejected"
+          : results.passed ? "Currently passing" : "Currently not passing"}
+        {revealing && " (unrevealed votes are not counted)"}
+      </div>
+
+      {audit && <TallyIntegrityBadge audit={audit} />}
+    </div>
+  );
+}
+
+export default PollResults;
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import { Bell } from "lucide-react";
+import { usePoll } from "../../hooks/usePoll";
+import { useCurrentTime } from "../../hooks/useCurrentTime";
+import { formatDate, formatObjectId, formatTimeRemaining } from "../../utils/formatting";
+import type { VoteSecret } from "../../utils/storage";
+
+interface RevealReminderProps {
+  className?: string;
+}
+
+/**
+ * Secret ballot votes committed from this browser that still need to be revealed
+ */
+export function RevealReminder({ className }: RevealReminderProps) {
+  const { getPendingReveals } = usePoll();
+  const now = useCurrentTime();
+  const [pendingReveals, setPendingReveals] = useState<VoteSecret[]>([]);
+
+  useEffect(() => {
+    setPendingReveals(getPendingReveals());
+  }, [getPendingReveals]);
+
+  const open = pendingReveals.filter(secret => secret.revealEndTime > now);
+  if (open.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn("rounded-lg border border-blue-200 bg-blue-50 p-4 text-sm text-blue-800 space-y-2", className)}
+      role="status"
+    >
+      <div className="flex items-center font-medium">
+        <Bell className="w-4 h-4 mr-2" />
+        {open.length === 1 ? "1 secret vote to reveal" : `${open.length} secret votes to reveal`}
+      </div>
+      <p className="text-xs">
+        Open each poll after voting closes and reveal your vote, or it will not be counted.
+      </p>
+      <ul className="space-y-1">
+        {open.map(secret => (
+          <li key={secret.pollId} className="flex justify-between gap-4">
+            <span>Poll {formatObjectId(secret.pollId)}</span>
+            <span className="text-blue-700">
+              Reveal by {formatDate(secret.revealEndTime)} ({formatTimeRemaining(secret.revealEndTime, now)})
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default RevealReminder;
@@ -0,0 +1,203 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Clock, ThumbsUp, ThumbsDown, CheckCircle, EyeOff } from "lucide-react";
+import { ButtonLoading } from "../common/LoadingSpinner";
+import { useCurrentTime } from "../../hooks/useCurrentTime";
+import { formatTimeRemaining } from "../../utils/formatting";
+import {
+  type Poll,
+  type UserVoteStatus,
+  type VoteChoice,
+  isSecretBallot,
+  isRevealPhase
+} from "../../types";
+
+const VOTE_CHOICES: VoteChoice[] = [
+  { value: true, label: "Yes", description: "Apply the proposed name and description" },
+  { value: false, label: "No", description: "Keep the forum as it is" },
+];
+
+/**
+ * Live countdown until the poll closes, or until `endTime` (e.g. a secret ballot's reveal deadline)
+ */
+export function PollCountdown({ poll, endTime, className }: { poll: Poll; endTime?: number; className?: string }) {
+  const now = useCurrentTime();
+  const deadline = endTime ?? poll.endTime;
+  const remaining = Math.max(0, deadline - now);
+
+  return (
+    <div
+      className={cn(
+        "flex items-center text-sm",
+        remaining > 0 ? "text-blue-700" : "text-gray-500",
+        className
+      )}
+    >
+      <Clock className="w-4 h-4 mr-1" />
+      {formatTimeRemaining(deadline, now)}
+    </div>
+  );
+}
+
+interface VotingInterfaceProps {
+  poll: Poll;
+  voteStatus: UserVoteStatus | null;
+  onVote: (choice: boolean) => Promise<void>;
+  onReveal?: () => Promise<void>;
+  isLoading?: boolean;
+  className?: string;
+}
+
+/**
+ * Yes/no voting panel for an active poll
+ * Secret ballots commit while the poll is open and reveal from here once it closes
+ */
+export function VotingInterface({
+  poll,
+  voteStatus,
+  onVote,
+  onReveal,
+  isLoading = false,
+  className,
+}: VotingInterfaceProps) {
+  const [selectedChoice, setSelectedChoice] = useState<boolean | null>(null);
+  const now = useCurrentTime();
+  const secret = isSecretBallot(poll);
+  const revealing = isRevealPhase(poll, now);
+
+  const handleVote = async () => {
+    if (selectedChoice === null) return;
+
+    try {
+      await onVote(selectedChoice);
+      setSelectedChoice(null);
+    } catch (err) {
+      // Errors are surfaced by the caller; keep the selection so the user can retry
+      console.error("Vote failed:", err);
+    }
+  };
+
+  const handleReveal = async () => {
+    if (!onReveal) return;
+
+    try {
+      await onReveal();
+    } catch (err) {
+      // Errors are surfaced by the caller
+      console.error("Reveal failed:", err);
+    }
+  };
+
+  return (
+    <div className={cn("space-y-4 rounded-lg border border-gray-200 p-4", className)}>
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900">{revealing ? "Reveal your vote" : "Cast your vote"}</h4>
+        <PollCountdown poll={poll} endTime={revealing ? poll.revealEndTime! : undefined} />
+      </div>
+
+      {/* Already voted */}
+      {voteStatus?.hasVoted && !secret && (
+        <div className="flex items-center rounded-md bg-green-50 p-3 text-sm text-green-700">
+          <CheckCircle className="w-4 h-4 mr-2" />
+          You have already voted in this poll.
+        </div>
+      )}
+
+      {/* Secret ballot: revealed */}
+      {voteStatus?.hasVoted && secret && voteStatus.hasRevealed && (
+        <div className="flex items-center rounded-md bg-green-50 p-3 text-sm text-green-700">
+          <CheckCircle className="w-4 h-4 mr-2" />
+          Your vote has been revealed and counted.
+        </div>
+      )}
+
+      {/* Secret ballot: committed, reveal pending */}
+      {voteStatus?.hasVoted && secret && !voteStatus.hasRevealed && (
+        voteStatus.canReveal ? (
+          <>
+            <p className="text-sm text-gray-700">
+              You voted <strong>{voteStatus.voteChoice ? "Yes" : "No"}</strong>. Reveal it before the window closes, or it will not be counted.
+            </p>
+            <Button
+              onClick={handleReveal}
+              disabled={isLoading || !onReveal}
+              className="w-full bg-blue-600 hover:bg-blue-700"
+            >
+              <ButtonLoading isLoading={isLoading}>Reveal Vote</ButtonLoading>
+            </Button>
+          </>
+        ) : (
+          <div className="flex items-center rounded-md bg-blue-50 p-3 text-sm text-blue-700">
+            <EyeOff className="w-4 h-4 mr-2 flex-shrink-0" />
+            {voteStatus.reason || "Your vote is committed."}
+          </div>
+        )
+      )}
+
+      {/* Cannot vote for another reason */}
+      {voteStatus && !voteStatus.hasVoted && !voteStatus.canVote && (
+        <p className="text-sm text-gray-500">
+          {voteStatus.reason || "You cannot vote in this poll."}
+        </p>
+      )}
+
+      {/* Voting options */}
+      {voteStatus?.canVote && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            {VOTE_CHOICES.map(choice => (
+              <button
+                key={choice.label}
+                type="button"
+                onClick={() => setSelectedChoice(choice.value)}
+                disabled={isLoading}
+                className={cn(
+                  "rounded-md border p-3 text-left transition-colors",
+                  selectedChoice === choice.value
+                    ? choice.value
+                      ? "border-green-500 bg-green-50"
+                      : "border-red-500 bg-red-50"
+                    : "border-gray-300 hover:bg-gray-50"
+                )}
+              >
+                <div className="flex items-center font-medium text-gray-900">
+                  {choice.value ? (
+                    <ThumbsUp className="w-4 h-4 mr-2 text-green-600" />
+                  ) : (
+                    <ThumbsDown className="w-4 h-4 mr-2 text-red-600" />
+                  )}
+                  {choice.label}
+                </div>
+                {choice.description && (
+                  <p className="mt-1 text-xs text-gray-500">{choice.description}</p>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <Button
+            onClick={handleVote}
+            disabled={isLoading || selectedChoice === null}
+            className="w-full bg-blue-600 hover:bg-blue-700"
+          >
+            <ButtonLoading isLoading={isLoading}>{secret ? "Commit Vote" : "Submit Vote"}</ButtonLoading>
+          </Button>
+          {secret ? (
+            <p className="text-xs text-gray-500">
+              Secret ballot: only a hash of your vote is published until voting closes, then you reveal it.
+              The salt needed to reveal is stored in this browser; back it up with Export Local Data.
+              Votes that are not revealed are not counted, and revealed ballots can be traced to your address.
+            </p>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Your ballot can be traced to your address.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default VotingInterface;
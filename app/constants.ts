@@ -22,26 +22,65 @@ export const FUNCTIONS = {
   // Membership functions
   INIT_MEMBER_REGISTRY: "init_member_registry",
   JOIN_FORUM: "join_forum",
+  CREATE_FORUM_WITH_REGISTRY: "create_forum_with_registry",
+  CREATE_FORUM_WITH_COMMITMENT: "create_forum_with_commitment",
+  CREATE_FORUM_WITH_COMMITMENT_AND_GOVERNANCE: "create_forum_with_commitment_and_governance",
+  JOIN_FORUM_WITH_PROOF: "join_forum_with_proof",
+  MIGRATE_TO_COMMITMENT: "migrate_to_commitment",
   
   // Poll functions
   CREATE_POLL: "create_poll",
+  CREATE_SECRET_POLL: "create_secret_poll",
   EXECUTE_POLL: "execute_poll",
   
   // Ballot functions
   INIT_VOTE_REGISTRY: "init_vote_registry",
   VOTE: "vote",
+  COMMIT_VOTE: "commit_vote",
+  REVEAL_VOTE: "reveal_vote",
   
   // Verifier functions
   CREATE_SIMPLE_PASSWORD_VERIFIER: "create_simple_password_verifier",
   VERIFY_USER: "verify_user"
 } as const;
 
-// Default gas budget for transactions
-export const DEFAULT_GAS_BUDGET = 10_000_000;
+// Gas budget for dry runs (the fullnode's maximum); real budgets come from the simulated cost
+export const SIMULATION_GAS_BUDGET = 50_000_000_000;
+
+// Extra gas budget on top of the simulated cost, in percent
+export const GAS_BUDGET_BUFFER_PERCENT = 20;
+
+// Commitment verifiers: PBKDF2-SHA256 cost and salt size for new forums
+// (existing forums keep the iteration count stored on-chain)
+export const COMMITMENT_KDF_ITERATIONS = 100_000;
+export const COMMITMENT_SALT_BYTES = 16;
+
+// Secret ballots: salt size for vote commitments and default reveal window
+export const VOTE_SALT_BYTES = 32;
+export const DEFAULT_REVEAL_DURATION_HOURS = 24;
+
+// Poll governance: forums created without a config use no quorum and a simple majority
+export const DEFAULT_GOVERNANCE = {
+  quorumPercent: 0,
+  thresholdNumerator: 1,
+  thresholdDenominator: 2,
+} as const;
+
+// Pass thresholds offered at forum creation (yes share of the votes cast)
+export const PASS_THRESHOLDS = [
+  { label: "Simple majority", numerator: 1, denominator: 2 },
+  { label: "Three-fifths", numerator: 3, denominator: 5 },
+  { label: "Two-thirds", numerator: 2, denominator: 3 },
+  { label: "Three-quarters", numerator: 3, denominator: 4 },
+  { label: "Unanimous", numerator: 1, denominator: 1 },
+] as const;
 
 // Transaction timeouts
 export const TRANSACTION_TIMEOUT = 30_000; // 30 seconds
 
+// Local event indexer (see indexer/cli.ts); event queries go to the fullnode when unset
+export const INDEXER_URL = process.env.NEXT_PUBLIC_SHALLOT_INDEXER_URL || "";
+
 // Event types for filtering
 export const EVENT_TYPES = {
   FORUM_CREATED: "ForumCreated",
@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+
+// Current timestamp in milliseconds, refreshed on an interval.
+// Used for countdowns and for poll status changes that depend on the clock.
+export function useCurrentTime(intervalMs: number = 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -1,39 +1,58 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { 
   useCurrentAccount, 
-  useSuiClient, 
-  useSignAndExecuteTransaction
+  useSuiClient
 } from "@mysten/dapp-kit";
 import { useNetworkVariable } from "../networkConfig";
-import { Transaction } from "@mysten/sui/transactions";
+import { useTransactionExecutor } from "./useTransactionExecutor";
 import { 
-  createForumTransaction, 
+  createForumWithCommitmentTransaction,
+  createForumWithCommitmentAndGovernanceTransaction,
   createMemberRegistryTransaction,
+  createMigrateToCommitmentTransaction,
+  getForumCommitment,
+  getForumGovernance,
   getObjectSafe,
+  getMultipleObjectsSafe,
   getForumCreatedEvents,
-  processTransactionResult
+  getForumCreatedEventsPage
 } from "../utils/sui";
-import { validateCreateForumForm } from "../utils/validation";
-import { saveRegistryId, getRegistryId } from "../utils/storage";
+import { validateCreateForumForm, validateForumCommitment } from "../utils/validation";
+import {
+  saveRegistryId,
+  getPendingForums,
+  clearPendingForum
+} from "../utils/storage";
+import { resolveMemberRegistryId } from "../utils/registry";
+import { parseCreateForumEffects, parseCreateMemberRegistryEffects } from "../utils/effects";
+import { decodeEvents, decodeForumCreatedEvent } from "../utils/decoders";
+import { translateError } from "../utils/errors";
+import { createForumCommitment } from "../utils/crypto";
 import { 
   type CreateForumFormData,
   type Forum,
+  type ForumCommitment,
   type ForumCreatedEvent,
-  type TransactionResult,
-  processForum
+  type ForumQueryFilters,
+  type PaginatedResponse,
+  type CreateForumResult,
+  type CreateMemberRegistryResult,
+  processForum,
+  filterForums,
+  isDefaultGovernance
 } from "../types";
 
 export function useForum() {
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { executeTransaction } = useTransactionExecutor();
   const packageId = useNetworkVariable("shallotPackageId");
   
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
 
   // Create a new forum
-  const createForum = async (formData: CreateForumFormData): Promise<TransactionResult> => {
+  const createForum = async (formData: CreateForumFormData): Promise<CreateForumResult> => {
     if (!currentAccount) {
       throw new Error("Please connect your wallet first");
     }
@@ -55,86 +74,120 @@ export function useForum() {
     try {
       console.log('🏛️ Creating forum:', formData.name);
 
-      // Create forum transaction
-      const tx = createForumTransaction(packageId, {
+      // The forum and its registry are created in one transaction, from a commitment
+      // so the password never goes on chain. A quorum or pass threshold is set here too.
+      const commitmentArgs = {
         name: formData.name,
         description: formData.description,
-        password: formData.password,
-      });
-
-      // Execute transaction
-      const result = await new Promise<any>((resolve, reject) => {
-        signAndExecute(
-          { transaction: tx },
-          {
-            onSuccess: resolve,
-            onError: reject,
-          }
-        );
-      });
+        ...(await deriveCommitment(formData.password)),
+      };
+      const governance = formData.governance && !isDefaultGovernance(formData.governance)
+        ? formData.governance
+        : null;
+      const tx = governance
+        ? createForumWithCommitmentAndGovernanceTransaction(packageId, { ...commitmentArgs, governance })
+        : createForumWithCommitmentTransaction(packageId, commitmentArgs);
+      const result = await executeTransaction(tx, "Create forum");
 
       console.log('✅ Forum creation transaction successful:', result.digest);
 
-      // Wait for transaction confirmation
       const txResult = await suiClient.waitForTransaction({
         digest: result.digest,
-        options: { showEffects: true, showEvents: true },
+        options: { showEffects: true, showEvents: true, showObjectChanges: true },
       });
 
-      // Extract forum ID from created objects
-      const forumId = txResult.effects?.created?.[0]?.reference?.objectId;
-      if (!forumId) {
-        throw new Error("Failed to get forum ID from transaction");
+      const forumResult = parseCreateForumEffects(txResult, packageId);
+      if (!forumResult.success || !forumResult.forumId) {
+        throw new Error(forumResult.error || "Failed to get forum ID from transaction");
       }
-
-      console.log('🏛️ Forum created with ID:', forumId);
-
-      // Auto-create member registry
-      try {
-        console.log('📋 Creating member registry...');
-        const registryTx = createMemberRegistryTransaction(packageId, forumId);
-        
-        const registryResult = await new Promise<any>((resolve, reject) => {
-          signAndExecute(
-            { transaction: registryTx },
-            {
-              onSuccess: resolve,
-              onError: reject,
-            }
-          );
-        });
-
-        const registryTxResult = await suiClient.waitForTransaction({
-          digest: registryResult.digest,
-          options: { showEffects: true },
-        });
-
-        const registryId = registryTxResult.effects?.created?.[0]?.reference?.objectId;
-        if (registryId) {
-          console.log('✅ Member registry created with ID:', registryId);
-          // Save the registry ID for this forum
-          saveRegistryId(forumId, registryId);
-        }
-
-      } catch (registryError) {
-        console.warn('⚠️ Member registry creation failed:', registryError);
-        // Don't fail the whole operation if registry creation fails
+      if (!forumResult.registryId) {
+        throw new Error("Transaction did not create a MemberRegistry");
       }
 
-      return processTransactionResult(result);
+      console.log('🏛️ Forum created with ID:', forumResult.forumId, 'and registry:', forumResult.registryId);
+      saveRegistryId(forumResult.forumId, forumResult.registryId);
+
+      return forumResult;
 
     } catch (err: any) {
       console.error('❌ Forum creation failed:', err);
-      const errorMessage = err.message || "Failed to create forum";
-      setError(errorMessage);
-      throw new Error(errorMessage);
+      const translated = translateError(err, "Failed to create forum");
+      setError(translated);
+      throw translated;
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Create the member registry for a forum left pending by an interrupted creation
+  const finishForumSetup = async (forumId: string): Promise<CreateForumResult> => {
+    if (!currentAccount) {
+      throw new Error("Please connect your wallet first");
+    }
+
+    if (!packageId) {
+      throw new Error("Package ID not configured");
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // An earlier attempt may have landed without us seeing the result
+      const existingRegistryId = await resolveMemberRegistryId(suiClient, packageId, forumId);
+      if (existingRegistryId) {
+        console.log('✅ Forum already has a member registry:', existingRegistryId);
+        clearPendingForum(forumId);
+        return { success: true, objectId: forumId, forumId, registryId: existingRegistryId };
+      }
+
+      const registryResult = await createRegistryForForum(forumId);
+      return { ...registryResult, objectId: forumId, forumId };
+
+    } catch (err: any) {
+      console.error('❌ Finishing forum setup failed:', err);
+      const translated = translateError(err, "Failed to create member registry");
+      setError(translated);
+      throw translated;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Second step of the two-transaction creation flow
+  const createRegistryForForum = async (forumId: string): Promise<CreateMemberRegistryResult> => {
+    console.log('📋 Creating member registry...');
+    const registryTx = createMemberRegistryTransaction(packageId, forumId);
+    const registryResult = await executeTransaction(registryTx, "Create member registry");
+
+    const registryTxResult = await suiClient.waitForTransaction({
+      digest: registryResult.digest,
+      options: { showEffects: true, showObjectChanges: true },
+    });
+
+    const result = parseCreateMemberRegistryEffects(registryTxResult, packageId);
+    if (!result.success || !result.registryId) {
+      throw new Error(result.error || "Failed to get registry ID from transaction");
+    }
+
+    console.log('✅ Member registry created with ID:', result.registryId);
+    saveRegistryId(forumId, result.registryId);
+    clearPendingForum(forumId);
+    return result;
+  };
+
+  // Fresh commitment for a password, checked against the contract's rules before sending
+  const deriveCommitment = async (password: string) => {
+    const commitment = await createForumCommitment(password);
+    const commitmentError = validateForumCommitment(commitment);
+    if (commitmentError) {
+      throw new Error(commitmentError.message);
+    }
+    return commitment;
+  };
+
   // Get forum details by ID
-  const getForumDetails = async (forumId: string): Promise<Forum | null> => {
+  const getForumDetails = useCallback(async (forumId: string): Promise<Forum | null> => {
     if (!forumId) return null;
 
     setIsLoading(true);
@@ -152,6 +205,10 @@ export function useForum() {
       if (!forum) {
         throw new Error("Invalid forum data");
       }
+      if (packageId) {
+        forum.commitment = await getForumCommitment(suiClient, packageId, forumId);
+        forum.governance = await getForumGovernance(suiClient, packageId, forumId);
+      }
 
       console.log('✅ Forum details retrieved:', forum.name);
       return forum;
@@ -164,6 +221,51 @@ export function useForum() {
     } finally {
       setIsLoading(false);
     }
+  }, [suiClient, packageId]);
+
+  // Replace a forum's password hash with a commitment; the caller must be a member
+  const migrateToCommitment = async (forumId: string, password: string): Promise<ForumCommitment> => {
+    if (!currentAccount) {
+      throw new Error("Please connect your wallet first");
+    }
+
+    if (!packageId) {
+      throw new Error("Package ID not configured");
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔐 Migrating forum to a password commitment:', forumId);
+
+      const registryId = await resolveMemberRegistryId(suiClient, packageId, forumId);
+      if (!registryId) {
+        throw new Error("Member registry not found for this forum");
+      }
+
+      const commitment = await deriveCommitment(password);
+      const tx = createMigrateToCommitmentTransaction(packageId, {
+        forumId,
+        registryId,
+        password,
+        ...commitment,
+      });
+      const result = await executeTransaction(tx, "Migrate forum password");
+
+      await suiClient.waitForTransaction({ digest: result.digest });
+      console.log('✅ Forum migrated to a password commitment:', result.digest);
+
+      return { ...commitment, createdAt: Date.now() };
+
+    } catch (err: any) {
+      console.error('❌ Forum migration failed:', err);
+      const translated = translateError(err, "Failed to migrate forum password");
+      setError(translated);
+      throw translated;
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   // Get list of all forums
@@ -180,16 +282,7 @@ export function useForum() {
       
       const events = await getForumCreatedEvents(suiClient, packageId, limit);
       
-      const forumEvents: ForumCreatedEvent[] = events.map(event => {
-        const parsedData = event.parsedJson as any;
-        return {
-          forum_id: parsedData.forum_id,
-          name: parsedData.name,
-          description: parsedData.description,
-          creator: parsedData.creator,
-          timestamp: parsedData.timestamp,
-        };
-      });
+      const forumEvents = decodeEvents(events, decodeForumCreatedEvent);
 
       console.log(`✅ Found ${forumEvents.length} forums`);
       return forumEvents;
@@ -204,6 +297,63 @@ export function useForum() {
     }
   };
 
+  // Get live forum objects, optionally filtered
+  const getForums = async (
+    limit: number = 20,
+    filters?: ForumQueryFilters
+  ): Promise<Forum[]> => {
+    const page = await getForumsPage(null, limit, filters);
+    return page.data;
+  };
+
+  // Get one page of live forum objects; pass the previous page's nextCursor to load more
+  // Filters apply to the live objects, so a filtered page can hold fewer than `limit` forums
+  const getForumsPage = useCallback(async (
+    cursor: string | null,
+    limit: number = 20,
+    filters?: ForumQueryFilters
+  ): Promise<PaginatedResponse<Forum>> => {
+    if (!packageId) {
+      throw new Error("Package ID not configured");
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      console.log('📋 Fetching forums...');
+
+      const eventPage = await getForumCreatedEventsPage(suiClient, packageId, { cursor, limit });
+      if (!eventPage.success) {
+        throw new Error(eventPage.error || "Failed to load forum events");
+      }
+
+      const forumIds = decodeEvents(eventPage.data, decodeForumCreatedEvent).map(event => event.forum_id);
+      const objects = forumIds.length > 0 ? await getMultipleObjectsSafe(suiClient, forumIds) : [];
+      const forums = objects
+        .map(object => (object?.data ? processForum(object.data) : null))
+        .filter((forum): forum is Forum => forum !== null);
+
+      const filtered = filterForums(forums, filters);
+      console.log(`✅ Loaded ${filtered.length} of ${forums.length} forums`);
+      return { ...eventPage, data: filtered };
+
+    } catch (err: any) {
+      console.error('❌ Failed to get forums:', err);
+      const errorMessage = err.message || "Failed to load forums";
+      setError(errorMessage);
+      return {
+        data: [],
+        success: false,
+        error: errorMessage,
+        timestamp: Date.now(),
+        pagination: { total: 0, limit, offset: 0, hasMore: false, nextCursor: null },
+      };
+    } finally {
+      setIsLoading(false);
+    }
+  }, [suiClient, packageId]);
+
   // Get forums created by current user
   const getMyForums = async (): Promise<ForumCreatedEvent[]> => {
     if (!currentAccount) return [];
@@ -212,6 +362,19 @@ export function useForum() {
     return allForums.filter(forum => forum.creator === currentAccount.address);
   };
 
+  // Forums the current account still has to finish setting up
+  const getAccountPendingForums = useCallback(
+    () => (currentAccount ? getPendingForums(currentAccount.address) : []),
+    [currentAccount]
+  );
+
+  // Find a forum's MemberRegistry, from storage or on-chain
+  const getRegistryId = useCallback(
+    (forumId: string) =>
+      packageId ? resolveMemberRegistryId(suiClient, packageId, forumId) : Promise.resolve(null),
+    [suiClient, packageId]
+  );
+
   // Clear error state
   const clearError = () => {
     setError(null);
@@ -224,13 +387,18 @@ export function useForum() {
     
     // Actions
     createForum,
+    finishForumSetup,
+    migrateToCommitment,
     getForumDetails,
     getForumList,
+    getForums,
+    getForumsPage,
     getMyForums,
     clearError,
     
     // Registry access
-    getRegistryId: (forumId: string) => getRegistryId(forumId),
+    getPendingForums: getAccountPendingForums,
+    getRegistryId,
     
     // Utils
     packageId,
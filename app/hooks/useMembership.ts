@@ -1,43 +1,58 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { 
   useCurrentAccount, 
-  useSuiClient, 
-  useSignAndExecuteTransaction
+  useSuiClient
 } from "@mysten/dapp-kit";
+import { SuiObjectResponse } from "@mysten/sui/client";
 import { useNetworkVariable } from "../networkConfig";
+import { useTransactionExecutor } from "./useTransactionExecutor";
 import { 
   createJoinForumTransaction,
+  createJoinForumWithProofTransaction,
+  getForumCommitment,
   getObjectSafe,
+  getMultipleObjectsSafe,
   getMemberJoinedEvents,
-  processTransactionResult
+  getMemberJoinedEventsPage,
+  getOwnedObjectsPage,
+  iterateOwnedObjects
 } from "../utils/sui";
+import { parseJoinForumEffects, getStructType } from "../utils/effects";
+import { decodeEvents, decodeMemberJoinedEvent } from "../utils/decoders";
+import { translateError } from "../utils/errors";
+import { createJoinProof } from "../utils/crypto";
 import { validateJoinForumForm } from "../utils/validation";
-import { getRegistryId } from "../utils/storage";
+import { resolveMemberRegistryId, isForumMember } from "../utils/registry";
 import { cacheMembership, canAccessForumInternals } from "../utils/permissions";
 import { 
   type JoinForumFormData,
   type MemberRegistry,
   type Membership,
   type MemberJoinedEvent,
-  type TransactionResult,
+  type UserMembershipItem,
+  type Forum,
+  type PaginatedResponse,
+  type JoinForumResult,
   processMemberRegistry,
-  processMembership
+  processMembership,
+  processForum,
+  membershipToUserItem
 } from "../types";
 
 export function useMembership() {
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { executeTransaction } = useTransactionExecutor();
   const packageId = useNetworkVariable("shallotPackageId");
   
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
 
   // Join a forum
   const joinForum = async (
     forumId: string,
     formData: JoinForumFormData
-  ): Promise<TransactionResult> => {
+  ): Promise<JoinForumResult> => {
     if (!currentAccount) {
       throw new Error("Please connect your wallet first");
     }
@@ -46,12 +61,6 @@ export function useMembership() {
       throw new Error("Package ID not configured");
     }
 
-    // Get registry ID from storage
-    const registryId = getRegistryId(forumId);
-    if (!registryId) {
-      throw new Error("Registry ID not found for this forum. The forum may not have been properly created.");
-    }
-
     // Validate form data
     const validation = validateJoinForumForm(formData);
     if (!validation.isValid) {
@@ -63,56 +72,66 @@ export function useMembership() {
     setError(null);
 
     try {
+      // Find the forum's member registry on-chain (cached after the first lookup)
+      const registryId = await resolveMemberRegistryId(suiClient, packageId, forumId);
+      if (!registryId) {
+        throw new Error("Member registry not found for this forum. The forum may not have been properly created.");
+      }
+
       console.log('👥 Joining forum:', forumId, 'with registry:', registryId);
 
-      // Create join forum transaction
-      const tx = createJoinForumTransaction(packageId, {
-        forumId,
-        registryId,
-        password: formData.password,
-      });
+      // Commitment forums get a proof bound to our address instead of the password
+      const commitment = await getForumCommitment(suiClient, packageId, forumId);
+      const tx = commitment
+        ? createJoinForumWithProofTransaction(packageId, {
+            forumId,
+            registryId,
+            signature: await createJoinProof(formData.password, commitment, forumId, currentAccount.address),
+          })
+        : createJoinForumTransaction(packageId, {
+            forumId,
+            registryId,
+            password: formData.password,
+          });
 
       // Execute transaction
-      const result = await new Promise<any>((resolve, reject) => {
-        signAndExecute(
-          { transaction: tx },
-          {
-            onSuccess: resolve,
-            onError: reject,
-          }
-        );
-      });
+      const result = await executeTransaction(tx, "Join forum");
 
       console.log('✅ Join forum transaction successful:', result.digest);
 
       // Wait for transaction confirmation
       const txResult = await suiClient.waitForTransaction({
         digest: result.digest,
-        options: { showEffects: true, showEvents: true },
+        options: { showEffects: true, showEvents: true, showObjectChanges: true },
       });
 
-      // Extract membership ID from created objects
-      const membershipId = txResult.effects?.created?.[0]?.reference?.objectId;
-      if (membershipId) {
-        console.log('🎫 Membership NFT created with ID:', membershipId);
+      const joinResult = parseJoinForumEffects(txResult, packageId);
+      if (joinResult.success && joinResult.membershipId) {
+        console.log('🎫 Membership NFT created with ID:', joinResult.membershipId);
         // Cache membership for permissions
         cacheMembership(forumId, currentAccount.address);
       }
 
-      return processTransactionResult(result);
+      return joinResult;
 
     } catch (err: any) {
       console.error('❌ Join forum failed:', err);
-      const errorMessage = err.message || "Failed to join forum";
-      setError(errorMessage);
-      throw new Error(errorMessage);
+      const translated = translateError(err, "Failed to join forum");
+      setError(translated);
+      throw translated;
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Find the MemberRegistry ID for a forum
+  const getForumRegistryId = async (forumId: string): Promise<string | null> => {
+    if (!packageId || !forumId) return null;
+    return resolveMemberRegistryId(suiClient, packageId, forumId);
+  };
+
   // Get member registry details
-  const getMemberRegistry = async (registryId: string): Promise<MemberRegistry | null> => {
+  const getMemberRegistry = useCallback(async (registryId: string): Promise<MemberRegistry | null> => {
     if (!registryId) return null;
 
     setIsLoading(true);
@@ -142,7 +161,7 @@ export function useMembership() {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [suiClient]);
 
   // Get membership details by ID
   const getMembershipDetails = async (membershipId: string): Promise<Membership | null> => {
@@ -190,17 +209,7 @@ export function useMembership() {
       console.log('👥 Fetching members for forum:', forumId);
       
       const events = await getMemberJoinedEvents(suiClient, packageId, forumId, limit);
-      
-      const memberEvents: MemberJoinedEvent[] = events.map(event => {
-        const parsedData = event.parsedJson as any;
-        return {
-          forum_id: parsedData.forum_id,
-          member: parsedData.member,
-          membership_id: parsedData.membership_id,
-          total_members: parsedData.total_members,
-          timestamp: parsedData.timestamp,
-        };
-      });
+      const memberEvents = decodeEvents(events, decodeMemberJoinedEvent);
 
       console.log(`✅ Found ${memberEvents.length} members for forum`);
       return memberEvents;
@@ -215,40 +224,135 @@ export function useMembership() {
     }
   };
 
-  // Get current user's memberships
-  const getMyMemberships = async (limit: number = 50): Promise<MemberJoinedEvent[]> => {
+  // Get one page of member joined events for a forum; pass the previous page's nextCursor to load more
+  const getForumMembersPage = useCallback(async (
+    forumId: string,
+    cursor: string | null,
+    limit: number = 20
+  ): Promise<PaginatedResponse<MemberJoinedEvent>> => {
+    if (!packageId) {
+      throw new Error("Package ID not configured");
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      console.log('👥 Fetching member page for forum:', forumId);
+
+      const page = await getMemberJoinedEventsPage(suiClient, packageId, forumId, { cursor, limit });
+      if (!page.success) {
+        throw new Error(page.error || "Failed to load forum members");
+      }
+
+      return { ...page, data: decodeEvents(page.data, decodeMemberJoinedEvent) };
+
+    } catch (err: any) {
+      console.error('❌ Failed to get forum members:', err);
+      const errorMessage = err.message || "Failed to load forum members";
+      setError(errorMessage);
+      return {
+        data: [],
+        success: false,
+        error: errorMessage,
+        timestamp: Date.now(),
+        pagination: { total: 0, limit, offset: 0, hasMore: false, nextCursor: null },
+      };
+    } finally {
+      setIsLoading(false);
+    }
+  }, [suiClient, packageId]);
+
+  // Join Membership NFTs with their forums' live objects
+  const toUserMembershipItems = async (membershipObjects: SuiObjectResponse[]): Promise<UserMembershipItem[]> => {
+    const memberships = membershipObjects
+      .map(object => (object.data ? processMembership(object.data) : null))
+      .filter((membership): membership is Membership => membership !== null);
+
+    const forumIds = Array.from(new Set(memberships.map(membership => membership.forumId)));
+    const forumObjects = forumIds.length > 0 ? await getMultipleObjectsSafe(suiClient, forumIds) : [];
+    const forums = new Map<string, Forum>();
+    forumObjects.forEach(object => {
+      const forum = object?.data ? processForum(object.data) : null;
+      if (forum) {
+        forums.set(forum.id, forum);
+      }
+    });
+
+    return memberships.map(membership => membershipToUserItem(membership, forums.get(membership.forumId) || null));
+  };
+
+  // Get one page of the current user's Membership NFTs; pass the previous page's nextCursor to load more
+  const getMyMembershipsPage = async (
+    cursor: string | null,
+    limit: number = 50
+  ): Promise<PaginatedResponse<UserMembershipItem>> => {
+    const emptyPage = (error?: string): PaginatedResponse<UserMembershipItem> => ({
+      data: [],
+      success: !error,
+      error,
+      timestamp: Date.now(),
+      pagination: { total: 0, limit, offset: 0, hasMore: false, nextCursor: null },
+    });
+
+    if (!currentAccount || !packageId) return emptyPage();
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      console.log('🎫 Fetching membership NFTs...');
+
+      const page = await getOwnedObjectsPage(
+        suiClient,
+        currentAccount.address,
+        getStructType(packageId, "Membership"),
+        { cursor, limit }
+      );
+      if (!page.success) {
+        throw new Error(page.error || "Failed to load memberships");
+      }
+
+      const items = await toUserMembershipItems(page.data);
+      items.forEach(item => cacheMembership(item.forumId, currentAccount.address));
+
+      console.log(`✅ Found ${items.length} memberships on this page`);
+      return { ...page, data: items };
+
+    } catch (err: any) {
+      console.error('❌ Failed to get user memberships:', err);
+      const errorMessage = err.message || "Failed to load user memberships";
+      setError(errorMessage);
+      return emptyPage(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Get all of the current user's Membership NFTs, newest first
+  const getMyMemberships = async (): Promise<UserMembershipItem[]> => {
     if (!currentAccount || !packageId) return [];
 
     setIsLoading(true);
     setError(null);
 
     try {
-      console.log('🎫 Fetching user memberships...');
-      
-      // Get all member joined events
-      const events = await getMemberJoinedEvents(suiClient, packageId, undefined, limit);
-      
-      // Filter events for current user
-      const userMemberships = events
-        .map(event => {
-          const parsedData = event.parsedJson as any;
-          return {
-            forum_id: parsedData.forum_id,
-            member: parsedData.member,
-            membership_id: parsedData.membership_id,
-            total_members: parsedData.total_members,
-            timestamp: parsedData.timestamp,
-          };
-        })
-        .filter(event => event.member === currentAccount.address);
-
-      // Cache memberships for permissions
-      userMemberships.forEach(membership => {
-        cacheMembership(membership.forum_id, currentAccount.address);
-      });
+      console.log('🎫 Fetching all membership NFTs...');
+
+      const membershipObjects: SuiObjectResponse[] = [];
+      for await (const object of iterateOwnedObjects(
+        suiClient,
+        currentAccount.address,
+        getStructType(packageId, "Membership")
+      )) {
+        membershipObjects.push(object);
+      }
 
-      console.log(`✅ Found ${userMemberships.length} memberships for current user`);
-      return userMemberships;
+      const items = await toUserMembershipItems(membershipObjects);
+      items.forEach(item => cacheMembership(item.forumId, currentAccount.address));
+
+      console.log(`✅ Found ${items.length} memberships for current user`);
+      return items.sort((a, b) => b.joinedAt - a.joinedAt);
 
     } catch (err: any) {
       console.error('❌ Failed to get user memberships:', err);
@@ -260,18 +364,24 @@ export function useMembership() {
     }
   };
 
-  // Check if current user is member of a specific forum
-  const checkMembership = async (forumId: string): Promise<boolean> => {
-    if (!currentAccount) return false;
+  // Check if current user is member of a specific forum (reads the registry's members table)
+  // Throws when membership cannot be determined, rather than reporting a non-member
+  const checkMembership = useCallback(async (forumId: string): Promise<boolean> => {
+    if (!currentAccount || !packageId) return false;
 
     try {
-      const members = await getForumMembers(forumId);
-      return members.some(member => member.member === currentAccount.address);
-    } catch (err) {
-      console.error('Failed to check membership:', err);
-      return false;
+      const isMember = await isForumMember(suiClient, packageId, forumId, currentAccount.address);
+      if (isMember) {
+        cacheMembership(forumId, currentAccount.address);
+      }
+      return isMember;
+    } catch (err: any) {
+      console.error('❌ Failed to check membership:', err);
+      const translated = translateError(err, "Failed to check membership");
+      setError(translated);
+      throw translated;
     }
-  };
+  }, [currentAccount, suiClient, packageId]);
 
   // Clear error state
   const clearError = () => {
@@ -285,10 +395,13 @@ export function useMembership() {
     
     // Actions
     joinForum,
+    getForumRegistryId,
     getMemberRegistry,
     getMembershipDetails,
     getForumMembers,
+    getForumMembersPage,
     getMyMemberships,
+    getMyMembershipsPage,
     checkMembership,
     clearError,
     
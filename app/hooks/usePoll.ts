@@ -0,0 +1,726 @@
+import { useCallback, useState } from "react";
+import {
+  useCurrentAccount,
+  useSuiClient,
+  useSuiClientContext
+} from "@mysten/dapp-kit";
+import { useNetworkVariable } from "../networkConfig";
+import { useTransactionExecutor } from "./useTransactionExecutor";
+import {
+  createPollTransaction,
+  createSecretPollTransaction,
+  createVoteRegistryTransaction,
+  createVoteTransaction,
+  createCommitVoteTransaction,
+  createRevealVoteTransaction,
+  createExecutePollTransaction,
+  getObjectSafe,
+  getPollCreatedEvents,
+  getPollRevealEndTime,
+  getForumGovernance,
+  getVoteCommitment,
+  tableContainsAddress,
+  processTransactionResult
+} from "../utils/sui";
+import { validateCreatePollForm } from "../utils/validation";
+import {
+  savePollId,
+  saveVoteRegistryId,
+  savePendingPoll,
+  clearPendingPoll,
+  getPendingPolls as getStoredPendingPolls,
+  saveVoteSecret,
+  confirmVoteSecret,
+  getVoteSecret,
+  clearVoteSecret,
+  getPendingReveals as getStoredPendingReveals,
+  type PendingPollCreation,
+  type VoteSecret
+} from "../utils/storage";
+import { generateSalt, computeVoteCommitment } from "../utils/crypto";
+import {
+  parseCreatePollEffects,
+  parseCreateVoteRegistryEffects,
+  parseVoteEffects,
+  parseCommitVoteEffects
+} from "../utils/effects";
+import { decodeEvents, decodePollCreatedEvent } from "../utils/decoders";
+import { translateError } from "../utils/errors";
+import { loadBallotPrivacyReport, type BallotPrivacyReport } from "../utils/privacy";
+import {
+  loadBallotReceipt,
+  verifyBallotReceipt,
+  type BallotReceipt,
+  type ReceiptVerification
+} from "../utils/receipt";
+import { loadTallyAudit, type TallyAudit } from "../utils/tallyAudit";
+import {
+  resolveMemberRegistryId,
+  resolveVoteRegistryId,
+  isForumMember,
+  RegistryScanLimitError
+} from "../utils/registry";
+import {
+  type CreatePollFormData,
+  type Poll,
+  type PollCreatedEvent,
+  type UserVoteStatus,
+  type TransactionResult,
+  type CreatePollResult,
+  type CreateVoteRegistryResult,
+  type VoteResult,
+  processPoll,
+  processVoteRegistry,
+  isPollActive,
+  isSecretBallot,
+  isRevealPhase,
+  VOTE_SALT_BYTES
+} from "../types";
+
+export function usePoll() {
+  const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
+  const { executeTransaction } = useTransactionExecutor();
+  const packageId = useNetworkVariable("shallotPackageId");
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | Error | null>(null);
+
+  // Create a new poll (and its vote registry) for a forum
+  const createPoll = async (
+    forumId: string,
+    formData: CreatePollFormData
+  ): Promise<CreatePollResult> => {
+    if (!currentAccount) {
+      throw new Error("Please connect your wallet first");
+    }
+
+    if (!packageId) {
+      throw new Error("Package ID not configured");
+    }
+
+    // Validate form data
+    const validation = validateCreatePollForm(formData);
+    if (!validation.isValid) {
+      const errorMessages = Object.values(validation.errors).join(", ");
+      throw new Error(`Validation failed: ${errorMessages}`);
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const registryId = await resolveMemberRegistryId(suiClient, packageId, forumId);
+      if (!registryId) {
+        throw new Error("Member registry not found for this forum. The forum may not have been properly created.");
+      }
+
+      console.log('🗳️ Creating poll for forum:', forumId);
+
+      // Create poll transaction (durations are entered in hours)
+      const pollArgs = {
+        forumId,
+        registryId,
+        title: formData.title,
+        description: formData.description,
+        newName: formData.proposedName,
+        newDescription: formData.proposedDescription,
+        durationMs: Math.round(formData.duration * 60 * 60 * 1000),
+      };
+      const tx = formData.secretBallot
+        ? createSecretPollTransaction(packageId, {
+            ...pollArgs,
+            revealDurationMs: Math.round((formData.revealDuration || 0) * 60 * 60 * 1000),
+          })
+        : createPollTransaction(packageId, pollArgs);
+
+      // Execute transaction
+      const result = await executeTransaction(tx, "Create poll");
+
+      console.log('✅ Poll creation transaction successful:', result.digest);
+
+      // Wait for transaction confirmation
+      const txResult = await suiClient.waitForTransaction({
+        digest: result.digest,
+        options: { showEffects: true, showEvents: true, showObjectChanges: true },
+      });
+
+      const pollResult = parseCreatePollEffects(txResult, packageId);
+      const pollId = pollResult.pollId;
+      if (!pollResult.success || !pollId) {
+        throw new Error(pollResult.error || "Failed to get poll ID from transaction");
+      }
+
+      console.log('🗳️ Poll created with ID:', pollId);
+      savePollId(forumId, pollId);
+
+      // The poll is remembered as pending until its vote registry exists, so an
+      // interrupted creation can be finished later
+      savePendingPoll(pollId, forumId, formData.title, currentAccount.address);
+
+      try {
+        const registryResult = await createRegistryForPoll(forumId, pollId);
+        return { ...pollResult, voteRegistryId: registryResult.voteRegistryId };
+      } catch (registryError: any) {
+        throw new Error(
+          `Poll was created but its vote registry was not (${registryError.message || "transaction failed"}). ` +
+          `Finish the setup so members can vote.`
+        );
+      }
+
+    } catch (err: any) {
+      console.error('❌ Poll creation failed:', err);
+      const translated = translateError(err, "Failed to create poll");
+      setError(translated);
+      throw translated;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Create the vote registry for a poll that has none, e.g. one left pending by an interrupted creation
+  const finishPollSetup = async (pollId: string): Promise<CreatePollResult> => {
+    if (!currentAccount) {
+      throw new Error("Please connect your wallet first");
+    }
+
+    if (!packageId) {
+      throw new Error("Package ID not configured");
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const objectResponse = await getObjectSafe(suiClient, pollId);
+      const poll = objectResponse?.data ? processPoll(objectResponse.data) : null;
+      if (!poll) {
+        throw new Error("Poll not found");
+      }
+
+      // An earlier attempt may have landed without us seeing the result
+      const existingRegistryId = await resolveVoteRegistryId(suiClient, packageId, poll);
+      if (existingRegistryId) {
+        console.log('✅ Poll already has a vote registry:', existingRegistryId);
+        clearPendingPoll(pollId);
+        return { success: true, objectId: pollId, pollId, voteRegistryId: existingRegistryId };
+      }
+
+      const registryResult = await createRegistryForPoll(poll.forumId, pollId);
+      return { ...registryResult, objectId: pollId, pollId };
+
+    } catch (err: any) {
+      console.error('❌ Finishing poll setup failed:', err);
+      const translated = translateError(err, "Failed to create vote registry");
+      setError(translated);
+      throw translated;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Second step of poll creation: the VoteRegistry that records who has voted
+  const createRegistryForPoll = async (forumId: string, pollId: string): Promise<CreateVoteRegistryResult> => {
+    console.log('📋 Creating vote registry...');
+    const registryTx = createVoteRegistryTransaction(packageId, pollId);
+    const registryResult = await executeTransaction(registryTx, "Create vote registry");
+
+    const registryTxResult = await suiClient.waitForTransaction({
+      digest: registryResult.digest,
+      options: { showEffects: true, showObjectChanges: true },
+    });
+
+    const result = parseCreateVoteRegistryEffects(registryTxResult, packageId);
+    if (!result.success || !result.voteRegistryId) {
+      throw new Error(result.error || "Failed to get vote registry ID from transaction");
+    }
+
+    console.log('✅ Vote registry created with ID:', result.voteRegistryId);
+    savePollId(forumId, pollId);
+    saveVoteRegistryId(forumId, result.voteRegistryId);
+    clearPendingPoll(pollId);
+    return result;
+  };
+
+  // After a failed commit, keep the salt only if its commitment landed anyway
+  const settleVoteSecret = async (pollId: string, voteRegistryId: string, voter: string) => {
+    try {
+      if (await getVoteCommitment(suiClient, packageId, voteRegistryId, voter)) {
+        confirmVoteSecret(pollId, voter);
+      } else {
+        clearVoteSecret(pollId, voter);
+      }
+    } catch (err) {
+      // Unknown whether it landed: keep the pending secret so a retry reuses it
+      console.error('Failed to check vote commitment:', err);
+    }
+  };
+
+  // Cast a yes/no vote on a poll
+  const vote = async (poll: Poll, choice: boolean): Promise<VoteResult> => {
+    if (!currentAccount) {
+      throw new Error("Please connect your wallet first");
+    }
+
+    if (!packageId) {
+      throw new Error("Package ID not configured");
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    // Set once a secret ballot's salt is stored for this attempt
+    let committingTo: string | null = null;
+
+    try {
+      const [memberRegistryId, voteRegistryId] = await Promise.all([
+        resolveMemberRegistryId(suiClient, packageId, poll.forumId),
+        resolveVoteRegistryId(suiClient, packageId, poll),
+      ]);
+      if (!memberRegistryId) {
+        throw new Error("Member registry not found for this forum.");
+      }
+      if (!voteRegistryId) {
+        throw new Error("Vote registry not found for this poll.");
+      }
+
+      console.log('🗳️ Voting on poll:', poll.id, 'choice:', choice ? 'yes' : 'no');
+
+      let tx;
+      if (isSecretBallot(poll)) {
+        // Only the commitment goes on chain now; the salt is needed again to reveal.
+        // A secret left by an earlier attempt is reused, so a retry sends the same commitment.
+        const newSecret = {
+          pollId: poll.id,
+          voter: currentAccount.address,
+          choice,
+          salt: generateSalt(VOTE_SALT_BYTES),
+          revealEndTime: poll.revealEndTime!,
+        };
+        let secret = saveVoteSecret(newSecret);
+        if (secret.choice !== choice) {
+          // Left by an attempt that never finished; it can only be replaced if nothing landed
+          if (await getVoteCommitment(suiClient, packageId, voteRegistryId, currentAccount.address)) {
+            throw new Error(`You already committed a ${secret.choice ? "Yes" : "No"} vote on this poll.`);
+          }
+          clearVoteSecret(poll.id, currentAccount.address);
+          secret = saveVoteSecret(newSecret);
+        }
+        committingTo = voteRegistryId;
+
+        const commitment = await computeVoteCommitment(poll.id, currentAccount.address, choice, secret.salt);
+        tx = createCommitVoteTransaction(packageId, {
+          pollId: poll.id,
+          voteRegistryId,
+          memberRegistryId,
+          commitment,
+        });
+      } else {
+        tx = createVoteTransaction(packageId, {
+          pollId: poll.id,
+          voteRegistryId,
+          memberRegistryId,
+          choice,
+        });
+      }
+
+      const result = await executeTransaction(tx, isSecretBallot(poll) ? "Commit vote" : "Cast vote");
+
+      console.log('✅ Vote transaction successful:', result.digest);
+
+      const txResult = await suiClient.waitForTransaction({
+        digest: result.digest,
+        options: { showEffects: true, showEvents: true, showObjectChanges: true },
+      });
+
+      if (!isSecretBallot(poll)) {
+        return parseVoteEffects(txResult, packageId);
+      }
+
+      const commitResult = parseCommitVoteEffects(txResult);
+      if (commitResult.success) {
+        confirmVoteSecret(poll.id, currentAccount.address);
+      } else {
+        await settleVoteSecret(poll.id, committingTo!, currentAccount.address);
+      }
+      return commitResult;
+
+    } catch (err: any) {
+      console.error('❌ Vote failed:', err);
+      if (committingTo) {
+        await settleVoteSecret(poll.id, committingTo, currentAccount.address);
+      }
+      const translated = translateError(err, "Failed to cast vote");
+      setError(translated);
+      throw translated;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reveal a secret ballot commitment using the choice and salt stored at commit time
+  const revealVote = async (poll: Poll): Promise<VoteResult> => {
+    if (!currentAccount) {
+      throw new Error("Please connect your wallet first");
+    }
+
+    if (!packageId) {
+      throw new Error("Package ID not configured");
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const secret = getVoteSecret(poll.id, currentAccount.address);
+      if (!secret) {
+        throw new Error("No stored vote found for this poll in this browser. Import the backup made on the device you voted from.");
+      }
+
+      const voteRegistryId = await resolveVoteRegistryId(suiClient, packageId, poll);
+      if (!voteRegistryId) {
+        throw new Error("Vote registry not found for this poll.");
+      }
+
+      console.log('🗳️ Revealing vote on poll:', poll.id);
+
+      const tx = createRevealVoteTransaction(packageId, {
+        pollId: poll.id,
+        voteRegistryId,
+        choice: secret.choice,
+        salt: secret.salt,
+      });
+
+      const result = await executeTransaction(tx, "Reveal vote");
+
+      console.log('✅ Reveal transaction successful:', result.digest);
+
+      const txResult = await suiClient.waitForTransaction({
+        digest: result.digest,
+        options: { showEffects: true, showEvents: true, showObjectChanges: true },
+      });
+
+      clearVoteSecret(poll.id, currentAccount.address);
+      return parseVoteEffects(txResult, packageId);
+
+    } catch (err: any) {
+      console.error('❌ Reveal failed:', err);
+      const translated = translateError(err, "Failed to reveal vote");
+      setError(translated);
+      throw translated;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Execute a poll that has ended (applies the proposal if it passed)
+  const executePoll = async (poll: Poll): Promise<TransactionResult> => {
+    if (!currentAccount) {
+      throw new Error("Please connect your wallet first");
+    }
+
+    if (!packageId) {
+      throw new Error("Package ID not configured");
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      console.log('⚙️ Executing poll:', poll.id);
+
+      const tx = createExecutePollTransaction(packageId, {
+        forumId: poll.forumId,
+        pollId: poll.id,
+      });
+
+      const result = await executeTransaction(tx, "Execute poll");
+
+      console.log('✅ Poll execution transaction successful:', result.digest);
+
+      await suiClient.waitForTransaction({
+        digest: result.digest,
+        options: { showEffects: true, showEvents: true },
+      });
+
+      return processTransactionResult(result);
+
+    } catch (err: any) {
+      console.error('❌ Poll execution failed:', err);
+      const translated = translateError(err, "Failed to execute poll");
+      setError(translated);
+      throw translated;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Get poll details by ID
+  const getPollDetails = useCallback(async (pollId: string): Promise<Poll | null> => {
+    if (!pollId) return null;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔍 Fetching poll details:', pollId);
+
+      const objectResponse = await getObjectSafe(suiClient, pollId);
+      if (!objectResponse?.data) {
+        throw new Error("Poll not found");
+      }
+
+      const poll = processPoll(objectResponse.data);
+      if (!poll) {
+        throw new Error("Invalid poll data");
+      }
+      poll.revealEndTime = packageId ? await getPollRevealEndTime(suiClient, packageId, poll.id) : null;
+      poll.governance = packageId ? await getForumGovernance(suiClient, packageId, poll.forumId) : null;
+
+      console.log('✅ Poll details retrieved:', poll.title);
+      return poll;
+
+    } catch (err: any) {
+      console.error('❌ Failed to get poll details:', err);
+      const errorMessage = err.message || "Failed to load poll";
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [suiClient, packageId]);
+
+  // Get poll created events for a forum
+  const getForumPolls = async (forumId: string, limit: number = 20): Promise<PollCreatedEvent[]> => {
+    if (!packageId) {
+      throw new Error("Package ID not configured");
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      console.log('🗳️ Fetching polls for forum:', forumId);
+
+      const events = await getPollCreatedEvents(suiClient, packageId, forumId, limit);
+
+      const pollEvents = decodeEvents(events, decodePollCreatedEvent);
+
+      console.log(`✅ Found ${pollEvents.length} polls for forum`);
+      return pollEvents;
+
+    } catch (err: any) {
+      console.error('❌ Failed to get forum polls:', err);
+      const errorMessage = err.message || "Failed to load forum polls";
+      setError(errorMessage);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reveal status of a secret ballot voter who has committed
+  const getRevealStatus = useCallback(async (
+    poll: Poll,
+    voteRegistryId: string,
+    voter: string
+  ): Promise<UserVoteStatus> => {
+    const commitment = await getVoteCommitment(suiClient, packageId, voteRegistryId, voter);
+    if (commitment?.revealed) {
+      return { hasVoted: true, canVote: false, hasRevealed: true, reason: "Your vote has been revealed and counted" };
+    }
+
+    const now = Date.now();
+    if (isPollActive(poll, now)) {
+      return { hasVoted: true, canVote: false, reason: "Your vote is committed. Reveal it after voting closes." };
+    }
+    if (!isRevealPhase(poll, now)) {
+      return { hasVoted: true, canVote: false, reason: "The reveal window has closed; your vote was not counted" };
+    }
+
+    const secret = getVoteSecret(poll.id, voter);
+    if (!secret) {
+      return {
+        hasVoted: true,
+        canVote: false,
+        reason: "Your vote's salt is not stored in this browser. Import the backup from the device you voted on.",
+      };
+    }
+
+    return { hasVoted: true, canVote: false, canReveal: true, voteChoice: secret.choice };
+  }, [suiClient, packageId]);
+
+  // Get the current user's voting status for a poll
+  const getUserVoteStatus = useCallback(async (poll: Poll): Promise<UserVoteStatus> => {
+    if (!currentAccount) {
+      return { hasVoted: false, canVote: false, reason: "Connect your wallet to vote" };
+    }
+
+    if (!packageId) {
+      return { hasVoted: false, canVote: false, reason: "Package ID not configured" };
+    }
+
+    try {
+      // Has the user already voted? (VoteRegistry.voted_addresses table)
+      let hasVoted = false;
+      const voteRegistryId = await resolveVoteRegistryId(suiClient, packageId, poll);
+      if (voteRegistryId) {
+        const registryResponse = await getObjectSafe(suiClient, voteRegistryId);
+        const voteRegistry = registryResponse?.data ? processVoteRegistry(registryResponse.data) : null;
+        if (voteRegistry) {
+          hasVoted = await tableContainsAddress(
+            suiClient,
+            voteRegistry.votedAddressesId,
+            currentAccount.address
+          );
+        }
+      }
+
+      if (hasVoted && isSecretBallot(poll)) {
+        return getRevealStatus(poll, voteRegistryId!, currentAccount.address);
+      }
+
+      if (hasVoted) {
+        return { hasVoted: true, canVote: false, reason: "You have already voted in this poll" };
+      }
+
+      if (!isPollActive(poll, Date.now())) {
+        return { hasVoted: false, canVote: false, reason: "Voting has closed for this poll" };
+      }
+
+      if (!voteRegistryId) {
+        return {
+          hasVoted: false,
+          canVote: false,
+          needsVoteRegistry: true,
+          reason: "This poll has no vote registry yet, so nobody can vote. Create it to open voting.",
+        };
+      }
+
+      // Is the user a member of the forum? (same registry table lookup as checkMembership)
+      const isMember = await isForumMember(suiClient, packageId, poll.forumId, currentAccount.address);
+      if (!isMember) {
+        return { hasVoted: false, canVote: false, reason: "Only forum members can vote" };
+      }
+
+      return { hasVoted: false, canVote: true };
+
+    } catch (err) {
+      console.error('Failed to get vote status:', err);
+      const reason = err instanceof RegistryScanLimitError ? err.message : "Failed to load vote status";
+      return { hasVoted: false, canVote: false, reason };
+    }
+  }, [currentAccount, suiClient, packageId, getRevealStatus]);
+
+  // Polls the current account still has to finish setting up
+  const getPendingPolls = useCallback(
+    (): PendingPollCreation[] => (currentAccount ? getStoredPendingPolls(currentAccount.address) : []),
+    [currentAccount]
+  );
+
+  // Secret ballot commitments the current account still has to reveal
+  const getPendingReveals = useCallback((): VoteSecret[] => {
+    if (!currentAccount) return [];
+    return getStoredPendingReveals(currentAccount.address);
+  }, [currentAccount]);
+
+  // How many of a poll's ballots can be linked back to member addresses
+  const getBallotPrivacy = useCallback(async (poll: Poll): Promise<BallotPrivacyReport | null> => {
+    if (!packageId) return null;
+
+    try {
+      const report = await loadBallotPrivacyReport(suiClient, packageId, poll);
+      console.log(`🔎 ${report.linkedBallots} of ${report.totalBallots} ballots linkable for poll ${poll.id}`);
+      return report;
+    } catch (err) {
+      console.error('Failed to analyze ballot privacy:', err);
+      return null;
+    }
+  }, [suiClient, packageId]);
+
+  // Recount a poll from its ballots and cross-check its counters and events
+  const getTallyAudit = useCallback(async (poll: Poll): Promise<TallyAudit | null> => {
+    if (!packageId) return null;
+
+    try {
+      const audit = await loadTallyAudit(suiClient, packageId, poll.id);
+      if (audit.consistent) {
+        console.log(`✅ Tally of poll ${poll.id} matches its ${audit.ballots} ballots`);
+      } else {
+        console.warn(`⚠️ Tally of poll ${poll.id} has ${audit.issues.length} issue(s):`, audit.issues);
+      }
+      return audit;
+    } catch (err) {
+      console.error('Failed to audit poll tally:', err);
+      return null;
+    }
+  }, [suiClient, packageId]);
+
+  // Receipt for the current account's counted ballot, or null if it has none
+  const getBallotReceipt = useCallback(async (poll: Poll): Promise<BallotReceipt | null> => {
+    if (!currentAccount || !packageId) return null;
+
+    try {
+      const receipt = await loadBallotReceipt(suiClient, packageId, network, poll.id, currentAccount.address);
+      console.log('🎫 Ballot receipt loaded:', receipt.ballotId);
+      return receipt;
+    } catch (err) {
+      console.error('Failed to load ballot receipt:', err);
+      return null;
+    }
+  }, [currentAccount, suiClient, packageId, network]);
+
+  // Re-check a receipt against the chain, and against the connected address if there is one
+  const verifyReceipt = async (receipt: BallotReceipt): Promise<ReceiptVerification> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      console.log('🔎 Verifying ballot receipt:', receipt.ballotId);
+      const verification = await verifyBallotReceipt(suiClient, receipt, currentAccount?.address);
+      console.log(verification.valid ? '✅ Receipt verified' : '⚠️ Receipt did not verify');
+      return verification;
+    } catch (err: any) {
+      console.error('❌ Receipt verification failed:', err);
+      const translated = translateError(err, "Failed to verify receipt");
+      setError(translated);
+      throw translated;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Clear error state
+  const clearError = () => {
+    setError(null);
+  };
+
+  return {
+    // State
+    isLoading,
+    error,
+
+    // Actions
+    createPoll,
+    finishPollSetup,
+    vote,
+    revealVote,
+    executePoll,
+    getPollDetails,
+    getForumPolls,
+    getUserVoteStatus,
+    getBallotPrivacy,
+    getPendingPolls,
+    getPendingReveals,
+    getBallotReceipt,
+    verifyReceipt,
+    getTallyAudit,
+    clearError,
+
+    // Utils
+    packageId,
+    network,
+    currentAccount,
+  };
+}
@@ -0,0 +1,52 @@
+import {
+  useCurrentAccount,
+  useSuiClient,
+  useSignAndExecuteTransaction
+} from "@mysten/dapp-kit";
+import { Transaction } from "@mysten/sui/transactions";
+import { simulateTransaction } from "../utils/simulation";
+import { ShallotError } from "../utils/errors";
+import { useTransactionConfirm } from "../components/common/TransactionConfirmDialog";
+
+// Dry-run, confirm and sign transactions; shared by the forum, membership and poll hooks
+export function useTransactionExecutor() {
+  const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const confirmTransaction = useTransactionConfirm();
+
+  // Simulate, show the outcome and only prompt the wallet once the user confirms
+  const executeTransaction = async (tx: Transaction, action: string): Promise<any> => {
+    if (!currentAccount) {
+      throw new Error("Please connect your wallet first");
+    }
+
+    console.log('🔎 Simulating transaction:', action);
+    const simulation = await simulateTransaction(suiClient, tx, currentAccount.address);
+    if (!simulation.success) {
+      console.error('❌ Simulation failed:', simulation.error);
+    }
+
+    const confirmed = await confirmTransaction(action, simulation);
+    if (!simulation.success) {
+      throw simulation.error || new Error("Transaction simulation failed");
+    }
+    if (!confirmed) {
+      throw new ShallotError("Transaction cancelled", "Nothing was sent to your wallet.");
+    }
+
+    return new Promise<any>((resolve, reject) => {
+      signAndExecute(
+        { transaction: tx },
+        {
+          onSuccess: resolve,
+          onError: reject,
+        }
+      );
+    });
+  };
+
+  return {
+    executeTransaction,
+  };
+}
@@ -0,0 +1,179 @@
+// Shared helpers for the indexer-backed route handlers in app/api
+
+import { NextResponse } from "next/server";
+import { IndexerStore } from "./store";
+import { PollStatus } from "../types";
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  PaginationParams,
+  IndexedForum,
+  IndexedPoll,
+  MemberInfo
+} from "../types";
+import type { ForumRow, MemberRow, PollRow } from "./types";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Query string the client got wrong; answered with 400 instead of 500
+export class InvalidQueryError extends Error {}
+
+// ===== Store =====
+
+let store: IndexerStore | null = null;
+
+/**
+ * Store written by the indexer process (`indexer/cli.ts --db`)
+ */
+export function getIndexerStore(): IndexerStore {
+  if (!store) {
+    store = new IndexerStore(process.env.SHALLOT_INDEXER_DB || "shallot-indexer.db");
+  }
+  return store;
+}
+
+// ===== Query Parsing =====
+
+/**
+ * Optional non-negative integer query parameter
+ */
+export function getIntegerParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidQueryError(`${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Optional boolean query parameter ("true" / "false")
+ */
+export function getBooleanParam(params: URLSearchParams, name: string): boolean | undefined {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+  if (value !== "true" && value !== "false") {
+    throw new InvalidQueryError(`${name} must be true or false`);
+  }
+  return value === "true";
+}
+
+/**
+ * Optional query parameter restricted to a set of values
+ */
+export function getEnumParam<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  allowed: readonly T[]
+): T | undefined {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new InvalidQueryError(`${name} must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+export function getPaginationParams(params: URLSearchParams): PaginationParams {
+  return {
+    limit: Math.min(getIntegerParam(params, "limit") ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+    offset: getIntegerParam(params, "offset") ?? 0,
+  };
+}
+
+// ===== Row Conversion =====
+
+export function toIndexedForum(row: ForumRow): IndexedForum {
+  return {
+    id: row.forum_id,
+    name: row.name,
+    description: row.description,
+    creator: row.creator,
+    memberCount: row.member_count,
+    hasActivePoll: row.active_poll_id !== null,
+    activePoll: row.active_poll_id,
+    createdAt: row.created_at,
+    metadataUpdatedAt: row.metadata_updated_at,
+  };
+}
+
+export function toMemberInfo(row: MemberRow): MemberInfo {
+  return {
+    address: row.member,
+    joinedAt: row.joined_at,
+    membershipId: row.membership_id,
+  };
+}
+
+export function toIndexedPoll(row: PollRow, currentTime: number = Date.now()): IndexedPoll {
+  let status: PollStatus;
+  if (row.status === "executed") {
+    status = PollStatus.EXECUTED;
+  } else if (row.status === "failed") {
+    status = PollStatus.FAILED;
+  } else {
+    status = currentTime < row.end_time ? PollStatus.ACTIVE : PollStatus.ENDED;
+  }
+
+  return {
+    id: row.poll_id,
+    forumId: row.forum_id,
+    title: row.title,
+    description: row.description,
+    creator: row.creator,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    createdAt: row.created_at,
+    status,
+    voteCount: row.vote_count,
+    yesVotes: row.yes_votes,
+    noVotes: row.no_votes,
+    passed: row.passed === null ? null : row.passed === 1,
+    finishedAt: row.finished_at,
+    failureReason: row.failure_reason,
+  };
+}
+
+// ===== Responses =====
+
+export function apiResponse<T>(data: T): NextResponse<ApiResponse<T>> {
+  return NextResponse.json({ data, success: true, timestamp: Date.now() });
+}
+
+export function paginatedResponse<T>(
+  data: T[],
+  total: number,
+  { limit, offset }: PaginationParams
+): NextResponse<PaginatedResponse<T>> {
+  return NextResponse.json({
+    data,
+    success: true,
+    timestamp: Date.now(),
+    pagination: { total, limit, offset, hasMore: offset + data.length < total },
+  });
+}
+
+export function errorResponse(status: number, error: string): NextResponse<ApiResponse<null>> {
+  return NextResponse.json({ data: null, success: false, error, timestamp: Date.now() }, { status });
+}
+
+/**
+ * Run a route handler body, mapping thrown errors to error envelopes
+ * Handlers may return either their success envelope or an error envelope
+ */
+export function handleApiRequest<R extends NextResponse<unknown>>(
+  handler: () => R
+): R | NextResponse<ApiResponse<null>> {
+  try {
+    return handler();
+  } catch (error: any) {
+    if (error instanceof InvalidQueryError) {
+      return errorResponse(400, error.message);
+    }
+    console.error("Indexer API request failed:", error);
+    return errorResponse(500, error?.message || "Failed to read indexed data");
+  }
+}
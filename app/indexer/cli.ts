@@ -0,0 +1,106 @@
+// Command line entry point for the Shallot indexer
+//
+//   tsx indexer/cli.ts --fixture indexer/fixtures/events.json --once
+//   tsx indexer/cli.ts --network testnet --port 4000
+//   tsx indexer/cli.ts --rpc http://127.0.0.1:9000 --package 0x... --port 4000
+
+import { parseArgs } from "node:util";
+import {
+  DEVNET_SHALLOT_PACKAGE_ID,
+  TESTNET_SHALLOT_PACKAGE_ID,
+  MAINNET_SHALLOT_PACKAGE_ID
+} from "../constants";
+import type { IndexerStore } from "./store";
+import { RpcEventSource, FixtureEventSource } from "./sources";
+import { ingestAll } from "./ingest";
+import { createIndexerServer } from "./server";
+import type { EventSource } from "./types";
+
+const PACKAGE_IDS: Record<string, string> = {
+  devnet: DEVNET_SHALLOT_PACKAGE_ID,
+  testnet: TESTNET_SHALLOT_PACKAGE_ID,
+  mainnet: MAINNET_SHALLOT_PACKAGE_ID,
+};
+
+const { values: args } = parseArgs({
+  options: {
+    db: { type: "string", default: "shallot-indexer.db" },
+    network: { type: "string", default: "testnet" },
+    rpc: { type: "string" },
+    package: { type: "string" },
+    fixture: { type: "string" },
+    once: { type: "boolean", default: false },
+    interval: { type: "string", default: "5000" },
+    port: { type: "string", default: "4000" },
+  },
+});
+
+function createSource(): EventSource {
+  if (args.fixture) {
+    return new FixtureEventSource(args.fixture);
+  }
+
+  const packageId = args.package || PACKAGE_IDS[args.network!];
+  if (!packageId || packageId === "0xTODO") {
+    throw new Error(`No Shallot package ID for ${args.network}; pass --package`);
+  }
+  return new RpcEventSource(packageId, args.rpc || args.network!);
+}
+
+/**
+ * Load the SQLite store; better-sqlite3 is not a dependency of the web app, so say how
+ * to install it instead of failing on the bare module resolution error
+ */
+async function loadStore(): Promise<typeof import("./store")> {
+  try {
+    return await import("./store");
+  } catch (err: any) {
+    const missingModule = err?.code === "ERR_MODULE_NOT_FOUND" || err?.code === "MODULE_NOT_FOUND";
+    if (missingModule && String(err.message).includes("better-sqlite3")) {
+      throw new Error("better-sqlite3 is not installed; run `pnpm add better-sqlite3` in app/ first");
+    }
+    throw err;
+  }
+}
+
+async function ingestOnce(store: IndexerStore, source: EventSource) {
+  const stats = await ingestAll(store, source);
+  stats
+    .filter(stat => stat.ingested > 0)
+    .forEach(stat => console.log(`📥 ${stat.eventType}: ${stat.ingested} new event(s)`));
+}
+
+async function main() {
+  const source = createSource();
+  const { IndexerStore } = await loadStore();
+  const store = new IndexerStore(args.db!);
+  console.log(`🔎 Indexing Shallot package ${source.packageId} into ${args.db}`);
+
+  await ingestOnce(store, source);
+  if (args.once) {
+    store.close();
+    return;
+  }
+
+  const port = Number(args.port);
+  createIndexerServer(store, source.packageId).listen(port, () => {
+    console.log(`✅ Indexer API listening on http://localhost:${port}`);
+  });
+
+  // Poll for new events; a failed pass is retried on the next tick
+  const interval = Number(args.interval);
+  const tick = async () => {
+    try {
+      await ingestOnce(store, source);
+    } catch (err: any) {
+      console.error("❌ Ingestion failed:", err?.message || err);
+    }
+    setTimeout(tick, interval);
+  };
+  setTimeout(tick, interval);
+}
+
+main().catch(err => {
+  console.error("❌ Indexer failed to start:", err?.message || err);
+  process.exit(1);
+});
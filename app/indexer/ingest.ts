@@ -0,0 +1,42 @@
+// Event ingestion for the Shallot indexer
+
+import { EVENT_TYPES } from "../constants";
+import type { IndexerStore } from "./store";
+import type { EventSource, IngestStats } from "./types";
+
+// Events requested from the source per call
+const INGEST_PAGE_SIZE = 50;
+
+/**
+ * Ingest every new event of one type, resuming from the saved cursor
+ * Each page is stored together with its cursor, so an interrupted run resumes cleanly.
+ */
+export async function ingestEventType(
+  store: IndexerStore,
+  source: EventSource,
+  eventType: string
+): Promise<IngestStats> {
+  let cursor = store.getCursor(eventType);
+  let ingested = 0;
+
+  while (true) {
+    const page = await source.queryEvents(eventType, cursor, INGEST_PAGE_SIZE);
+    ingested += store.ingestPage(eventType, page.data, page.nextCursor);
+    cursor = page.nextCursor;
+
+    if (!page.hasNextPage || page.data.length === 0) {
+      return { eventType, ingested, cursor };
+    }
+  }
+}
+
+/**
+ * Ingest all Shallot event types once
+ */
+export async function ingestAll(store: IndexerStore, source: EventSource): Promise<IngestStats[]> {
+  const stats: IngestStats[] = [];
+  for (const eventType of Object.values(EVENT_TYPES)) {
+    stats.push(await ingestEventType(store, source, eventType));
+  }
+  return stats;
+}
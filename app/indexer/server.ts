@@ -0,0 +1,80 @@
+// HTTP read API for the Shallot indexer
+//
+// GET /events?type=<Move event type>&cursor=&limit=&order=ascending|descending
+//   Same page shape as the fullnode's `suix_queryEvents`: { data, nextCursor, hasNextPage }
+// GET /health
+
+import { createServer, type Server, type ServerResponse } from "node:http";
+import { MODULES } from "../constants";
+import { normalizeAddress, encodeEventCursor } from "../utils/sui";
+import type { IndexerStore } from "./store";
+import type { EventPage } from "./types";
+
+const MAX_PAGE_SIZE = 200;
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    // The dApp is served from a different origin during development
+    "Access-Control-Allow-Origin": "*",
+  });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Short event name if a Move event type belongs to this package's events module
+ */
+function localEventType(moveEventType: string, packageId: string): string | null {
+  const [address, module, name] = moveEventType.split("::");
+  if (!address || module !== MODULES.EVENTS || !name) return null;
+  return normalizeAddress(address) === normalizeAddress(packageId) ? name : null;
+}
+
+export function createIndexerServer(store: IndexerStore, packageId: string): Server {
+  return createServer((request, response) => {
+    const url = new URL(request.url || "/", "http://localhost");
+
+    if (request.method !== "GET") {
+      sendJson(response, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    if (url.pathname === "/health") {
+      sendJson(response, 200, { status: "ok", packageId });
+      return;
+    }
+
+    if (url.pathname !== "/events") {
+      sendJson(response, 404, { error: "Not found" });
+      return;
+    }
+
+    const eventType = localEventType(url.searchParams.get("type") || "", packageId);
+    if (!eventType) {
+      // Callers fall back to the fullnode for events this indexer does not hold
+      sendJson(response, 404, { error: `Events are indexed for package ${packageId} only` });
+      return;
+    }
+
+    const limit = Math.min(Number(url.searchParams.get("limit")) || 50, MAX_PAGE_SIZE);
+
+    try {
+      const { events, hasMore } = store.listEvents(eventType, {
+        cursor: url.searchParams.get("cursor"),
+        limit,
+        descending: url.searchParams.get("order") === "descending",
+      });
+
+      const page: EventPage = {
+        data: events,
+        nextCursor: events.length > 0
+          ? encodeEventCursor(events[events.length - 1].id)
+          : null,
+        hasNextPage: hasMore,
+      };
+      sendJson(response, 200, page);
+    } catch (error: any) {
+      sendJson(response, 400, { error: error?.message || "Invalid request" });
+    }
+  });
+}
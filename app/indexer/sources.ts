@@ -0,0 +1,74 @@
+// Event sources for the Shallot indexer
+
+import { readFileSync } from "node:fs";
+import { SuiClient } from "@mysten/sui/client";
+import type { SuiEvent } from "@mysten/sui/client";
+import { MODULES } from "../constants";
+import { encodeEventCursor, decodeEventCursor, resolveRpcUrl } from "../utils/sui";
+import { eventTypeName, type EventPage, type EventSource } from "./types";
+
+/**
+ * Events from a fullnode or a local stand-in node (`sui start`), by URL or network name
+ */
+export class RpcEventSource implements EventSource {
+  private client: SuiClient;
+
+  constructor(readonly packageId: string, networkOrUrl: string) {
+    this.client = new SuiClient({ url: resolveRpcUrl(networkOrUrl) });
+  }
+
+  async queryEvents(eventType: string, cursor: string | null, limit: number): Promise<EventPage> {
+    const response = await this.client.queryEvents({
+      query: { MoveEventType: `${this.packageId}::${MODULES.EVENTS}::${eventType}` },
+      cursor: cursor ? decodeEventCursor(cursor) : null,
+      limit,
+      order: "ascending",
+    });
+
+    return {
+      data: response.data,
+      nextCursor: response.data.length > 0
+        ? encodeEventCursor(response.data[response.data.length - 1].id)
+        : cursor,
+      hasNextPage: response.hasNextPage,
+    };
+  }
+}
+
+/**
+ * Events recorded to a JSON file: `{ "packageId": "0x...", "events": SuiEvent[] }`
+ * Events are served in file order, so the file must list them as the chain emitted them.
+ */
+export class FixtureEventSource implements EventSource {
+  readonly packageId: string;
+  private events: SuiEvent[];
+
+  constructor(path: string) {
+    const fixture = JSON.parse(readFileSync(path, "utf8"));
+    if (!fixture?.packageId || !Array.isArray(fixture.events)) {
+      throw new Error(`Event fixture ${path} must contain "packageId" and "events"`);
+    }
+    this.packageId = fixture.packageId;
+    this.events = fixture.events;
+  }
+
+  async queryEvents(eventType: string, cursor: string | null, limit: number): Promise<EventPage> {
+    const matching = this.events.filter(event => eventTypeName(event.type) === eventType);
+
+    let start = 0;
+    if (cursor) {
+      const index = matching.findIndex(event => encodeEventCursor(event.id) === cursor);
+      if (index === -1) {
+        throw new Error(`Unknown event cursor: ${cursor}`);
+      }
+      start = index + 1;
+    }
+
+    const data = matching.slice(start, start + limit);
+    return {
+      data,
+      nextCursor: data.length > 0 ? encodeEventCursor(data[data.length - 1].id) : cursor,
+      hasNextPage: start + limit < matching.length,
+    };
+  }
+}
@@ -0,0 +1,513 @@
+// SQLite persistence for the Shallot event indexer
+//
+// Raw events are stored once per event ID; derived tables are updated in the same
+// SQLite transaction, so re-ingesting a page never double-counts anything.
+
+import Database from "better-sqlite3";
+import type { SuiEvent } from "@mysten/sui/client";
+import { EVENT_TYPES } from "../constants";
+import { encodeEventCursor } from "../utils/sui";
+import {
+  EventDecodeError,
+  decodeForumCreatedEvent,
+  decodeMemberJoinedEvent,
+  decodePollCreatedEvent,
+  decodeVoteReceivedEvent,
+  decodePollExecutedEvent,
+  decodePollExecutionFailedEvent,
+  decodeForumMetadataUpdatedEvent
+} from "../utils/decoders";
+import type {
+  ForumQueryFilters,
+  MemberListQuery,
+  ForumCreatedEvent,
+  ForumMetadataUpdatedEvent,
+  MemberJoinedEvent,
+  PollCreatedEvent,
+  VoteReceivedEvent,
+  PollExecutedEvent,
+  PollExecutionFailedEvent
+} from "../types";
+import { eventTypeName } from "./types";
+import type {
+  ForumRow,
+  MemberRow,
+  PollRow,
+  VoteRow,
+  MetadataChangeRow
+} from "./types";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    event_id TEXT NOT NULL UNIQUE,
+    event_type TEXT NOT NULL,
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    timestamp_ms INTEGER,
+    raw_json TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS events_type_seq ON events (event_type, seq);
+
+  CREATE TABLE IF NOT EXISTS cursors (
+    event_type TEXT PRIMARY KEY,
+    cursor TEXT,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS forums (
+    forum_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    creator TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    member_count INTEGER NOT NULL DEFAULT 0,
+    active_poll_id TEXT,
+    metadata_updated_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS forums_creator ON forums (creator);
+
+  CREATE TABLE IF NOT EXISTS members (
+    forum_id TEXT NOT NULL,
+    member TEXT NOT NULL,
+    membership_id TEXT NOT NULL,
+    joined_at INTEGER NOT NULL,
+    PRIMARY KEY (forum_id, member)
+  );
+  CREATE INDEX IF NOT EXISTS members_member ON members (member);
+
+  CREATE TABLE IF NOT EXISTS polls (
+    poll_id TEXT PRIMARY KEY,
+    forum_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    creator TEXT NOT NULL,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active',
+    vote_count INTEGER NOT NULL DEFAULT 0,
+    yes_votes INTEGER,
+    no_votes INTEGER,
+    passed INTEGER,
+    finished_at INTEGER,
+    failure_reason TEXT
+  );
+  CREATE INDEX IF NOT EXISTS polls_forum ON polls (forum_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS votes (
+    poll_id TEXT NOT NULL,
+    anonymous_voter_id TEXT NOT NULL,
+    voted_at INTEGER NOT NULL,
+    PRIMARY KEY (poll_id, anonymous_voter_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS metadata_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    event_id TEXT NOT NULL UNIQUE,
+    forum_id TEXT NOT NULL,
+    poll_id TEXT NOT NULL,
+    old_name TEXT NOT NULL,
+    new_name TEXT NOT NULL,
+    old_description TEXT NOT NULL,
+    new_description TEXT NOT NULL,
+    changed_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS metadata_changes_forum ON metadata_changes (forum_id, changed_at);
+`;
+
+/**
+ * Hex form of a Move `vector<u8>`
+ */
+function bytesToHex(bytes: number[]): string {
+  return bytes.map(byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export class IndexerStore {
+  private db: Database.Database;
+
+  constructor(path: string) {
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // ===== Cursors =====
+
+  getCursor(eventType: string): string | null {
+    const row = this.db
+      .prepare("SELECT cursor FROM cursors WHERE event_type = ?")
+      .get(eventType) as { cursor: string | null } | undefined;
+    return row?.cursor ?? null;
+  }
+
+  /**
+   * Store a page of events and advance the cursor atomically
+   * Returns the number of events that were new
+   */
+  ingestPage(eventType: string, events: SuiEvent[], cursor: string | null): number {
+    const run = this.db.transaction(() => {
+      let inserted = 0;
+      for (const event of events) {
+        if (this.applyEvent(event)) {
+          inserted++;
+        }
+      }
+
+      this.db
+        .prepare(`
+          INSERT INTO cursors (event_type, cursor, updated_at) VALUES (?, ?, ?)
+          ON CONFLICT (event_type) DO UPDATE SET cursor = excluded.cursor, updated_at = excluded.updated_at
+        `)
+        .run(eventType, cursor, Date.now());
+
+      return inserted;
+    });
+
+    return run();
+  }
+
+  // ===== Event Application =====
+
+  /**
+   * Record a raw event and update derived tables; false if the event was already stored
+   */
+  private applyEvent(event: SuiEvent): boolean {
+    const eventId = encodeEventCursor(event.id);
+    const type = eventTypeName(event.type);
+
+    const result = this.db
+      .prepare(`
+        INSERT OR IGNORE INTO events (event_id, event_type, tx_digest, event_seq, sender, timestamp_ms, raw_json)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        eventId,
+        type,
+        event.id.txDigest,
+        event.id.eventSeq,
+        event.sender,
+        event.timestampMs ? Number(event.timestampMs) : null,
+        JSON.stringify(event)
+      );
+
+    if (result.changes === 0) {
+      return false;
+    }
+
+    try {
+      switch (type) {
+        case EVENT_TYPES.FORUM_CREATED:
+          this.applyForumCreated(decodeForumCreatedEvent(event));
+          break;
+        case EVENT_TYPES.MEMBER_JOINED:
+          this.applyMemberJoined(decodeMemberJoinedEvent(event));
+          break;
+        case EVENT_TYPES.POLL_CREATED:
+          this.applyPollCreated(decodePollCreatedEvent(event));
+          break;
+        case EVENT_TYPES.VOTE_RECEIVED:
+          this.applyVoteReceived(decodeVoteReceivedEvent(event));
+          break;
+        case EVENT_TYPES.POLL_EXECUTED:
+          this.applyPollExecuted(decodePollExecutedEvent(event));
+          break;
+        case EVENT_TYPES.POLL_EXECUTION_FAILED:
+          this.applyPollExecutionFailed(decodePollExecutionFailedEvent(event));
+          break;
+        case EVENT_TYPES.FORUM_METADATA_UPDATED:
+          this.applyMetadataUpdated(eventId, decodeForumMetadataUpdatedEvent(event));
+          break;
+      }
+    } catch (err) {
+      if (!(err instanceof EventDecodeError)) throw err;
+      // Keep the raw event for inspection, but never derive rows from it
+      console.warn(`⚠️ ${err.message}`);
+    }
+
+    return true;
+  }
+
+  // Each apply step tolerates events of other types arriving first, since
+  // event types are ingested one after another rather than interleaved.
+
+  private applyForumCreated(data: ForumCreatedEvent) {
+    this.db
+      .prepare(`
+        INSERT OR IGNORE INTO forums (forum_id, name, description, creator, created_at, member_count)
+        VALUES (@forum_id, @name, @description, @creator, @created_at,
+          (SELECT COUNT(*) FROM members WHERE forum_id = @forum_id))
+      `)
+      .run({
+        forum_id: data.forum_id,
+        name: data.name,
+        description: data.description,
+        creator: data.creator,
+        created_at: data.timestamp,
+      });
+
+    // Metadata changes seen before the forum itself
+    const latest = this.db
+      .prepare("SELECT * FROM metadata_changes WHERE forum_id = ? ORDER BY changed_at DESC LIMIT 1")
+      .get(data.forum_id) as MetadataChangeRow | undefined;
+    if (latest) {
+      this.updateForumMetadata(latest.forum_id, latest.new_name, latest.new_description, latest.changed_at);
+    }
+  }
+
+  private applyMemberJoined(data: MemberJoinedEvent) {
+    this.db
+      .prepare(`
+        INSERT OR IGNORE INTO members (forum_id, member, membership_id, joined_at)
+        VALUES (?, ?, ?, ?)
+      `)
+      .run(data.forum_id, data.member, data.membership_id, data.timestamp);
+
+    this.db
+      .prepare("UPDATE forums SET member_count = MAX(member_count, ?) WHERE forum_id = ?")
+      .run(data.total_members, data.forum_id);
+  }
+
+  private applyPollCreated(data: PollCreatedEvent) {
+    this.db
+      .prepare(`
+        INSERT OR IGNORE INTO polls (poll_id, forum_id, title, description, creator, start_time, end_time, created_at, vote_count)
+        VALUES (@poll_id, @forum_id, @title, @description, @creator, @start_time, @end_time, @created_at,
+          (SELECT COUNT(*) FROM votes WHERE poll_id = @poll_id))
+      `)
+      .run({
+        poll_id: data.poll_id,
+        forum_id: data.forum_id,
+        title: data.title,
+        description: data.description,
+        creator: data.creator,
+        start_time: data.start_time,
+        end_time: data.end_time,
+        created_at: data.timestamp,
+      });
+
+    this.db
+      .prepare(`
+        UPDATE forums SET active_poll_id = @poll_id
+        WHERE forum_id = @forum_id
+          AND EXISTS (SELECT 1 FROM polls WHERE poll_id = @poll_id AND status = 'active')
+      `)
+      .run({ poll_id: data.poll_id, forum_id: data.forum_id });
+  }
+
+  private applyVoteReceived(data: VoteReceivedEvent) {
+    const result = this.db
+      .prepare("INSERT OR IGNORE INTO votes (poll_id, anonymous_voter_id, voted_at) VALUES (?, ?, ?)")
+      .run(data.poll_id, bytesToHex(data.anonymous_voter_id), data.timestamp);
+
+    if (result.changes > 0) {
+      this.db.prepare("UPDATE polls SET vote_count = vote_count + 1 WHERE poll_id = ?").run(data.poll_id);
+    }
+  }
+
+  private applyPollExecuted(data: PollExecutedEvent) {
+    this.db
+      .prepare(`
+        UPDATE polls SET
+          status = 'executed',
+          yes_votes = @yes_votes,
+          no_votes = @no_votes,
+          passed = @passed,
+          vote_count = MAX(vote_count, @total_participants),
+          finished_at = @finished_at
+        WHERE poll_id = @poll_id
+      `)
+      .run({
+        poll_id: data.poll_id,
+        yes_votes: data.yes_votes,
+        no_votes: data.no_votes,
+        passed: data.passed ? 1 : 0,
+        total_participants: data.total_participants,
+        finished_at: data.timestamp,
+      });
+
+    this.clearActivePoll(data.forum_id, data.poll_id);
+  }
+
+  private applyPollExecutionFailed(data: PollExecutionFailedEvent) {
+    this.db
+      .prepare(`
+        UPDATE polls SET status = 'failed', finished_at = ?, failure_reason = ?
+        WHERE poll_id = ?
+      `)
+      .run(data.timestamp, data.error_message, data.poll_id);
+
+    this.clearActivePoll(data.forum_id, data.poll_id);
+  }
+
+  private clearActivePoll(forumId: string, pollId: string) {
+    this.db
+      .prepare("UPDATE forums SET active_poll_id = NULL WHERE forum_id = ? AND active_poll_id = ?")
+      .run(forumId, pollId);
+  }
+
+  private applyMetadataUpdated(eventId: string, data: ForumMetadataUpdatedEvent) {
+    const changedAt = data.timestamp;
+
+    this.db
+      .prepare(`
+        INSERT OR IGNORE INTO metadata_changes
+          (event_id, forum_id, poll_id, old_name, new_name, old_description, new_description, changed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        eventId,
+        data.forum_id,
+        data.poll_id,
+        data.old_name,
+        data.new_name,
+        data.old_description,
+        data.new_description,
+        changedAt
+      );
+
+    this.updateForumMetadata(data.forum_id, data.new_name, data.new_description, changedAt);
+  }
+
+  private updateForumMetadata(forumId: string, name: string, description: string, changedAt: number) {
+    this.db
+      .prepare(`
+        UPDATE forums SET name = ?, description = ?, metadata_updated_at = ?
+        WHERE forum_id = ? AND (metadata_updated_at IS NULL OR metadata_updated_at <= ?)
+      `)
+      .run(name, description, changedAt, forumId, changedAt);
+  }
+
+  // ===== Queries =====
+
+  /**
+   * Raw events of one type in ingestion order, after an optional event ID cursor
+   */
+  listEvents(
+    eventType: string,
+    options: { cursor?: string | null; limit: number; descending?: boolean }
+  ): { events: SuiEvent[]; hasMore: boolean } {
+    const order = options.descending ? "DESC" : "ASC";
+    const comparison = options.descending ? "<" : ">";
+    const afterSeq = options.cursor
+      ? (this.db.prepare("SELECT seq FROM events WHERE event_id = ?").get(options.cursor) as { seq: number } | undefined)?.seq
+      : undefined;
+
+    if (options.cursor && afterSeq === undefined) {
+      throw new Error(`Unknown event cursor: ${options.cursor}`);
+    }
+
+    const rows = this.db
+      .prepare(`
+        SELECT raw_json FROM events
+        WHERE event_type = ? ${afterSeq !== undefined ? `AND seq ${comparison} ?` : ""}
+        ORDER BY seq ${order}
+        LIMIT ?
+      `)
+      .all(...[eventType, ...(afterSeq !== undefined ? [afterSeq] : []), options.limit + 1]) as { raw_json: string }[];
+
+    return {
+      events: rows.slice(0, options.limit).map(row => JSON.parse(row.raw_json)),
+      hasMore: rows.length > options.limit,
+    };
+  }
+
+  /**
+   * Forums matching the ForumQueryFilters fields, newest first
+   */
+  listForums(
+    filters: ForumQueryFilters,
+    options: { limit: number; offset: number }
+  ): { forums: ForumRow[]; total: number } {
+    const clauses: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filters.creator) {
+      clauses.push("creator = @creator");
+      params.creator = filters.creator;
+    }
+    if (filters.hasActivePoll !== undefined) {
+      clauses.push(filters.hasActivePoll ? "active_poll_id IS NOT NULL" : "active_poll_id IS NULL");
+    }
+    if (filters.minMembers !== undefined) {
+      clauses.push("member_count >= @minMembers");
+      params.minMembers = filters.minMembers;
+    }
+    if (filters.maxMembers !== undefined) {
+      clauses.push("member_count <= @maxMembers");
+      params.maxMembers = filters.maxMembers;
+    }
+    if (filters.createdAfter !== undefined) {
+      clauses.push("created_at >= @createdAfter");
+      params.createdAfter = filters.createdAfter;
+    }
+    if (filters.createdBefore !== undefined) {
+      clauses.push("created_at <= @createdBefore");
+      params.createdBefore = filters.createdBefore;
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const total = (this.db.prepare(`SELECT COUNT(*) AS count FROM forums ${where}`).get(params) as { count: number }).count;
+    const forums = this.db
+      .prepare(`SELECT * FROM forums ${where} ORDER BY created_at DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit: options.limit, offset: options.offset }) as ForumRow[];
+
+    return { forums, total };
+  }
+
+  getForum(forumId: string): ForumRow | null {
+    return (this.db.prepare("SELECT * FROM forums WHERE forum_id = ?").get(forumId) as ForumRow | undefined) ?? null;
+  }
+
+  /**
+   * Members of a forum, sorted per MemberListQuery
+   */
+  listMembers(query: MemberListQuery): { members: MemberRow[]; total: number } {
+    const column = query.sortBy === "address" ? "member" : "joined_at";
+    const order = query.sortOrder === "desc" ? "DESC" : "ASC";
+
+    const total = (this.db
+      .prepare("SELECT COUNT(*) AS count FROM members WHERE forum_id = ?")
+      .get(query.forumId) as { count: number }).count;
+    const members = this.db
+      .prepare(`SELECT * FROM members WHERE forum_id = ? ORDER BY ${column} ${order}, member ASC LIMIT ? OFFSET ?`)
+      .all(query.forumId, query.limit ?? 20, query.offset ?? 0) as MemberRow[];
+
+    return { members, total };
+  }
+
+  /**
+   * Polls of a forum, newest first
+   */
+  listPolls(forumId: string, options: { limit: number; offset: number }): { polls: PollRow[]; total: number } {
+    const total = (this.db
+      .prepare("SELECT COUNT(*) AS count FROM polls WHERE forum_id = ?")
+      .get(forumId) as { count: number }).count;
+    const polls = this.db
+      .prepare("SELECT * FROM polls WHERE forum_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?")
+      .all(forumId, options.limit, options.offset) as PollRow[];
+
+    return { polls, total };
+  }
+
+  getPoll(pollId: string): PollRow | null {
+    return (this.db.prepare("SELECT * FROM polls WHERE poll_id = ?").get(pollId) as PollRow | undefined) ?? null;
+  }
+
+  listVotes(pollId: string): VoteRow[] {
+    return this.db
+      .prepare("SELECT * FROM votes WHERE poll_id = ? ORDER BY voted_at ASC")
+      .all(pollId) as VoteRow[];
+  }
+
+  listMetadataChanges(forumId: string): MetadataChangeRow[] {
+    return this.db
+      .prepare("SELECT * FROM metadata_changes WHERE forum_id = ? ORDER BY changed_at ASC")
+      .all(forumId) as MetadataChangeRow[];
+  }
+}
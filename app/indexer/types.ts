@@ -0,0 +1,87 @@
+// Indexer type definitions for Shallot system
+
+import type { SuiEvent } from "@mysten/sui/client";
+
+// One page of raw events from an event source
+export interface EventPage {
+  data: SuiEvent[];
+  nextCursor: string | null; // `${txDigest}:${eventSeq}` of the last event in the page
+  hasNextPage: boolean;
+}
+
+// Anything that can serve Shallot events in ascending order
+export interface EventSource {
+  readonly packageId: string;
+  queryEvents(eventType: string, cursor: string | null, limit: number): Promise<EventPage>;
+}
+
+// ===== Derived Table Rows =====
+
+export interface ForumRow {
+  forum_id: string;
+  name: string;
+  description: string;
+  creator: string;
+  created_at: number;
+  member_count: number;
+  active_poll_id: string | null;
+  metadata_updated_at: number | null;
+}
+
+export interface MemberRow {
+  forum_id: string;
+  member: string;
+  membership_id: string;
+  joined_at: number;
+}
+
+export type IndexedPollStatus = "active" | "executed" | "failed";
+
+export interface PollRow {
+  poll_id: string;
+  forum_id: string;
+  title: string;
+  description: string;
+  creator: string;
+  start_time: number;
+  end_time: number;
+  created_at: number;
+  status: IndexedPollStatus;
+  vote_count: number;
+  yes_votes: number | null; // known once executed
+  no_votes: number | null;
+  passed: number | null; // SQLite boolean
+  finished_at: number | null;
+  failure_reason: string | null;
+}
+
+export interface VoteRow {
+  poll_id: string;
+  anonymous_voter_id: string; // hex
+  voted_at: number;
+}
+
+export interface MetadataChangeRow {
+  id: number;
+  forum_id: string;
+  poll_id: string;
+  old_name: string;
+  new_name: string;
+  old_description: string;
+  new_description: string;
+  changed_at: number;
+}
+
+// Summary of one ingestion pass
+export interface IngestStats {
+  eventType: string;
+  ingested: number;
+  cursor: string | null;
+}
+
+/**
+ * Short event type name (`ForumCreated`) from a full Move event type
+ */
+export function eventTypeName(type: string): string {
+  return type.split("::").pop() || type;
+}
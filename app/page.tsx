@@ -7,14 +7,20 @@ import {
 import { useNetworkVariable } from "./networkConfig";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useState } from "react";
-import { LoadingWrapper } from "./components/common/LoadingSpinner";
+import { useCallback, useEffect, useState } from "react";
 import { ErrorMessage, SuccessMessage } from "./components/common/ErrorMessage";
-import PasswordInput from "./components/common/PasswordInput";
+import { StorageBackup } from "./components/common/StorageBackup";
+import { CreateForum } from "./components/forum/CreateForum";
+import { ForumList } from "./components/forum/ForumList";
+import { ForumDetail } from "./components/forum/ForumDetail";
+import { JoinForum } from "./components/membership/JoinForum";
+import { MemberList } from "./components/membership/MemberList";
+import { MembershipCard } from "./components/membership/MembershipCard";
+import { RevealReminder } from "./components/poll/RevealReminder";
 import { useForum } from "./hooks/useForum";
 import { useMembership } from "./hooks/useMembership";
-import { formatAddress, formatDate } from "./utils/formatting";
-import type { CreateForumFormData, JoinForumFormData, ForumCreatedEvent, MemberJoinedEvent } from "./types";
+import { formatAddress } from "./utils/formatting";
+import type { Forum, ForumListItem, UserMembershipItem } from "./types";
 
 export default function Home() {
   const currentAccount = useCurrentAccount();
@@ -23,48 +29,34 @@ export default function Home() {
   const packageId = useNetworkVariable("shallotPackageId");
   
   const { 
-    isLoading: forumLoading, 
     error: forumError, 
-    createForum, 
-    getForumList, 
     getRegistryId,
     clearError: clearForumError 
   } = useForum();
   
   const { 
-    isLoading: membershipLoading, 
     error: membershipError, 
-    joinForum, 
-    getForumMembers, 
     getMyMemberships,
     checkMembership,
     clearError: clearMembershipError 
   } = useMembership();
   
-  // Form states
-  const [createFormData, setCreateFormData] = useState<CreateForumFormData>({
-    name: "",
-    description: "",
-    password: ""
-  });
-  
-  const [joinFormData, setJoinFormData] = useState<JoinForumFormData>({
-    password: ""
-  });
-  
   // Data states
-  const [forums, setForums] = useState<ForumCreatedEvent[]>([]);
-  const [selectedForum, setSelectedForum] = useState<ForumCreatedEvent | null>(null);
-  const [forumMembers, setForumMembers] = useState<MemberJoinedEvent[]>([]);
-  const [myMemberships, setMyMemberships] = useState<MemberJoinedEvent[]>([]);
+  const [forumCount, setForumCount] = useState(0);
+  const [forumListKey, setForumListKey] = useState(0);
+  const [selectedForum, setSelectedForum] = useState<ForumListItem | null>(null);
+  const [showMembers, setShowMembers] = useState(false);
+  const [membersKey, setMembersKey] = useState(0);
+  const [myMemberships, setMyMemberships] = useState<UserMembershipItem[]>([]);
   const [successMessage, setSuccessMessage] = useState<string>("");
-  const [manualRegistryId, setManualRegistryId] = useState<string>("");
+  // undefined while the selected forum's registry is being looked up, null if it has none
+  const [selectedRegistryId, setSelectedRegistryId] = useState<string | null | undefined>(undefined);
+  const [registryLookupError, setRegistryLookupError] = useState<string | null>(null);
   const [networkInfo, setNetworkInfo] = useState<any>(null);
 
   // View states
   const [activeTab, setActiveTab] = useState<'forums' | 'my-memberships' | 'create'>('forums');
 
-  const isLoading = forumLoading || membershipLoading;
   const error = forumError || membershipError;
 
   // Network connection info
@@ -85,82 +77,39 @@ export default function Home() {
     }
   };
 
-  // Handle form changes
-  const handleCreateFormChange = (field: keyof CreateForumFormData, value: string) => {
-    setCreateFormData(prev => ({ ...prev, [field]: value }));
-  };
-
-  const handleJoinFormChange = (field: keyof JoinForumFormData, value: string) => {
-    setJoinFormData(prev => ({ ...prev, [field]: value }));
-  };
-
-  // Create forum
-  const handleCreateForum = async () => {
-    if (!createFormData.name || !createFormData.password) {
-      setSuccessMessage("Please fill in forum name and password");
-      return;
-    }
+  // Forum created
+  const handleForumCreated = async (forumId: string) => {
+    const registryId = await getRegistryId(forumId).catch(() => null);
 
-    try {
-      const result = await createForum(createFormData);
-      if (result.success) {
-        const forumId = result.objectId;
-        const registryId = getRegistryId(forumId || "");
-        
-        setSuccessMessage(
-          `Forum "${createFormData.name}" created successfully! 
-          Forum ID: ${forumId?.slice(0, 8)}...
-          Registry ID: ${registryId?.slice(0, 8)}...`
-        );
-        
-        setCreateFormData({ name: "", description: "", password: "" });
-        setTimeout(() => loadForums(), 2000);
-      }
-    } catch (err: any) {
-      console.error("Create forum failed:", err);
-    }
-  };
+    setSuccessMessage(
+      `Forum created successfully! 
+      Forum ID: ${forumId.slice(0, 8)}...
+      Registry ID: ${registryId ? `${registryId.slice(0, 8)}...` : "not found"}`
+    );
 
-  // Load forums
-  const loadForums = async () => {
-    try {
-      const forumList = await getForumList(20);
-      setForums(forumList);
-    } catch (err: any) {
-      console.error("Failed to load forums:", err);
-    }
+    setActiveTab('forums');
+    setTimeout(() => setForumListKey(key => key + 1), 2000);
   };
 
-  // Join forum
-  const handleJoinForum = async (forumId: string) => {
-    if (!joinFormData.password) {
-      setSuccessMessage("Please enter forum password");
-      return;
-    }
+  // Forum list loaded; stable so the list does not reload on every render
+  const handleForumsLoaded = useCallback((forumData: Forum[]) => {
+    setForumCount(forumData.length);
+  }, []);
 
-    try {
-      const result = await joinForum(forumId, joinFormData);
-      if (result.success) {
-        setSuccessMessage(`Successfully joined forum!`);
-        setJoinFormData({ password: "" });
-        setTimeout(() => {
-          handleGetForumMembers(forumId);
-          handleGetMyMemberships();
-        }, 2000);
-      }
-    } catch (err: any) {
-      console.error("Join forum failed:", err);
-    }
+  // Forum joined
+  const handleForumJoined = () => {
+    setSuccessMessage(`Successfully joined forum!`);
+    setTimeout(() => {
+      setShowMembers(true);
+      setMembersKey(key => key + 1);
+      handleGetMyMemberships();
+    }, 2000);
   };
 
-  // Get forum members
-  const handleGetForumMembers = async (forumId: string) => {
-    try {
-      const members = await getForumMembers(forumId);
-      setForumMembers(members);
-    } catch (err: any) {
-      console.error("Get forum members failed:", err);
-    }
+  // Select forum
+  const handleSelectForum = (forum: ForumListItem) => {
+    setSelectedForum(forum);
+    setShowMembers(false);
   };
 
   // Get my memberships
@@ -183,20 +132,28 @@ export default function Home() {
     }
   };
 
-  // Manual registry association
-  const associateRegistry = async () => {
-    if (selectedForum && manualRegistryId) {
-      try {
-        const { saveRegistryId } = await import("./utils/storage");
-        saveRegistryId(selectedForum.forum_id, manualRegistryId);
-        setSuccessMessage(`Registry associated with forum: ${selectedForum.name}`);
-        setManualRegistryId("");
-        setForums([...forums]);
-      } catch (err) {
-        console.error("Failed to associate registry:", err);
-      }
-    }
-  };
+  // Look up the selected forum's member registry on-chain
+  const selectedForumId = selectedForum?.id;
+  useEffect(() => {
+    if (!selectedForumId) return;
+
+    let cancelled = false;
+    setSelectedRegistryId(undefined);
+    setRegistryLookupError(null);
+    getRegistryId(selectedForumId)
+      .then(registryId => {
+        if (!cancelled) setSelectedRegistryId(registryId);
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        setSelectedRegistryId(null);
+        setRegistryLookupError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedForumId, getRegistryId]);
 
   const clearError = () => {
     clearForumError();
@@ -206,7 +163,6 @@ export default function Home() {
 
   // Initial load
   useState(() => {
-    loadForums();
     if (currentAccount) {
       handleGetMyMemberships();
     }
@@ -221,7 +177,7 @@ export default function Home() {
             Shallot Forum System
           </h1>
           <p className="text-lg text-slate-600 max-w-2xl mx-auto">
-            Decentralized forum voting system with anonymous governance and democratic decision-making
+            Decentralized forum voting system with on-chain governance and democratic decision-making
           </p>
         </div>
 
@@ -279,7 +235,7 @@ export default function Home() {
                   <h4 className="font-medium text-gray-900">Forum Statistics</h4>
                   <div className="mt-2">
                     <p className="text-sm text-gray-600">
-                      Total Forums: {forums.length}
+                      Total Forums: {forumCount}
                     </p>
                     <p className="text-sm text-gray-600">
                       My Memberships: {myMemberships.length}
@@ -312,6 +268,8 @@ export default function Home() {
                     />
                   )}
 
+                  {currentAccount && <RevealReminder />}
+
                   {/* Tab Navigation */}
                   <div className="flex justify-center space-x-4 mb-6">
                     <Button
@@ -355,130 +313,40 @@ export default function Home() {
 
                   {/* Create Forum Tab */}
                   {activeTab === 'create' && currentAccount && (
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="text-lg">Create New Forum</CardTitle>
-                      </CardHeader>
-                      <CardContent className="space-y-4">
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          <div>
-                            <label className="text-sm font-medium text-gray-700">
-                              Forum Name *
-                            </label>
-                            <input
-                              type="text"
-                              value={createFormData.name}
-                              onChange={(e) => handleCreateFormChange("name", e.target.value)}
-                              placeholder="Enter forum name"
-                              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            />
-                          </div>
-                          
-                          <div>
-                            <PasswordInput
-                              label="Access Password *"
-                              value={createFormData.password}
-                              onChange={(e) => handleCreateFormChange("password", e.target.value)}
-                              placeholder="Set forum password"
-                              showToggle={true}
-                            />
-                          </div>
-                        </div>
-                        
-                        <div>
-                          <label className="text-sm font-medium text-gray-700">
-                            Description
-                          </label>
-                          <textarea
-                            value={createFormData.description}
-                            onChange={(e) => handleCreateFormChange("description", e.target.value)}
-                            placeholder="Enter forum description"
-                            rows={3}
-                            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          />
-                        </div>
-                        
-                        <Button
-                          onClick={handleCreateForum}
-                          disabled={isLoading || !createFormData.name || !createFormData.password}
-                          className="bg-blue-600 hover:bg-blue-700"
-                        >
-                          <LoadingWrapper isLoading={isLoading}>
-                            Create Forum
-                          </LoadingWrapper>
-                        </Button>
-                      </CardContent>
-                    </Card>
+                    <CreateForum onCreated={handleForumCreated} />
                   )}
 
                   {/* Browse Forums Tab */}
                   {activeTab === 'forums' && (
                     <div className="space-y-6">
-                      <div className="flex justify-between items-center">
-                        <h3 className="text-lg font-medium">Available Forums</h3>
-                        <Button
-                          onClick={loadForums}
-                          disabled={isLoading}
-                          variant="outline"
-                        >
-                          Refresh
-                        </Button>
-                      </div>
+                      <ForumList
+                        refreshKey={forumListKey}
+                        selectedForumId={selectedForum?.id}
+                        onSelectForum={handleSelectForum}
+                        onLoaded={handleForumsLoaded}
+                      />
 
-                      {forums.length > 0 ? (
-                        <div className="space-y-3">
-                          {forums.map((forum) => (
-                            <Card key={forum.forum_id} className="hover:shadow-md transition-shadow">
-                              <CardContent className="p-4">
-                                <div className="flex justify-between items-start">
-                                  <div className="flex-1">
-                                    <h4 className="font-medium text-gray-900">{forum.name}</h4>
-                                    <p className="text-sm text-gray-600 mt-1">{forum.description}</p>
-                                    <div className="text-xs text-gray-500 mt-2">
-                                      Created by: {formatAddress(forum.creator)} | 
-                                      {formatDate(parseInt(forum.timestamp))}
-                                      {getRegistryId(forum.forum_id) && (
-                                        <span className="ml-2 text-green-600">✓ Joinable</span>
-                                      )}
-                                      {!getRegistryId(forum.forum_id) && (
-                                        <span className="ml-2 text-red-600">✗ Registry Required</span>
-                                      )}
-                                    </div>
-                                  </div>
-                                  <div className="flex gap-2 ml-4">
-                                    <Button
-                                      size="sm"
-                                      variant="outline"
-                                      onClick={() => handleGetForumMembers(forum.forum_id)}
-                                    >
-                                      Members
-                                    </Button>
-                                    {currentAccount && (
-                                      <Button
-                                        size="sm"
-                                        onClick={() => handleCheckMembership(forum.forum_id)}
-                                        className="bg-orange-600 hover:bg-orange-700"
-                                      >
-                                        Status
-                                      </Button>
-                                    )}
-                                    <Button
-                                      size="sm"
-                                      variant={selectedForum?.forum_id === forum.forum_id ? "default" : "outline"}
-                                      onClick={() => setSelectedForum(forum)}
-                                    >
-                                      Select
-                                    </Button>
-                                  </div>
-                                </div>
-                              </CardContent>
-                            </Card>
-                          ))}
-                        </div>
-                      ) : (
-                        <div className="text-center py-8 text-gray-500">
-                          No forums found. Create the first one!
-                        </div>
+                      {selectedForum && (
+                        <ForumDetail forumId={selectedForum.id}>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setShowMembers(!showMembers)}
+                            >
+                              {showMembers ? "Hide Members" : "Members"}
+                            </Button>
+                            {currentAccount && (
+                              <Button
+                                size="sm"
+                                onClick={() => handleCheckMembership(selectedForum.id)}
+                                className="bg-orange-600 hover:bg-orange-700"
+                              >
+                                Status
+                              </Button>
+                            )}
+                          </div>
+                        </ForumDetail>
                       )}
                     </div>
                   )}
@@ -490,16 +358,11 @@ export default function Home() {
                       
                       {myMemberships.length > 0 ? (
                         <div className="space-y-3">
-                          {myMemberships.map((membership) => (
-                            <Card key={membership.membership_id} className="bg-green-50 border-green-200">
-                              <CardContent className="p-4">
-                                <div className="text-sm">
-                                  <p><strong>Forum ID:</strong> {formatAddress(membership.forum_id)}</p>
-                                  <p><strong>Membership ID:</strong> {formatAddress(membership.membership_id)}</p>
-                                  <p><strong>Joined:</strong> {formatDate(parseInt(membership.timestamp))}</p>
-                                </div>
-                              </CardContent>
-                            </Card>
+                          {myMemberships.map(membership => (
+                            <MembershipCard
+                              key={membership.membershipId}
+                              membership={membership}
+                            />
                           ))}
                         </div>
                       ) : (
@@ -510,96 +373,35 @@ export default function Home() {
                     </div>
                   )}
 
-                  {/* Manual Registry Association */}
-                  {currentAccount && selectedForum && !getRegistryId(selectedForum.forum_id) && (
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="text-lg">Associate Registry ID</CardTitle>
-                      </CardHeader>
-                      <CardContent className="space-y-4">
-                        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                          <h4 className="font-medium text-yellow-800 mb-2">Registry Required</h4>
-                          <p className="text-sm text-yellow-700">
-                            This forum needs a registry ID to enable joining. If you know the registry ID, you can associate it below.
-                          </p>
-                        </div>
-                        
-                        <div>
-                          <p className="text-sm font-medium text-gray-700 mb-2">
-                            Selected Forum: <span className="text-blue-600">{selectedForum.name}</span>
-                          </p>
-                          <input
-                            type="text"
-                            value={manualRegistryId}
-                            onChange={(e) => setManualRegistryId(e.target.value)}
-                            placeholder="Enter registry ID (0x...)"
-                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          />
-                        </div>
-                        
-                        <Button
-                          onClick={associateRegistry}
-                          disabled={!manualRegistryId}
-                          className="bg-blue-600 hover:bg-blue-700"
-                        >
-                          Associate Registry
-                        </Button>
-                      </CardContent>
-                    </Card>
+                  {/* Missing Registry */}
+                  {currentAccount && selectedForum && selectedRegistryId === null && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                      <h4 className="font-medium text-yellow-800 mb-2">Registry Not Found</h4>
+                      <p className="text-sm text-yellow-700">
+                        {registryLookupError
+                          ? `${registryLookupError}. Registry lookup did not finish, so the forum cannot be joined from here.`
+                          : "No member registry was found on-chain for this forum, so it cannot be joined yet."}
+                      </p>
+                    </div>
                   )}
 
                   {/* Join Forum Form */}
-                  {currentAccount && selectedForum && getRegistryId(selectedForum.forum_id) && (
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="text-lg">Join Forum</CardTitle>
-                      </CardHeader>
-                      <CardContent className="space-y-4">
-                        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                          <h4 className="font-medium text-green-800">Selected: {selectedForum.name}</h4>
-                          <p className="text-sm text-green-700">Registry: {formatAddress(getRegistryId(selectedForum.forum_id)!)}</p>
-                        </div>
-                        
-                        <PasswordInput
-                          label="Forum Password"
-                          value={joinFormData.password}
-                          onChange={(e) => handleJoinFormChange("password", e.target.value)}
-                          placeholder="Enter forum password"
-                        />
-                        
-                        <Button
-                          onClick={() => handleJoinForum(selectedForum.forum_id)}
-                          disabled={isLoading || !joinFormData.password}
-                          className="bg-green-600 hover:bg-green-700"
-                        >
-                          <LoadingWrapper isLoading={isLoading}>
-                            Join Forum
-                          </LoadingWrapper>
-                        </Button>
-                      </CardContent>
-                    </Card>
+                  {currentAccount && selectedForum && selectedRegistryId && (
+                    <JoinForum
+                      key={selectedForum.id}
+                      forumId={selectedForum.id}
+                      forumName={selectedForum.name}
+                      onJoined={handleForumJoined}
+                    />
                   )}
 
                   {/* Forum Members */}
-                  {forumMembers.length > 0 && (
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="text-lg">Forum Members ({forumMembers.length})</CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="space-y-2 max-h-48 overflow-y-auto">
-                          {forumMembers.map((member, index) => (
-                            <div 
-                              key={member.membership_id} 
-                              className="p-2 border border-gray-200 rounded text-sm"
-                            >
-                              <p><strong>Member:</strong> {formatAddress(member.member)}</p>
-                              <p><strong>Joined:</strong> {formatDate(parseInt(member.timestamp))}</p>
-                            </div>
-                          ))}
-                        </div>
-                      </CardContent>
-                    </Card>
+                  {selectedForum && showMembers && selectedRegistryId && (
+                    <MemberList
+                      key={`${selectedForum.id}:${membersKey}`}
+                      forumId={selectedForum.id}
+                      registryId={selectedRegistryId}
+                    />
                   )}
 
                   {/* Network Info */}
@@ -627,6 +429,7 @@ export default function Home() {
                             <p className="text-gray-600 break-all">{networkInfo.packageId}</p>
                           </div>
                         </div>
+                        <StorageBackup className="mt-4 pt-4 border-t border-gray-200" />
                       </CardContent>
                     </Card>
                   )}
@@ -1,9 +1,22 @@
 "use client";
 
-import { SuiClientProvider, WalletProvider } from "@mysten/dapp-kit";
+import { SuiClientProvider, WalletProvider, useSuiClientContext } from "@mysten/dapp-kit";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { useState } from "react";
-import { networkConfig } from "./networkConfig";
+import { networkConfig, useNetworkVariable } from "./networkConfig";
+import { setStorageScope } from "./utils/storage";
+import { TransactionConfirmProvider } from "./components/common/TransactionConfirmDialog";
+
+// Keep client storage namespaced by the selected network and its package ID
+function StorageScope({ children }: { children: React.ReactNode }) {
+  const { network } = useSuiClientContext();
+  const packageId = useNetworkVariable("shallotPackageId");
+
+  // Set during render so children read from the right namespace on their first render
+  setStorageScope(network, packageId);
+
+  return <>{children}</>;
+}
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(() => new QueryClient({
@@ -18,9 +31,13 @@ export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <QueryClientProvider client={queryClient}>
       <SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
-        <WalletProvider autoConnect>
-          {children}
-        </WalletProvider>
+        <StorageScope>
+          <WalletProvider autoConnect>
+            <TransactionConfirmProvider>
+              {children}
+            </TransactionConfirmProvider>
+          </WalletProvider>
+        </StorageScope>
       </SuiClientProvider>
     </QueryClientProvider>
   );
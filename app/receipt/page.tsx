@@ -0,0 +1,140 @@
+'use client'
+import { useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, XCircle, Upload } from "lucide-react";
+import { ErrorMessage } from "../components/common/ErrorMessage";
+import { ButtonLoading } from "../components/common/LoadingSpinner";
+import { usePoll } from "../hooks/usePoll";
+import { formatAddress, formatDate, formatObjectId } from "../utils/formatting";
+import {
+  parseBallotReceipt,
+  type BallotReceipt,
+  type ReceiptVerification
+} from "../utils/receipt";
+
+export default function VerifyReceipt() {
+  const { isLoading, error, verifyReceipt, clearError, network, currentAccount } = usePoll();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [receiptText, setReceiptText] = useState("");
+  const [receipt, setReceipt] = useState<BallotReceipt | null>(null);
+  const [verification, setVerification] = useState<ReceiptVerification | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setReceiptText(await file.text());
+    setReceipt(null);
+    setVerification(null);
+  };
+
+  const handleVerify = async () => {
+    setParseError(null);
+    setVerification(null);
+
+    let parsed: BallotReceipt;
+    try {
+      parsed = parseBallotReceipt(receiptText);
+    } catch (err: any) {
+      setParseError(err.message);
+      return;
+    }
+
+    setReceipt(parsed);
+    try {
+      setVerification(await verifyReceipt(parsed));
+    } catch (err) {
+      console.error("Receipt verification failed:", err);
+    }
+  };
+
+  return (
+    <div className="flex justify-center">
+      <div className="container mx-auto p-6 max-w-3xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900">Verify Ballot Receipt</CardTitle>
+            <p className="text-sm text-gray-600">
+              Checks that the ballot a receipt describes is on chain as recorded.
+              {currentAccount
+                ? ` The voter ID is also checked against ${formatAddress(currentAccount.address)}.`
+                : " Connect the wallet you voted with to also check that the voter ID is yours."}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && <ErrorMessage error={error} dismissible onDismiss={clearError} />}
+            {parseError && <ErrorMessage error={parseError} dismissible onDismiss={() => setParseError(null)} />}
+
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-1" />
+                Open Receipt
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleFile}
+                className="hidden"
+              />
+              <span className="text-xs text-gray-500">or paste it below</span>
+            </div>
+
+            <textarea
+              value={receiptText}
+              onChange={(e) => setReceiptText(e.target.value)}
+              rows={8}
+              placeholder='{ "version": 1, "pollId": "0x...", ... }'
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+
+            <Button
+              onClick={handleVerify}
+              disabled={isLoading || !receiptText.trim()}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <ButtonLoading isLoading={isLoading}>Verify Receipt</ButtonLoading>
+            </Button>
+
+            {receipt && receipt.network !== network && (
+              <p className="text-sm text-yellow-700">
+                This receipt is for {receipt.network}, but the app is connected to {network}. Switch networks to verify it.
+              </p>
+            )}
+
+            {receipt && verification && (
+              <div className="rounded-lg border border-gray-200 p-4 space-y-3 text-sm">
+                <div
+                  className={verification.valid ? "flex items-center font-medium text-green-700" : "flex items-center font-medium text-red-700"}
+                >
+                  {verification.valid ? <CheckCircle className="w-4 h-4 mr-2" /> : <XCircle className="w-4 h-4 mr-2" />}
+                  {verification.valid ? "Receipt verified" : "Receipt does not match the chain"}
+                </div>
+                <p className="text-gray-600">
+                  {receipt.choice ? "Yes" : "No"} on poll {formatObjectId(receipt.pollId)}, counted {formatDate(receipt.timestamp)}
+                </p>
+                <ul className="space-y-1">
+                  {verification.checks.map(check => (
+                    <li key={check.label} className="flex items-start">
+                      {check.passed
+                        ? <CheckCircle className="w-4 h-4 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+                        : <XCircle className="w-4 h-4 mr-2 mt-0.5 text-red-600 flex-shrink-0" />}
+                      <span>
+                        {check.label}
+                        {check.detail && <span className="text-gray-500"> · {check.detail}</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 // Forum related type definitions for Shallot system
 
 import { SuiObjectData } from "@mysten/sui/client";
+import { DEFAULT_GOVERNANCE } from "../constants";
 
 // Raw Forum data structure from smart contract
 export interface ForumFields {
@@ -21,6 +22,21 @@ export interface ForumFields {
   created_at: string;
 }
 
+// Raw CommitmentVerifier stored under the Forum's CommitmentVerifierKey
+export interface CommitmentVerifierFields {
+  public_key: number[];
+  salt: number[];
+  kdf_iterations: string;
+  created_at: string;
+}
+
+// Raw GovernanceConfig stored under the Forum's GovernanceConfigKey
+export interface GovernanceConfigFields {
+  quorum_percent: string;
+  threshold_numerator: string;
+  threshold_denominator: string;
+}
+
 // Processed Forum data for frontend use
 export interface Forum {
   id: string;
@@ -30,7 +46,27 @@ export interface Forum {
   memberCount: number;
   activePoll: string | null; // Poll ID if active, null if none
   createdAt: number; // timestamp in milliseconds
-  passwordHash: number[]; // for verification purposes
+  passwordHash: number[]; // for verification purposes; empty when joins use a commitment
+  commitment?: ForumCommitment | null; // loaded separately from the Forum's dynamic field
+  governance?: GovernanceConfig | null; // loaded separately; null means no quorum, simple majority
+}
+
+// Commitment verifier published by the creator: an ed25519 public key derived
+// client-side from PBKDF2(password, salt), so the password never goes on-chain
+export interface ForumCommitment {
+  publicKey: number[];
+  salt: number[];
+  kdfIterations: number;
+  createdAt: number;
+}
+
+// Quorum and pass threshold set by the creator, stored as a Forum dynamic field.
+// A poll passes when at least quorumPercent% of its member snapshot voted and
+// yes votes are at least thresholdNumerator / thresholdDenominator of the votes cast
+export interface GovernanceConfig {
+  quorumPercent: number;
+  thresholdNumerator: number;
+  thresholdDenominator: number;
 }
 
 // Forum creation form data
@@ -38,6 +74,7 @@ export interface CreateForumFormData {
   name: string;
   description: string;
   password: string;
+  governance?: GovernanceConfig; // omitted: no quorum, simple majority
 }
 
 // Forum creation transaction arguments
@@ -63,16 +100,23 @@ export interface ForumListItem {
   createdAt: number;
 }
 
-// Forum creation event data
+// Forum as served by the indexer API (no verifier data)
+export interface IndexedForum extends ForumListItem {
+  creator: string;
+  activePoll: string | null;
+  metadataUpdatedAt: number | null; // last name/description change by poll
+}
+
+// Forum creation event data (decoded, see utils/decoders.ts)
 export interface ForumCreatedEvent {
   forum_id: string;
   name: string;
   description: string;
   creator: string;
-  timestamp: string;
+  timestamp: number;
 }
 
-// Forum metadata updated event data
+// Forum metadata updated event data (decoded)
 export interface ForumMetadataUpdatedEvent {
   forum_id: string;
   poll_id: string;
@@ -80,7 +124,7 @@ export interface ForumMetadataUpdatedEvent {
   new_name: string;
   old_description: string;
   new_description: string;
-  timestamp: string;
+  timestamp: number;
 }
 
 // Forum query filters
@@ -100,6 +144,7 @@ export interface ForumValidationResult {
     name?: string;
     description?: string;
     password?: string;
+    governance?: string;
   };
 }
 
@@ -169,4 +214,24 @@ export function forumToListItem(forum: Forum): ForumListItem {
     hasActivePoll: forum.activePoll !== null,
     createdAt: forum.createdAt,
   };
-}
\ No newline at end of file
+}
+
+// Helper function to apply query filters to a list of forums
+export function filterForums(forums: Forum[], filters: ForumQueryFilters = {}): Forum[] {
+  return forums.filter(forum => {
+    if (filters.creator && forum.creator !== filters.creator) return false;
+    if (filters.hasActivePoll !== undefined && (forum.activePoll !== null) !== filters.hasActivePoll) return false;
+    if (filters.minMembers !== undefined && forum.memberCount < filters.minMembers) return false;
+    if (filters.maxMembers !== undefined && forum.memberCount > filters.maxMembers) return false;
+    if (filters.createdAfter !== undefined && forum.createdAt < filters.createdAfter) return false;
+    if (filters.createdBefore !== undefined && forum.createdAt > filters.createdBefore) return false;
+    return true;
+  });
+}
+
+// Helper function to check if a governance config is the rule forums get without one
+export function isDefaultGovernance(governance: GovernanceConfig): boolean {
+  return governance.quorumPercent === DEFAULT_GOVERNANCE.quorumPercent &&
+    governance.thresholdNumerator * DEFAULT_GOVERNANCE.thresholdDenominator ===
+      DEFAULT_GOVERNANCE.thresholdNumerator * governance.thresholdDenominator;
+}
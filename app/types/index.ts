@@ -3,11 +3,16 @@
 // Forum types
 export type {
   ForumFields,
+  CommitmentVerifierFields,
+  GovernanceConfigFields,
   Forum,
+  ForumCommitment,
+  GovernanceConfig,
   CreateForumFormData,
   CreateForumArgs,
   UpdateForumFormData,
   ForumListItem,
+  IndexedForum,
   ForumCreatedEvent,
   ForumMetadataUpdatedEvent,
   ForumQueryFilters,
@@ -19,6 +24,8 @@ export {
   isForumData,
   processForum,
   forumToListItem,
+  filterForums,
+  isDefaultGovernance,
 } from './forum';
 
 // Membership types
@@ -44,6 +51,7 @@ export {
   processMembership,
   processMemberRegistry,
   addressToMemberInfo,
+  membershipToUserItem,
   isUserMemberOfForum,
 } from './membership';
 
@@ -51,6 +59,8 @@ export {
 export type {
   PollFields,
   BallotFields,
+  SecretBallotFields,
+  VoteCommitmentFields,
   VoteRegistryFields,
   Poll,
   Ballot,
@@ -60,10 +70,12 @@ export type {
   VoteArgs,
   PollResults,
   PollListItem,
+  IndexedPoll,
   VoteChoice,
   PollCreatedEvent,
   VoteReceivedEvent,
   PollExecutedEvent,
+  PollExecutionFailedEvent,
   PollValidationResult,
   UserVoteStatus,
   PollStats,
@@ -73,11 +85,17 @@ export {
   PollStatus,
   isPollData,
   isBallotData,
+  isVoteRegistryData,
   processPoll,
+  processBallot,
+  processVoteRegistry,
   getPollStatus,
   calculatePollResults,
+  evaluatePollOutcome,
   pollToListItem,
   isPollActive,
+  isSecretBallot,
+  isRevealPhase,
   getTimeRemaining,
 } from './poll';
 
@@ -94,6 +112,49 @@ export interface TransactionResult {
   objectId?: string;
 }
 
+// Per-operation transaction results; created objects are matched by Move type
+export interface CreateForumResult extends TransactionResult {
+  forumId?: ObjectId;
+  registryId?: ObjectId; // only when created in the same transaction
+}
+
+export interface CreateMemberRegistryResult extends TransactionResult {
+  registryId?: ObjectId;
+}
+
+export interface JoinForumResult extends TransactionResult {
+  membershipId?: ObjectId;
+}
+
+export interface CreatePollResult extends TransactionResult {
+  pollId?: ObjectId;
+  voteRegistryId?: ObjectId;
+}
+
+export interface CreateVoteRegistryResult extends TransactionResult {
+  voteRegistryId?: ObjectId;
+}
+
+export interface VoteResult extends TransactionResult {
+  ballotId?: ObjectId;
+}
+
+// Dry-run outcome shown before the wallet is asked to sign
+export interface SimulatedObjectChange {
+  objectId: ObjectId;
+  objectType: string;
+  owner: string; // "you", "shared", "immutable", an address or "object <id>"
+}
+
+export interface TransactionSimulation {
+  success: boolean;
+  error?: Error;
+  gasCost: bigint; // net MIST: computation + storage - rebate
+  gasBudget: bigint;
+  created: SimulatedObjectChange[];
+  mutated: SimulatedObjectChange[];
+}
+
 export interface LoadingState {
   isLoading: boolean;
   error?: string;
@@ -123,6 +184,7 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
     limit: number;
     offset: number;
     hasMore: boolean;
+    nextCursor?: string | null; // opaque cursor for the next page, when cursor-paginated
   };
 }
 
@@ -221,7 +283,14 @@ export {
   MAINNET_SHALLOT_PACKAGE_ID,
   MODULES,
   FUNCTIONS,
-  DEFAULT_GAS_BUDGET,
+  SIMULATION_GAS_BUDGET,
+  GAS_BUDGET_BUFFER_PERCENT,
+  COMMITMENT_KDF_ITERATIONS,
+  COMMITMENT_SALT_BYTES,
+  VOTE_SALT_BYTES,
+  DEFAULT_REVEAL_DURATION_HOURS,
+  DEFAULT_GOVERNANCE,
+  PASS_THRESHOLDS,
   TRANSACTION_TIMEOUT,
   EVENT_TYPES,
   VALIDATION,
@@ -1,6 +1,7 @@
 // Membership related type definitions for Shallot system
 
 import { SuiObjectData } from "@mysten/sui/client";
+import type { Forum } from "./forum";
 
 // Raw Membership NFT data structure from smart contract
 export interface MembershipFields {
@@ -43,6 +44,7 @@ export interface Membership {
 export interface MemberRegistry {
   id: string;
   forumId: string;
+  membersTableId: string; // Table<address, bool> for direct membership lookups
   memberList: string[]; // array of member addresses
   totalCount: number;
 }
@@ -66,13 +68,13 @@ export interface MemberInfo {
   membershipId?: string; // Optional, for the user's own memberships
 }
 
-// Member joined event data
+// Member joined event data (decoded, see utils/decoders.ts)
 export interface MemberJoinedEvent {
   forum_id: string;
   member: string;
   membership_id: string;
-  total_members: string;
-  timestamp: string;
+  total_members: number;
+  timestamp: number;
 }
 
 // Membership verification result
@@ -100,6 +102,7 @@ export interface UserMembershipItem {
   hasActivePoll: boolean;
 }
 
+
 // Member statistics for a forum
 export interface MemberStats {
   totalMembers: number;
@@ -178,6 +181,7 @@ export function processMemberRegistry(data: SuiObjectData): MemberRegistry | nul
   return {
     id: fields.id.id,
     forumId: fields.forum_id,
+    membersTableId: fields.members.fields.id.id,
     memberList: fields.member_list,
     totalCount: parseInt(fields.total_count),
   };
@@ -195,6 +199,21 @@ export function addressToMemberInfo(
   };
 }
 
+// Helper function to combine a Membership NFT with its forum's live state
+export function membershipToUserItem(
+  membership: Membership,
+  forum: Forum | null
+): UserMembershipItem {
+  return {
+    membershipId: membership.id,
+    forumId: membership.forumId,
+    forumName: forum?.name || "Unknown forum",
+    joinedAt: membership.joinedAt,
+    memberCount: forum?.memberCount ?? 0,
+    hasActivePoll: !!forum?.activePoll,
+  };
+}
+
 // Helper function to check if user is member of specific forum
 export function isUserMemberOfForum(
   userAddress: string,
@@ -1,6 +1,8 @@
 // Poll and voting related type definitions for Shallot system
 
 import { SuiObjectData } from "@mysten/sui/client";
+import { DEFAULT_GOVERNANCE } from "../constants";
+import type { GovernanceConfig } from "./forum";
 
 // Raw Poll data structure from smart contract
 export interface PollFields {
@@ -32,6 +34,17 @@ export interface BallotFields {
   timestamp: string;
 }
 
+// Raw SecretBallot settings stored under the Poll's SecretBallotKey
+export interface SecretBallotFields {
+  reveal_end_time: string;
+}
+
+// Raw VoteCommitment stored in a VoteRegistry under each voter's VoteCommitmentKey
+export interface VoteCommitmentFields {
+  commitment: number[];
+  revealed: boolean;
+}
+
 // Raw VoteRegistry data structure from smart contract
 export interface VoteRegistryFields {
   id: {
@@ -65,6 +78,8 @@ export interface Poll {
   noVotes: number;
   memberSnapshot: number; // total members when poll was created
   isExecuted: boolean;
+  revealEndTime?: number | null; // secret ballots only, loaded from the Poll's dynamic field
+  governance?: GovernanceConfig | null; // the forum's quorum and pass threshold, loaded separately
 }
 
 // Processed Ballot for frontend use
@@ -80,6 +95,7 @@ export interface Ballot {
 export interface VoteRegistry {
   id: string;
   pollId: string;
+  votedAddressesId: string; // Table object ID, used for has-voted lookups
   totalVotes: number;
 }
 
@@ -90,6 +106,8 @@ export interface CreatePollFormData {
   proposedName: string;
   proposedDescription: string;
   duration: number; // duration in hours
+  secretBallot?: boolean; // commit-reveal: tallies stay hidden until voting ends
+  revealDuration?: number; // reveal window in hours, secret ballots only
 }
 
 // Create poll transaction arguments
@@ -101,6 +119,7 @@ export interface CreatePollArgs {
   newName: string;
   newDescription: string;
   durationMs: number; // duration in milliseconds
+  revealDurationMs?: number; // set for secret ballots
 }
 
 // Vote transaction arguments
@@ -118,13 +137,20 @@ export interface PollResults {
   totalVotes: number;
   totalEligibleVoters: number; // member snapshot
   participationRate: number; // percentage
+  quorumMet: boolean;
+  thresholdMet: boolean;
   passed: boolean;
   executed: boolean;
+  governance: GovernanceConfig; // rule the results were computed with
+  quorumVotes: number; // votes needed for quorum
+  votesToQuorum: number; // more votes needed to reach quorum
+  yesVotesToPass: number | null; // more yes votes needed to meet the threshold; null if none can
 }
 
 // Poll status enum
 export enum PollStatus {
   ACTIVE = "active",
+  REVEAL = "reveal", // secret ballot voting closed, votes being revealed
   ENDED = "ended", 
   EXECUTED = "executed",
   FAILED = "failed"
@@ -141,6 +167,25 @@ export interface PollListItem {
   passed: boolean;
 }
 
+// Poll as served by the indexer API; tallies are known once the poll is executed
+export interface IndexedPoll {
+  id: string;
+  forumId: string;
+  title: string;
+  description: string;
+  creator: string;
+  startTime: number;
+  endTime: number;
+  createdAt: number;
+  status: PollStatus;
+  voteCount: number;
+  yesVotes: number | null;
+  noVotes: number | null;
+  passed: boolean | null;
+  finishedAt: number | null;
+  failureReason: string | null;
+}
+
 // Vote choice for UI
 export interface VoteChoice {
   value: boolean;
@@ -148,34 +193,42 @@ export interface VoteChoice {
   description?: string;
 }
 
-// Poll created event data
+// Poll created event data (decoded, see utils/decoders.ts)
 export interface PollCreatedEvent {
   poll_id: string;
   forum_id: string;
   title: string;
   description: string;
   creator: string;
-  start_time: string;
-  end_time: string;
-  timestamp: string;
+  start_time: number;
+  end_time: number;
+  timestamp: number;
 }
 
-// Vote received event data
+// Vote received event data (decoded)
 export interface VoteReceivedEvent {
   poll_id: string;
   anonymous_voter_id: number[];
-  timestamp: string;
+  timestamp: number;
 }
 
-// Poll executed event data
+// Poll executed event data (decoded); emitted for both passed and rejected polls
 export interface PollExecutedEvent {
   poll_id: string;
   forum_id: string;
-  yes_votes: string;
-  no_votes: string;
-  total_participants: string;
+  yes_votes: number;
+  no_votes: number;
+  total_participants: number;
   passed: boolean;
-  timestamp: string;
+  timestamp: number;
+}
+
+// Poll execution failed event data (decoded)
+export interface PollExecutionFailedEvent {
+  poll_id: string;
+  forum_id: string;
+  error_message: string;
+  timestamp: number;
 }
 
 // Poll validation result
@@ -187,6 +240,7 @@ export interface PollValidationResult {
     proposedName?: string;
     proposedDescription?: string;
     duration?: string;
+    revealDuration?: string; // secret ballots only
   };
 }
 
@@ -196,6 +250,9 @@ export interface UserVoteStatus {
   canVote: boolean; // is member and poll is active
   voteChoice?: boolean; // user's vote if they voted
   reason?: string; // reason why they can't vote (not member, poll ended, etc.)
+  canReveal?: boolean; // secret ballot: committed, reveal window open, salt stored locally
+  hasRevealed?: boolean; // secret ballot: commitment already revealed
+  needsVoteRegistry?: boolean; // poll is active but its VoteRegistry was never created
 }
 
 // Poll statistics
@@ -241,6 +298,23 @@ export function isBallotData(obj: SuiObjectData): obj is SuiObjectData & {
   );
 }
 
+// Type guard to check if object is VoteRegistry data
+export function isVoteRegistryData(obj: SuiObjectData): obj is SuiObjectData & {
+  content: {
+    dataType: "moveObject";
+    fields: VoteRegistryFields;
+    type: string;
+  };
+} {
+  return (
+    obj.content?.dataType === "moveObject" &&
+    obj.content.fields &&
+    "poll_id" in obj.content.fields &&
+    "voted_addresses" in obj.content.fields &&
+    "total_votes" in obj.content.fields
+  );
+}
+
 // Helper function to convert raw poll data to processed poll
 export function processPoll(data: SuiObjectData): Poll | null {
   if (!isPollData(data)) {
@@ -266,28 +340,94 @@ export function processPoll(data: SuiObjectData): Poll | null {
   };
 }
 
+// Helper function to convert raw ballot data to processed ballot
+export function processBallot(data: SuiObjectData): Ballot | null {
+  if (!isBallotData(data)) {
+    return null;
+  }
+
+  const fields = data.content.fields;
+
+  return {
+    id: fields.id.id,
+    pollId: fields.poll_id,
+    anonymousVoterId: fields.anonymous_voter_id,
+    vote: fields.vote,
+    timestamp: parseInt(fields.timestamp),
+  };
+}
+
+// Helper function to convert raw vote registry data to processed registry
+export function processVoteRegistry(data: SuiObjectData): VoteRegistry | null {
+  if (!isVoteRegistryData(data)) {
+    return null;
+  }
+
+  const fields = data.content.fields;
+
+  return {
+    id: fields.id.id,
+    pollId: fields.poll_id,
+    votedAddressesId: fields.voted_addresses.fields.id.id,
+    totalVotes: parseInt(fields.total_votes),
+  };
+}
+
 // Helper function to get poll status
 export function getPollStatus(poll: Poll, currentTime: number): PollStatus {
   if (poll.isExecuted) {
     return PollStatus.EXECUTED;
   }
   
+  if (isRevealPhase(poll, currentTime)) {
+    return PollStatus.REVEAL;
+  }
+  
   if (currentTime >= poll.endTime) {
-    const totalVotes = poll.yesVotes + poll.noVotes;
-    const passed = poll.yesVotes > poll.noVotes && totalVotes > 0;
-    return passed ? PollStatus.ENDED : PollStatus.FAILED;
+    return calculatePollResults(poll).passed ? PollStatus.ENDED : PollStatus.FAILED;
   }
   
   return PollStatus.ACTIVE;
 }
 
+// Helper function to apply a forum's quorum and pass threshold to a tally
+// Mirrors poll::get_poll_outcome, which decides the result on execution
+export function evaluatePollOutcome(
+  yesVotes: number,
+  noVotes: number,
+  memberSnapshot: number,
+  governance: GovernanceConfig = DEFAULT_GOVERNANCE
+): { quorumMet: boolean; thresholdMet: boolean; passed: boolean } {
+  const totalVotes = yesVotes + noVotes;
+  const quorumMet = totalVotes * 100 >= governance.quorumPercent * memberSnapshot;
+  const thresholdMet = yesVotes > noVotes &&
+    yesVotes * governance.thresholdDenominator >= governance.thresholdNumerator * totalVotes;
+
+  return { quorumMet, thresholdMet, passed: totalVotes > 0 && quorumMet && thresholdMet };
+}
+
+// Helper function to count the yes votes a tally needs to meet its threshold
+// With yes = y + k: y + k > no and (y + k) * (den - num) >= num * no
+function yesVotesToThreshold(yesVotes: number, noVotes: number, governance: GovernanceConfig): number | null {
+  const { thresholdNumerator: num, thresholdDenominator: den } = governance;
+  let requiredYes = noVotes + 1;
+  if (den > num) {
+    requiredYes = Math.max(requiredYes, Math.ceil((num * noVotes) / (den - num)));
+  } else if (noVotes > 0) {
+    return null; // unanimous, and someone already voted no
+  }
+  return Math.max(0, requiredYes - yesVotes);
+}
+
 // Helper function to calculate poll results
 export function calculatePollResults(poll: Poll): PollResults {
+  const governance = poll.governance ?? DEFAULT_GOVERNANCE;
   const totalVotes = poll.yesVotes + poll.noVotes;
   const participationRate = poll.memberSnapshot > 0 
     ? (totalVotes / poll.memberSnapshot) * 100 
     : 0;
-  const passed = poll.yesVotes > poll.noVotes && totalVotes > 0;
+  const outcome = evaluatePollOutcome(poll.yesVotes, poll.noVotes, poll.memberSnapshot, governance);
+  const quorumVotes = Math.ceil((governance.quorumPercent * poll.memberSnapshot) / 100);
 
   return {
     yesVotes: poll.yesVotes,
@@ -295,8 +435,12 @@ export function calculatePollResults(poll: Poll): PollResults {
     totalVotes,
     totalEligibleVoters: poll.memberSnapshot,
     participationRate,
-    passed,
+    ...outcome,
     executed: poll.isExecuted,
+    governance,
+    quorumVotes,
+    votesToQuorum: Math.max(0, quorumVotes - totalVotes),
+    yesVotesToPass: yesVotesToThreshold(poll.yesVotes, poll.noVotes, governance),
   };
 }
 
@@ -320,6 +464,19 @@ export function isPollActive(poll: Poll, currentTime: number): boolean {
   return currentTime >= poll.startTime && currentTime < poll.endTime && !poll.isExecuted;
 }
 
+// Helper function to check if poll is a commit-reveal secret ballot
+export function isSecretBallot(poll: Poll): boolean {
+  return poll.revealEndTime != null;
+}
+
+// Helper function to check if a secret ballot is accepting reveals
+export function isRevealPhase(poll: Poll, currentTime: number): boolean {
+  return poll.revealEndTime != null &&
+    currentTime >= poll.endTime &&
+    currentTime < poll.revealEndTime &&
+    !poll.isExecuted;
+}
+
 // Helper function to get time remaining for poll
 export function getTimeRemaining(poll: Poll, currentTime: number): number {
   if (currentTime >= poll.endTime) {
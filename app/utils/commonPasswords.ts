@@ -0,0 +1,25 @@
+// Common passwords for Shallot system
+//
+// Most frequent entries of public breach corpora. A forum whose password is on
+// this list can be joined by anyone who hashes the list, since hashes are public.
+
+export const COMMON_PASSWORDS: readonly string[] = [
+  "123456", "password", "12345678", "qwerty", "123456789", "12345", "1234", "111111",
+  "1234567", "dragon", "123123", "baseball", "abc123", "football", "monkey", "letmein",
+  "696969", "shadow", "master", "666666", "qwertyuiop", "123321", "mustang", "1234567890",
+  "michael", "654321", "superman", "1qaz2wsx", "7777777", "121212", "000000", "qazwsx",
+  "123qwe", "killer", "trustno1", "jordan", "jennifer", "zxcvbnm", "asdfgh", "hunter",
+  "buster", "soccer", "harley", "batman", "andrew", "tigger", "sunshine", "iloveyou",
+  "2000", "charlie", "robert", "thomas", "hockey", "ranger", "daniel", "starwars",
+  "klaster", "112233", "george", "computer", "michelle", "jessica", "pepper", "1111",
+  "zxcvbn", "555555", "11111111", "131313", "freedom", "777777", "pass", "maggie",
+  "159753", "aaaaaa", "ginger", "princess", "joshua", "cheese", "amanda", "summer",
+  "love", "ashley", "nicole", "chelsea", "biteme", "matthew", "access", "yankees",
+  "987654321", "dallas", "austin", "thunder", "taylor", "matrix", "admin", "admin123",
+  "password1", "password123", "passw0rd", "p@ssw0rd", "Password1", "Password123", "welcome",
+  "welcome1", "login", "root", "toor", "test", "test123", "guest", "changeme",
+  "secret", "default", "qwerty123", "1q2w3e4r", "1q2w3e", "q1w2e3r4", "asdf", "asdfasdf",
+  "asdf1234", "zaq12wsx", "abcd1234", "abcdef", "abc", "a123456", "aa123456", "qwe123",
+  "000000000", "88888888", "11111", "123", "12341234", "987654", "1111111", "123654",
+  "sui", "suisui", "shallot", "forum", "vote", "dao", "crypto", "bitcoin",
+];
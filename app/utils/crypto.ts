@@ -0,0 +1,152 @@
+// Password hashing and commitment proofs for Shallot system
+//
+// Mirrors `verifier.move`: password forums store `sha2_256` of the password's
+// UTF-8 bytes; commitment forums store an ed25519 public key derived from the
+// password, and joiners sign their own address with it. Also mirrors the
+// secret ballot commitment in `ballot.move`. Uses WebCrypto, available in
+// browsers and Node 20+.
+
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { fromHex, normalizeSuiAddress } from "@mysten/sui/utils";
+import { COMMITMENT_KDF_ITERATIONS, COMMITMENT_SALT_BYTES } from "../constants";
+import type { ForumCommitment } from "../types";
+
+// ===== Password Hashes =====
+
+/**
+ * SHA-256 of a string's UTF-8 bytes, as stored in `SimplePasswordVerifier.password_hash`
+ */
+export async function hashPassword(password: string): Promise<number[]> {
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest));
+}
+
+/**
+ * Compare two byte arrays
+ */
+export function hashesEqual(a: ArrayLike<number>, b: ArrayLike<number>): boolean {
+  if (a.length !== b.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
+
+/**
+ * Whether a password matches a forum's stored hash, with the same rules as `verifier::verify_user`
+ */
+export async function verifyPasswordHash(password: string, passwordHash: ArrayLike<number>): Promise<boolean> {
+  if (!password) return false;
+  return hashesEqual(await hashPassword(password), passwordHash);
+}
+
+// ===== Commitments =====
+
+// Same bytes as `verifier::join_proof_message` prefixes
+const JOIN_PROOF_DOMAIN = new TextEncoder().encode("shallot::join");
+
+/**
+ * Random salt for a new commitment
+ */
+export function generateSalt(length: number = COMMITMENT_SALT_BYTES): number[] {
+  return Array.from(globalThis.crypto.getRandomValues(new Uint8Array(length)));
+}
+
+/**
+ * ed25519 keypair whose seed is PBKDF2-SHA256(password, salt)
+ */
+export async function deriveForumKeypair(
+  password: string,
+  salt: ArrayLike<number>,
+  iterations: number
+): Promise<Ed25519Keypair> {
+  const subtle = globalThis.crypto.subtle;
+  const key = await subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+  const seed = await subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: new Uint8Array(Array.from(salt)), iterations },
+    key,
+    256
+  );
+  return Ed25519Keypair.fromSecretKey(new Uint8Array(seed));
+}
+
+/**
+ * Commitment for a new forum's password, with a fresh salt
+ */
+export async function createForumCommitment(
+  password: string,
+  iterations: number = COMMITMENT_KDF_ITERATIONS
+): Promise<Omit<ForumCommitment, "createdAt">> {
+  const salt = generateSalt();
+  const keypair = await deriveForumKeypair(password, salt, iterations);
+  return {
+    publicKey: Array.from(keypair.getPublicKey().toRawBytes()),
+    salt,
+    kdfIterations: iterations,
+  };
+}
+
+/**
+ * Whether a password derives a forum's committed public key
+ */
+export async function verifyCommitmentPassword(
+  password: string,
+  commitment: Pick<ForumCommitment, "publicKey" | "salt" | "kdfIterations">
+): Promise<boolean> {
+  if (!password) return false;
+  const keypair = await deriveForumKeypair(password, commitment.salt, commitment.kdfIterations);
+  return hashesEqual(keypair.getPublicKey().toRawBytes(), commitment.publicKey);
+}
+
+/**
+ * Message signed to join a forum: domain || forum ID || member address
+ */
+export function joinProofMessage(forumId: string, member: string): Uint8Array {
+  const forumBytes = fromHex(normalizeSuiAddress(forumId));
+  const memberBytes = fromHex(normalizeSuiAddress(member));
+
+  const message = new Uint8Array(JOIN_PROOF_DOMAIN.length + forumBytes.length + memberBytes.length);
+  message.set(JOIN_PROOF_DOMAIN, 0);
+  message.set(forumBytes, JOIN_PROOF_DOMAIN.length);
+  message.set(memberBytes, JOIN_PROOF_DOMAIN.length + forumBytes.length);
+  return message;
+}
+
+/**
+ * Proof for `membership::join_forum_with_proof`, valid only for `member`
+ */
+export async function createJoinProof(
+  password: string,
+  commitment: Pick<ForumCommitment, "salt" | "kdfIterations">,
+  forumId: string,
+  member: string
+): Promise<number[]> {
+  const keypair = await deriveForumKeypair(password, commitment.salt, commitment.kdfIterations);
+  return Array.from(await keypair.sign(joinProofMessage(forumId, member)));
+}
+
+// ===== Vote Commitments =====
+
+/**
+ * Same bytes as `ballot::vote_commitment`: sha2_256(poll ID || voter || choice || salt)
+ */
+export async function computeVoteCommitment(
+  pollId: string,
+  voter: string,
+  choice: boolean,
+  salt: ArrayLike<number>
+): Promise<number[]> {
+  const pollBytes = fromHex(normalizeSuiAddress(pollId));
+  const voterBytes = fromHex(normalizeSuiAddress(voter));
+
+  const data = new Uint8Array(pollBytes.length + voterBytes.length + 1 + salt.length);
+  data.set(pollBytes, 0);
+  data.set(voterBytes, pollBytes.length);
+  data[pollBytes.length + voterBytes.length] = choice ? 1 : 0; // BCS bool
+  data.set(Array.from(salt), pollBytes.length + voterBytes.length + 1);
+
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest));
+}
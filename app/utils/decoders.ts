@@ -0,0 +1,245 @@
+// Runtime decoding of Move event payloads for Shallot system
+//
+// `parsedJson` is untyped RPC output: u64 fields arrive as decimal strings and a
+// malformed or foreign event would otherwise leak `undefined` into the UI.
+
+import type { SuiEvent } from "@mysten/sui/client";
+import { EVENT_TYPES, MODULES } from "../constants";
+import { encodeEventCursor } from "./sui";
+import type {
+  ForumCreatedEvent,
+  ForumMetadataUpdatedEvent,
+  MemberJoinedEvent,
+  PollCreatedEvent,
+  VoteReceivedEvent,
+  PollExecutedEvent,
+  PollExecutionFailedEvent
+} from "../types";
+
+/**
+ * An event whose payload does not match its expected schema
+ */
+export class EventDecodeError extends Error {
+  constructor(
+    readonly eventId: string,
+    readonly eventType: string,
+    readonly reason: string
+  ) {
+    super(`Malformed ${eventType} event ${eventId}: ${reason}`);
+    this.name = "EventDecodeError";
+  }
+}
+
+// ===== Schema Combinators =====
+
+// Decode a value at a field path, throwing a plain Error with the reason
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+export const string: Decoder<string> = (value, path) => {
+  if (typeof value !== "string") {
+    throw new Error(`${path} must be a string`);
+  }
+  return value;
+};
+
+export const bool: Decoder<boolean> = (value, path) => {
+  if (typeof value !== "boolean") {
+    throw new Error(`${path} must be a boolean`);
+  }
+  return value;
+};
+
+/**
+ * Sui address or object ID (`0x` + hex)
+ */
+export const id: Decoder<string> = (value, path) => {
+  const text = string(value, path);
+  if (!/^0x[0-9a-fA-F]{1,64}$/.test(text)) {
+    throw new Error(`${path} must be a Sui address`);
+  }
+  return text;
+};
+
+/**
+ * u64 as bigint; RPC JSON encodes u64 as a decimal string
+ */
+export const u64BigInt: Decoder<bigint> = (value, path) => {
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) {
+    return BigInt(value);
+  }
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new Error(`${path} must be a u64`);
+  }
+  const parsed = BigInt(value);
+  if (parsed > BigInt("18446744073709551615")) {
+    throw new Error(`${path} is out of u64 range`);
+  }
+  return parsed;
+};
+
+/**
+ * u64 as number, for counts and millisecond timestamps that fit exactly
+ */
+export const u64: Decoder<number> = (value, path) => {
+  const parsed = u64BigInt(value, path);
+  if (parsed > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error(`${path} is too large for a number`);
+  }
+  return Number(parsed);
+};
+
+/**
+ * vector<u8> as an array of bytes
+ */
+export const bytes: Decoder<number[]> = (value, path) => {
+  if (!Array.isArray(value)) {
+    throw new Error(`${path} must be a byte array`);
+  }
+  return value.map((byte, index) => {
+    if (!Number.isInteger(byte) || byte < 0 || byte > 255) {
+      throw new Error(`${path}[${index}] must be a byte`);
+    }
+    return byte as number;
+  });
+};
+
+/**
+ * Object with a decoder per field; unknown fields are dropped
+ */
+export function object<T>(fields: { [K in keyof T]: Decoder<T[K]> }): Decoder<T> {
+  return (value, path) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new Error(`${path} must be an object`);
+    }
+    const result = {} as T;
+    for (const key of Object.keys(fields) as (keyof T)[]) {
+      result[key] = fields[key]((value as Record<string, unknown>)[key as string], `${path}.${String(key)}`);
+    }
+    return result;
+  };
+}
+
+// ===== Event Schemas =====
+
+const forumCreatedSchema = object<ForumCreatedEvent>({
+  forum_id: id,
+  name: string,
+  description: string,
+  creator: id,
+  timestamp: u64,
+});
+
+const memberJoinedSchema = object<MemberJoinedEvent>({
+  forum_id: id,
+  member: id,
+  membership_id: id,
+  total_members: u64,
+  timestamp: u64,
+});
+
+const pollCreatedSchema = object<PollCreatedEvent>({
+  poll_id: id,
+  forum_id: id,
+  title: string,
+  description: string,
+  creator: id,
+  start_time: u64,
+  end_time: u64,
+  timestamp: u64,
+});
+
+const voteReceivedSchema = object<VoteReceivedEvent>({
+  poll_id: id,
+  anonymous_voter_id: bytes,
+  timestamp: u64,
+});
+
+const pollExecutedSchema = object<PollExecutedEvent>({
+  poll_id: id,
+  forum_id: id,
+  yes_votes: u64,
+  no_votes: u64,
+  total_participants: u64,
+  passed: bool,
+  timestamp: u64,
+});
+
+const pollExecutionFailedSchema = object<PollExecutionFailedEvent>({
+  poll_id: id,
+  forum_id: id,
+  error_message: string,
+  timestamp: u64,
+});
+
+const forumMetadataUpdatedSchema = object<ForumMetadataUpdatedEvent>({
+  forum_id: id,
+  poll_id: id,
+  old_name: string,
+  new_name: string,
+  old_description: string,
+  new_description: string,
+  timestamp: u64,
+});
+
+// ===== Event Decoders =====
+
+/**
+ * Decode an event's payload, checking it is the expected Shallot event type
+ */
+function decodeEvent<T>(event: SuiEvent, eventType: string, schema: Decoder<T>): T {
+  const eventId = event?.id ? encodeEventCursor(event.id) : "unknown";
+  const [, module, name] = String(event?.type || "").split("::");
+  if (module !== MODULES.EVENTS || name !== eventType) {
+    throw new EventDecodeError(eventId, eventType, `unexpected event type ${event?.type}`);
+  }
+
+  try {
+    return schema(event.parsedJson, "parsedJson");
+  } catch (err: any) {
+    throw new EventDecodeError(eventId, eventType, err.message);
+  }
+}
+
+export function decodeForumCreatedEvent(event: SuiEvent): ForumCreatedEvent {
+  return decodeEvent(event, EVENT_TYPES.FORUM_CREATED, forumCreatedSchema);
+}
+
+export function decodeMemberJoinedEvent(event: SuiEvent): MemberJoinedEvent {
+  return decodeEvent(event, EVENT_TYPES.MEMBER_JOINED, memberJoinedSchema);
+}
+
+export function decodePollCreatedEvent(event: SuiEvent): PollCreatedEvent {
+  return decodeEvent(event, EVENT_TYPES.POLL_CREATED, pollCreatedSchema);
+}
+
+export function decodeVoteReceivedEvent(event: SuiEvent): VoteReceivedEvent {
+  return decodeEvent(event, EVENT_TYPES.VOTE_RECEIVED, voteReceivedSchema);
+}
+
+export function decodePollExecutedEvent(event: SuiEvent): PollExecutedEvent {
+  return decodeEvent(event, EVENT_TYPES.POLL_EXECUTED, pollExecutedSchema);
+}
+
+export function decodePollExecutionFailedEvent(event: SuiEvent): PollExecutionFailedEvent {
+  return decodeEvent(event, EVENT_TYPES.POLL_EXECUTION_FAILED, pollExecutionFailedSchema);
+}
+
+export function decodeForumMetadataUpdatedEvent(event: SuiEvent): ForumMetadataUpdatedEvent {
+  return decodeEvent(event, EVENT_TYPES.FORUM_METADATA_UPDATED, forumMetadataUpdatedSchema);
+}
+
+/**
+ * Decode a list of events, leaving out (and logging) the malformed ones
+ */
+export function decodeEvents<T>(events: SuiEvent[], decoder: (event: SuiEvent) => T): T[] {
+  const decoded: T[] = [];
+  for (const event of events) {
+    try {
+      decoded.push(decoder(event));
+    } catch (err) {
+      if (!(err instanceof EventDecodeError)) throw err;
+      console.warn(`⚠️ Skipping ${err.message}`);
+    }
+  }
+  return decoded;
+}
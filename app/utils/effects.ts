@@ -0,0 +1,164 @@
+// Typed transaction effects parsing for Shallot system
+//
+// Created objects are matched by their Move struct type from `objectChanges`,
+// never by their position in `effects.created`. Move types keep the address of the
+// package that first defined them, so the configured package ID must be that original
+// publication; the app does not target upgraded package IDs.
+
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { MODULES } from "../constants";
+import { normalizeAddress } from "./sui";
+import type {
+  ObjectId,
+  TransactionResult,
+  CreateForumResult,
+  CreateMemberRegistryResult,
+  JoinForumResult,
+  CreatePollResult,
+  CreateVoteRegistryResult,
+  VoteResult
+} from "../types";
+
+// ===== Struct Types =====
+
+/**
+ * Shallot objects that transactions create, by struct name
+ */
+export const SHALLOT_STRUCTS = {
+  Forum: MODULES.FORUM,
+  Membership: MODULES.MEMBERSHIP,
+  MemberRegistry: MODULES.MEMBERSHIP,
+  Poll: MODULES.POLL,
+  VoteRegistry: MODULES.BALLOT,
+  Ballot: MODULES.BALLOT,
+} as const;
+
+export type ShallotStruct = keyof typeof SHALLOT_STRUCTS;
+
+export type CreatedObjects = Record<ShallotStruct, ObjectId[]>;
+
+/**
+ * Full Move type of a Shallot struct, e.g. `0x...::forum::Forum`
+ */
+export function getStructType(packageId: string, struct: ShallotStruct): string {
+  return `${normalizeAddress(packageId)}::${SHALLOT_STRUCTS[struct]}::${struct}`;
+}
+
+/**
+ * Check a Move object type against a Shallot struct, ignoring address padding
+ */
+export function isStructType(objectType: string, packageId: string, struct: ShallotStruct): boolean {
+  const [address, ...rest] = objectType.split("::");
+  return [normalizeAddress(address), ...rest].join("::") === getStructType(packageId, struct);
+}
+
+// ===== Effects Parsing =====
+
+/**
+ * Group the IDs of all Shallot objects created by a transaction by struct
+ * Requires the transaction to be fetched with `showObjectChanges: true`
+ */
+export function parseCreatedObjects(txResult: SuiTransactionBlockResponse, packageId: string): CreatedObjects {
+  const created = Object.fromEntries(
+    (Object.keys(SHALLOT_STRUCTS) as ShallotStruct[]).map(struct => [struct, [] as ObjectId[]])
+  ) as CreatedObjects;
+
+  for (const change of txResult.objectChanges || []) {
+    if (change.type !== "created") continue;
+
+    const struct = (Object.keys(SHALLOT_STRUCTS) as ShallotStruct[])
+      .find(candidate => isStructType(change.objectType, packageId, candidate));
+    if (struct) {
+      created[struct].push(change.objectId);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Success, digest and error shared by every operation result
+ */
+function parseStatus(txResult: SuiTransactionBlockResponse): TransactionResult {
+  const status = txResult.effects?.status;
+  if (!txResult.digest) {
+    return { success: false, error: "Invalid transaction result" };
+  }
+  if (status && status.status !== "success") {
+    return { success: false, digest: txResult.digest, error: status.error || "Transaction failed" };
+  }
+  return { success: true, digest: txResult.digest };
+}
+
+/**
+ * Pick the single object of a struct the operation was expected to create
+ */
+function expectCreated<T extends TransactionResult>(
+  result: T,
+  created: CreatedObjects,
+  struct: ShallotStruct
+): T {
+  if (!result.success) {
+    return result;
+  }
+  if (created[struct].length === 0) {
+    return { ...result, success: false, error: `Transaction did not create a ${struct}` };
+  }
+  if (created[struct].length > 1) {
+    return { ...result, success: false, error: `Transaction created more than one ${struct}` };
+  }
+  return result;
+}
+
+// ===== Operation Results =====
+
+/**
+ * Forum creation; `registryId` is set when the registry was created in the same transaction
+ */
+export function parseCreateForumEffects(txResult: SuiTransactionBlockResponse, packageId: string): CreateForumResult {
+  const created = parseCreatedObjects(txResult, packageId);
+  const result = expectCreated(parseStatus(txResult), created, "Forum");
+  return {
+    ...result,
+    objectId: created.Forum[0],
+    forumId: created.Forum[0],
+    registryId: created.MemberRegistry[0],
+  };
+}
+
+export function parseCreateMemberRegistryEffects(txResult: SuiTransactionBlockResponse, packageId: string): CreateMemberRegistryResult {
+  const created = parseCreatedObjects(txResult, packageId);
+  const result = expectCreated(parseStatus(txResult), created, "MemberRegistry");
+  return { ...result, objectId: created.MemberRegistry[0], registryId: created.MemberRegistry[0] };
+}
+
+export function parseJoinForumEffects(txResult: SuiTransactionBlockResponse, packageId: string): JoinForumResult {
+  const created = parseCreatedObjects(txResult, packageId);
+  const result = expectCreated(parseStatus(txResult), created, "Membership");
+  return { ...result, objectId: created.Membership[0], membershipId: created.Membership[0] };
+}
+
+export function parseCreatePollEffects(txResult: SuiTransactionBlockResponse, packageId: string): CreatePollResult {
+  const created = parseCreatedObjects(txResult, packageId);
+  const result = expectCreated(parseStatus(txResult), created, "Poll");
+  return { ...result, objectId: created.Poll[0], pollId: created.Poll[0] };
+}
+
+export function parseCreateVoteRegistryEffects(txResult: SuiTransactionBlockResponse, packageId: string): CreateVoteRegistryResult {
+  const created = parseCreatedObjects(txResult, packageId);
+  const result = expectCreated(parseStatus(txResult), created, "VoteRegistry");
+  return { ...result, objectId: created.VoteRegistry[0], voteRegistryId: created.VoteRegistry[0] };
+}
+
+export function parseVoteEffects(txResult: SuiTransactionBlockResponse, packageId: string): VoteResult {
+  const created = parseCreatedObjects(txResult, packageId);
+  const result = expectCreated(parseStatus(txResult), created, "Ballot");
+  return { ...result, objectId: created.Ballot[0], ballotId: created.Ballot[0] };
+}
+
+/**
+ * Secret ballot commit; no Ballot exists until the vote is revealed
+ */
+export function parseCommitVoteEffects(txResult: SuiTransactionBlockResponse): VoteResult {
+  return parseStatus(txResult);
+}
@@ -0,0 +1,364 @@
+// Error translation for Shallot system
+//
+// Move aborts reach the frontend as raw strings from the wallet, dry runs or
+// `effects.status.error`. They are keyed by module plus abort code and turned
+// into typed errors that carry a suggested next step for the UI.
+
+import { MODULES } from "../constants";
+import { normalizeAddress } from "./sui";
+
+// ===== Error Classes =====
+
+/**
+ * Base class for errors shown to users, with an optional next step
+ */
+export class ShallotError extends Error {
+  constructor(
+    message: string,
+    readonly suggestion?: string
+  ) {
+    super(message);
+    this.name = "ShallotError";
+  }
+}
+
+/**
+ * A Move abort raised by a Shallot module
+ */
+export class MoveAbortError extends ShallotError {
+  constructor(
+    readonly module: string,
+    readonly abortCode: number,
+    readonly constant: string | null,
+    readonly functionName: string | null,
+    message: string,
+    suggestion?: string
+  ) {
+    super(message, suggestion);
+    this.name = "MoveAbortError";
+  }
+}
+
+/** Wrong or missing forum password */
+export class VerificationError extends MoveAbortError {
+  name = "VerificationError";
+}
+
+/** Caller is, or is not, a member of the forum */
+export class MembershipError extends MoveAbortError {
+  name = "MembershipError";
+}
+
+/** Forum or poll is not in the state the call requires */
+export class PollStateError extends MoveAbortError {
+  name = "PollStateError";
+}
+
+/** Ballot was rejected */
+export class VoteError extends MoveAbortError {
+  name = "VoteError";
+}
+
+/** Arguments rejected by on-chain validation */
+export class InputError extends MoveAbortError {
+  name = "InputError";
+}
+
+// ===== Abort Codes =====
+
+interface AbortCodeInfo {
+  constant: string;
+  errorClass: typeof MoveAbortError;
+  message: string;
+  suggestion: string;
+}
+
+// Every error constant in the package, keyed `${module}:${code}`
+const ABORT_CODES: Record<string, AbortCodeInfo> = {
+  [`${MODULES.FORUM}:1`]: {
+    constant: "E_ACTIVE_POLL_EXISTS",
+    errorClass: PollStateError,
+    message: "This forum already has an active poll",
+    suggestion: "Wait for the current poll to end and execute it before creating a new one.",
+  },
+  [`${MODULES.FORUM}:2`]: {
+    constant: "E_NO_ACTIVE_POLL",
+    errorClass: PollStateError,
+    message: "This forum has no active poll",
+    suggestion: "Refresh the forum; the poll may already have been executed.",
+  },
+  [`${MODULES.FORUM}:3`]: {
+    constant: "E_EMPTY_NAME",
+    errorClass: InputError,
+    message: "Forum name cannot be empty",
+    suggestion: "Enter a name for the forum and try again.",
+  },
+  [`${MODULES.FORUM}:4`]: {
+    constant: "E_COMMITMENT_EXISTS",
+    errorClass: VerificationError,
+    message: "This forum already uses a password commitment",
+    suggestion: "Refresh the forum; it has already been migrated.",
+  },
+  [`${MODULES.FORUM}:5`]: {
+    constant: "E_NO_COMMITMENT",
+    errorClass: VerificationError,
+    message: "This forum does not use a password commitment",
+    suggestion: "Refresh the forum and join with its password instead.",
+  },
+  [`${MODULES.FORUM}:6`]: {
+    constant: "E_INVALID_GOVERNANCE",
+    errorClass: InputError,
+    message: "Quorum or pass threshold is out of range",
+    suggestion: "Use a quorum between 0 and 100% and a threshold of at least a simple majority.",
+  },
+  [`${MODULES.FORUM}:7`]: {
+    constant: "E_GOVERNANCE_EXISTS",
+    errorClass: InputError,
+    message: "This forum's quorum and pass threshold are already set",
+    suggestion: "A forum's voting rule is fixed when it is created.",
+  },
+  [`${MODULES.MEMBERSHIP}:1`]: {
+    constant: "E_VERIFICATION_FAILED",
+    errorClass: VerificationError,
+    message: "Incorrect forum password",
+    suggestion: "Check the password with the forum creator and try again.",
+  },
+  [`${MODULES.MEMBERSHIP}:2`]: {
+    constant: "E_ALREADY_MEMBER",
+    errorClass: MembershipError,
+    message: "You are already a member of this forum",
+    suggestion: "Open the forum from My Memberships instead of joining again.",
+  },
+  [`${MODULES.MEMBERSHIP}:3`]: {
+    constant: "E_NOT_MEMBER",
+    errorClass: MembershipError,
+    message: "You are not a member of this forum",
+    suggestion: "Join the forum first, then try again.",
+  },
+  [`${MODULES.MEMBERSHIP}:4`]: {
+    constant: "E_NOT_CREATOR",
+    errorClass: MembershipError,
+    message: "Only the forum's creator can do this",
+    suggestion: "Ask the forum's creator to switch the forum to a password commitment.",
+  },
+  [`${MODULES.POLL}:1`]: {
+    constant: "E_FORUM_HAS_ACTIVE_POLL",
+    errorClass: PollStateError,
+    message: "This forum already has an active poll",
+    suggestion: "Wait for the current poll to end and execute it before creating a new one.",
+  },
+  [`${MODULES.POLL}:2`]: {
+    constant: "E_NOT_MEMBER",
+    errorClass: MembershipError,
+    message: "Only forum members can create polls",
+    suggestion: "Join the forum first, then create the poll.",
+  },
+  [`${MODULES.POLL}:3`]: {
+    constant: "E_POLL_NOT_ENDED",
+    errorClass: PollStateError,
+    message: "Voting on this poll has not ended yet",
+    suggestion: "Execute the poll after its end time has passed.",
+  },
+  [`${MODULES.POLL}:4`]: {
+    constant: "E_INVALID_DURATION",
+    errorClass: InputError,
+    message: "Poll duration must be greater than zero",
+    suggestion: "Choose a longer voting duration.",
+  },
+  [`${MODULES.POLL}:5`]: {
+    constant: "E_EMPTY_TITLE",
+    errorClass: InputError,
+    message: "Poll title cannot be empty",
+    suggestion: "Enter a title for the poll and try again.",
+  },
+  [`${MODULES.POLL}:6`]: {
+    constant: "E_REVEAL_NOT_ENDED",
+    errorClass: PollStateError,
+    message: "Votes on this secret ballot can still be revealed",
+    suggestion: "Execute the poll after its reveal window has closed.",
+  },
+  [`${MODULES.BALLOT}:1`]: {
+    constant: "E_ALREADY_VOTED",
+    errorClass: VoteError,
+    message: "You have already voted in this poll",
+    suggestion: "Each member votes once; check back for the results when voting ends.",
+  },
+  [`${MODULES.BALLOT}:2`]: {
+    constant: "E_POLL_ENDED",
+    errorClass: PollStateError,
+    message: "Voting on this poll has ended",
+    suggestion: "Execute the poll to apply its result.",
+  },
+  [`${MODULES.BALLOT}:3`]: {
+    constant: "E_POLL_FORUM_MISMATCH",
+    errorClass: PollStateError,
+    message: "This poll does not belong to the forum's vote registry",
+    suggestion: "Reload the poll from its forum page and try again.",
+  },
+  [`${MODULES.BALLOT}:4`]: {
+    constant: "E_SECRET_BALLOT",
+    errorClass: VoteError,
+    message: "This poll is a secret ballot",
+    suggestion: "Reload the poll; votes on it are committed and revealed later.",
+  },
+  [`${MODULES.BALLOT}:5`]: {
+    constant: "E_NOT_SECRET_BALLOT",
+    errorClass: VoteError,
+    message: "This poll is not a secret ballot",
+    suggestion: "Reload the poll and vote directly.",
+  },
+  [`${MODULES.BALLOT}:6`]: {
+    constant: "E_NO_COMMITMENT",
+    errorClass: VoteError,
+    message: "You did not commit a vote in this poll",
+    suggestion: "Only votes committed while the poll was open can be revealed.",
+  },
+  [`${MODULES.BALLOT}:7`]: {
+    constant: "E_ALREADY_REVEALED",
+    errorClass: VoteError,
+    message: "Your vote has already been revealed",
+    suggestion: "It has been counted; refresh the poll to see the results.",
+  },
+  [`${MODULES.BALLOT}:8`]: {
+    constant: "E_COMMITMENT_MISMATCH",
+    errorClass: VoteError,
+    message: "The revealed vote does not match your commitment",
+    suggestion: "Import the local data backup from the device you voted on and reveal again.",
+  },
+  [`${MODULES.BALLOT}:9`]: {
+    constant: "E_NOT_REVEAL_PHASE",
+    errorClass: PollStateError,
+    message: "This poll is not accepting reveals",
+    suggestion: "Reveal after voting closes and before the reveal window ends.",
+  },
+  [`${MODULES.VERIFIER}:1`]: {
+    constant: "E_INVALID_PASSWORD",
+    errorClass: VerificationError,
+    message: "Incorrect forum password",
+    suggestion: "Check the password with the forum creator and try again.",
+  },
+  [`${MODULES.VERIFIER}:2`]: {
+    constant: "E_EMPTY_PASSWORD",
+    errorClass: InputError,
+    message: "Password cannot be empty",
+    suggestion: "Enter the forum password and try again.",
+  },
+  [`${MODULES.VERIFIER}:3`]: {
+    constant: "E_INVALID_COMMITMENT",
+    errorClass: InputError,
+    message: "Password commitment is malformed",
+    suggestion: "Make sure the app is up to date with the deployed Shallot package.",
+  },
+};
+
+// Aborts from these addresses come from the Move and Sui frameworks, not Shallot
+const FRAMEWORK_ADDRESSES = ["0x1", "0x2", "0x3"].map(normalizeAddress);
+
+// ===== Parsing =====
+
+export interface MoveAbort {
+  address: string;
+  module: string;
+  functionName: string | null;
+  abortCode: number;
+}
+
+/**
+ * Extract the abort location and code from an error string, in either the
+ * `effects.status.error` form or the wallet/dry-run form
+ */
+export function parseMoveAbort(message: string): MoveAbort | null {
+  // MoveAbort(MoveLocation { module: ModuleId { address: 5a.., name: Identifier("forum") }, function: 3,
+  //   instruction: 12, function_name: Some("create_poll") }, 1) in command 0
+  const location = message.match(
+    /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (?:0x)?([0-9a-fA-F]+), name: Identifier\("(\w+)"\) \}(.*?)\},\s*(\d+)\)/
+  );
+  if (location) {
+    const functionName = location[3].match(/function_name: Some\("(\w+)"\)/)?.[1] ?? null;
+    return {
+      address: normalizeAddress(location[1]),
+      module: location[2],
+      functionName,
+      abortCode: Number(location[4]),
+    };
+  }
+
+  // MoveAbort in 1st command, abort code: 1, in '0x5a..::forum::create_poll' (instruction 12)
+  const inline = message.match(/abort code: (\d+), in '(0x[0-9a-fA-F]+)::(\w+)::(\w+)'/);
+  if (inline) {
+    return {
+      address: normalizeAddress(inline[2]),
+      module: inline[3],
+      functionName: inline[4],
+      abortCode: Number(inline[1]),
+    };
+  }
+
+  return null;
+}
+
+// ===== Translation =====
+
+/**
+ * Typed error for a Shallot abort, or null if the abort is not from a Shallot module
+ */
+export function translateMoveAbort(abort: MoveAbort): MoveAbortError | null {
+  if (FRAMEWORK_ADDRESSES.includes(abort.address)) {
+    return null;
+  }
+  if (!(Object.values(MODULES) as string[]).includes(abort.module)) {
+    return null;
+  }
+
+  const info = ABORT_CODES[`${abort.module}:${abort.abortCode}`];
+  if (!info) {
+    const location = abort.functionName ? `${abort.module}::${abort.functionName}` : abort.module;
+    return new MoveAbortError(
+      abort.module,
+      abort.abortCode,
+      null,
+      abort.functionName,
+      `Transaction aborted in ${location} with code ${abort.abortCode}`,
+      "Make sure the app is up to date with the deployed Shallot package."
+    );
+  }
+
+  return new info.errorClass(
+    abort.module,
+    abort.abortCode,
+    info.constant,
+    abort.functionName,
+    info.message,
+    info.suggestion
+  );
+}
+
+/**
+ * Turn any thrown value into an Error for display, translating Move aborts and
+ * common wallet failures into ShallotErrors
+ */
+export function translateError(error: unknown, fallbackMessage = "Transaction failed"): Error {
+  if (error instanceof ShallotError) {
+    return error;
+  }
+
+  const message = (error instanceof Error ? error.message : typeof error === "string" ? error : "") || "";
+
+  const abort = parseMoveAbort(message);
+  const translated = abort && translateMoveAbort(abort);
+  if (translated) {
+    return translated;
+  }
+
+  if (/rejected/i.test(message)) {
+    return new ShallotError("Transaction was rejected in the wallet", "Approve the transaction in your wallet to continue.");
+  }
+  if (/InsufficientGas|GasBalanceTooLow|No valid gas coins|insufficient.*gas/i.test(message)) {
+    return new ShallotError("Not enough SUI to pay for gas", "Add SUI to your wallet, for example from the faucet, and try again.");
+  }
+
+  if (error instanceof Error && error.message) {
+    return error;
+  }
+  return new Error(message || fallbackMessage);
+}
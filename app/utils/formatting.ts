@@ -1,5 +1,8 @@
 // Formatting utility functions for Shallot system
 
+import { PASS_THRESHOLDS } from "../constants";
+import type { GovernanceConfig } from "../types";
+
 // ===== Address and Object ID Formatting =====
 
 /**
@@ -191,6 +194,18 @@ export function formatPercentage(
   return `${percentage.toFixed(decimalPlaces)}%`;
 }
 
+/**
+ * Format an amount in MIST as SUI
+ */
+export function formatSui(mist: bigint, maxDecimals: number = 9): string {
+  const negative = mist < BigInt(0);
+  const absolute = negative ? -mist : mist;
+  const whole = absolute / BigInt(1_000_000_000);
+  const fraction = (absolute % BigInt(1_000_000_000)).toString().padStart(9, '0').slice(0, maxDecimals).replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''} SUI`;
+}
+
 /**
  * Format vote count display
  */
@@ -209,6 +224,25 @@ export function formatMemberCount(count: number): string {
   return `${formatNumber(count)} members`;
 }
 
+/**
+ * Format a forum's pass threshold, e.g. "Two-thirds (67%)"
+ */
+export function formatPassThreshold(governance: GovernanceConfig): string {
+  const { thresholdNumerator, thresholdDenominator } = governance;
+  const preset = PASS_THRESHOLDS.find(
+    threshold => threshold.numerator * thresholdDenominator === thresholdNumerator * threshold.denominator
+  );
+  const percentage = formatPercentage(thresholdNumerator, thresholdDenominator, 0);
+  return preset ? `${preset.label} (${percentage})` : `${thresholdNumerator}/${thresholdDenominator} (${percentage})`;
+}
+
+/**
+ * Format a forum's quorum, e.g. "40% of members"
+ */
+export function formatQuorum(governance: GovernanceConfig): string {
+  return governance.quorumPercent > 0 ? `${governance.quorumPercent}% of members` : 'No quorum';
+}
+
 // ===== Text Formatting =====
 
 /**
@@ -255,6 +289,8 @@ export function formatPollStatus(status: string): string {
   switch (status.toLowerCase()) {
     case 'active':
       return 'Active';
+    case 'reveal':
+      return 'Revealing';
     case 'ended':
       return 'Ended';
     case 'executed':
@@ -273,6 +309,8 @@ export function getStatusColor(status: string): string {
   switch (status.toLowerCase()) {
     case 'active':
       return 'text-green-600 bg-green-100';
+    case 'reveal':
+      return 'text-yellow-700 bg-yellow-100';
     case 'ended':
       return 'text-blue-600 bg-blue-100';
     case 'executed':
@@ -299,12 +337,13 @@ export function formatFileSize(bytes: number): string {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
 }
 
-// ===== Hash and Anonymous ID Formatting =====
+// ===== Hash and Voter ID Formatting =====
 
 /**
- * Format anonymous voter ID (hash) for display
+ * Format a ballot's voter ID (hash) for display
+ * Not anonymous: the hash can be recomputed from the voter's address (see utils/privacy.ts)
  */
-export function formatAnonymousId(hash: number[]): string {
+export function formatVoterId(hash: number[]): string {
   if (!hash || hash.length === 0) return '';
   
   // Convert first 8 bytes to hex string
@@ -313,7 +352,7 @@ export function formatAnonymousId(hash: number[]): string {
     .map(byte => byte.toString(16).padStart(2, '0'))
     .join('');
     
-  return `anonymous_${hexString}`;
+  return `voter_${hexString}`;
 }
 
 /**
@@ -0,0 +1,96 @@
+// Forum password auditing for Shallot system
+//
+// `SimplePasswordVerifier.password_hash` is an unsalted SHA-256 stored in a shared
+// object, so anyone can test guesses offline. A forum whose hash matches a common
+// password is effectively open to everyone. Commitment forums only slow guessing down
+// (one PBKDF2 derivation per guess), so they are checked against the same list.
+
+import { toHex } from "@mysten/sui/utils";
+import { COMMON_PASSWORDS } from "./commonPasswords";
+import { hashPassword, verifyCommitmentPassword } from "./crypto";
+import type { Forum, ForumCommitment } from "../types";
+
+export interface ForumPasswordAudit {
+  forumId: string;
+  name: string;
+  checkedAgainst: "hash" | "commitment" | null; // null when the forum has neither, so nothing was checked
+  exposed: boolean;
+  matchedPassword: string | null; // the guessed password when exposed
+}
+
+// Hex hash -> password, built once per word list
+const dictionaries = new Map<readonly string[], Promise<Map<string, string>>>();
+
+async function buildDictionary(passwords: readonly string[]): Promise<Map<string, string>> {
+  const entries = await Promise.all(
+    passwords.map(async password => [toHex(new Uint8Array(await hashPassword(password))), password] as const)
+  );
+  return new Map(entries);
+}
+
+function getDictionary(passwords: readonly string[]): Promise<Map<string, string>> {
+  let dictionary = dictionaries.get(passwords);
+  if (!dictionary) {
+    dictionary = buildDictionary(passwords);
+    dictionaries.set(passwords, dictionary);
+  }
+  return dictionary;
+}
+
+/**
+ * Whether a password is on the common-password list (case-insensitive)
+ */
+export function isCommonPassword(password: string, passwords: readonly string[] = COMMON_PASSWORDS): boolean {
+  const lower = password.toLowerCase();
+  return passwords.some(common => common.toLowerCase() === lower);
+}
+
+/**
+ * The common password that produces a stored hash, or null if none does
+ */
+export async function findPasswordForHash(
+  passwordHash: ArrayLike<number>,
+  passwords: readonly string[] = COMMON_PASSWORDS
+): Promise<string | null> {
+  if (!passwordHash || passwordHash.length === 0) return null;
+
+  const dictionary = await getDictionary(passwords);
+  return dictionary.get(toHex(new Uint8Array(passwordHash))) ?? null;
+}
+
+/**
+ * The common password that derives a forum's committed public key, or null if none does
+ * Each guess costs a full key derivation, so this is much slower than the hash lookup
+ */
+export async function findPasswordForCommitment(
+  commitment: Pick<ForumCommitment, "publicKey" | "salt" | "kdfIterations">,
+  passwords: readonly string[] = COMMON_PASSWORDS
+): Promise<string | null> {
+  for (const password of passwords) {
+    if (await verifyCommitmentPassword(password, commitment)) {
+      return password;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a forum's commitment, or else its stored hash, against the common-password list
+ */
+export async function auditForumPassword(
+  forum: Pick<Forum, "id" | "name" | "passwordHash">,
+  commitment: ForumCommitment | null,
+  passwords: readonly string[] = COMMON_PASSWORDS
+): Promise<ForumPasswordAudit> {
+  const checkedAgainst = commitment ? "commitment" : forum.passwordHash.length > 0 ? "hash" : null;
+  const matchedPassword = commitment
+    ? await findPasswordForCommitment(commitment, passwords)
+    : await findPasswordForHash(forum.passwordHash, passwords);
+  return {
+    forumId: forum.id,
+    name: forum.name,
+    checkedAgainst,
+    exposed: matchedPassword !== null,
+    matchedPassword,
+  };
+}
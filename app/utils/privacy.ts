@@ -0,0 +1,102 @@
+// Ballot privacy analysis for Shallot system
+//
+// `ballot::generate_anonymous_id` is `sha2_256(bcs(voter) || bcs(poll_id))`. Both
+// inputs are public: the poll ID, and every voter is in the registry's `member_list`.
+// Anyone can hash each member with the poll ID and match the result against the
+// ballots, so the "anonymous" voter ID links every ballot back to a wallet.
+
+import { SuiClient } from "@mysten/sui/client";
+import { bcs } from "@mysten/sui/bcs";
+import { toHex } from "@mysten/sui/utils";
+import { getObjectSafe, iterateVoteReceivedEvents } from "./sui";
+import { resolveMemberRegistryId } from "./registry";
+import { decodeEvents, decodeVoteReceivedEvent } from "./decoders";
+import { processMemberRegistry } from "../types";
+import type { Address, ObjectId, Poll } from "../types";
+
+export interface BallotLink {
+  voterId: string; // hex of the ballot's anonymous_voter_id
+  member: Address;
+}
+
+export interface BallotPrivacyReport {
+  pollId: ObjectId;
+  totalBallots: number;
+  linkedBallots: number;
+  links: BallotLink[];
+  unlinkedVoterIds: string[]; // ballots no current member hashes to
+}
+
+/**
+ * Recompute `ballot::generate_anonymous_id` for a voter
+ * BCS of an address or ID is its 32 raw bytes, so no length prefix is involved
+ */
+export async function computeVoterId(voter: Address, pollId: ObjectId): Promise<number[]> {
+  const voterBytes = bcs.Address.serialize(voter).toBytes();
+  const pollBytes = bcs.Address.serialize(pollId).toBytes();
+
+  const data = new Uint8Array(voterBytes.length + pollBytes.length);
+  data.set(voterBytes, 0);
+  data.set(pollBytes, voterBytes.length);
+
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest));
+}
+
+/**
+ * Match ballots' voter IDs against the hashes of a list of members
+ */
+export async function analyzeBallotPrivacy(
+  pollId: ObjectId,
+  voterIds: ArrayLike<number>[],
+  members: Address[]
+): Promise<BallotPrivacyReport> {
+  const memberByVoterId = new Map<string, Address>();
+  for (const member of members) {
+    memberByVoterId.set(toHex(new Uint8Array(await computeVoterId(member, pollId))), member);
+  }
+
+  const links: BallotLink[] = [];
+  const unlinkedVoterIds: string[] = [];
+  for (const voterId of voterIds) {
+    const hex = toHex(new Uint8Array(voterId));
+    const member = memberByVoterId.get(hex);
+    if (member) {
+      links.push({ voterId: hex, member });
+    } else {
+      unlinkedVoterIds.push(hex);
+    }
+  }
+
+  return {
+    pollId,
+    totalBallots: voterIds.length,
+    linkedBallots: links.length,
+    links,
+    unlinkedVoterIds,
+  };
+}
+
+/**
+ * Load a poll's ballots and its forum's members from chain and analyze them
+ */
+export async function loadBallotPrivacyReport(
+  client: SuiClient,
+  packageId: string,
+  poll: Pick<Poll, "id" | "forumId">
+): Promise<BallotPrivacyReport> {
+  const registryId = await resolveMemberRegistryId(client, packageId, poll.forumId);
+  const registryObject = registryId ? await getObjectSafe(client, registryId) : null;
+  const registry = registryObject?.data ? processMemberRegistry(registryObject.data) : null;
+  if (!registry) {
+    throw new Error("Member registry not found for this poll's forum");
+  }
+
+  const events = [];
+  for await (const event of iterateVoteReceivedEvents(client, packageId, poll.id)) {
+    events.push(event);
+  }
+  const voterIds = decodeEvents(events, decodeVoteReceivedEvent).map(event => event.anonymous_voter_id);
+
+  return analyzeBallotPrivacy(poll.id, voterIds, registry.memberList);
+}
@@ -0,0 +1,237 @@
+// Ballot receipts for Shallot system
+//
+// A receipt points at a voter's ballot on chain: the shared `Ballot` object, the
+// transaction that created it and the voter ID that `ballot::generate_anonymous_id`
+// gives the voter. Anyone can re-check a receipt against the chain; only someone
+// who knows the voter's address can confirm the voter ID is theirs.
+
+import { SuiClient } from "@mysten/sui/client";
+import { toHex } from "@mysten/sui/utils";
+import {
+  getObjectSafe,
+  iterateTransactionsWithInput,
+  iterateVoteReceivedEvents,
+  normalizeAddress
+} from "./sui";
+import { parseCreatedObjects } from "./effects";
+import { computeVoterId } from "./privacy";
+import { decodeEvents, decodeVoteReceivedEvent } from "./decoders";
+import { processBallot } from "../types";
+import type { Address, Ballot, ObjectId, VoteReceivedEvent } from "../types";
+
+export const RECEIPT_VERSION = 1;
+
+export interface BallotReceipt {
+  version: number;
+  network: string;
+  packageId: string;
+  pollId: ObjectId;
+  anonymousVoterId: string; // hex
+  choice: boolean;
+  timestamp: number; // when the ballot was counted
+  ballotId: ObjectId;
+  txDigest: string; // transaction that created the Ballot (the reveal, for secret ballots)
+}
+
+export interface ReceiptCheck {
+  label: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface ReceiptVerification {
+  valid: boolean;
+  checks: ReceiptCheck[];
+}
+
+// ===== Chain Lookups =====
+
+/**
+ * Find the VoteReceived event carrying a voter ID
+ */
+async function findVoteReceivedEvent(
+  client: SuiClient,
+  packageId: string,
+  pollId: ObjectId,
+  voterIdHex: string
+): Promise<{ event: VoteReceivedEvent; txDigest: string } | null> {
+  for await (const event of iterateVoteReceivedEvents(client, packageId, pollId)) {
+    const [decoded] = decodeEvents([event], decodeVoteReceivedEvent);
+    if (decoded && toHex(new Uint8Array(decoded.anonymous_voter_id)) === voterIdHex) {
+      return { event: decoded, txDigest: event.id.txDigest };
+    }
+  }
+  return null;
+}
+
+/**
+ * Ballot created by a transaction, if any
+ */
+async function getCreatedBallotId(client: SuiClient, packageId: string, digest: string): Promise<ObjectId | null> {
+  const txResult = await client.getTransactionBlock({
+    digest,
+    options: { showEffects: true, showObjectChanges: true },
+  });
+  if (txResult.effects?.status.status !== "success") {
+    return null;
+  }
+  return parseCreatedObjects(txResult, packageId).Ballot[0] ?? null;
+}
+
+/**
+ * Transaction from `voter` that took the poll as input and created a Ballot
+ * Needed for secret ballots, whose VoteReceived event comes from the commit, not the reveal
+ */
+async function findBallotTransaction(
+  client: SuiClient,
+  packageId: string,
+  pollId: ObjectId,
+  voter: Address
+): Promise<{ txDigest: string; ballotId: ObjectId } | null> {
+  const sender = normalizeAddress(voter);
+
+  for await (const tx of iterateTransactionsWithInput(client, pollId)) {
+    if (normalizeAddress(tx.transaction?.data.sender || "0x0") !== sender) continue;
+
+    const ballotId = parseCreatedObjects(tx, packageId).Ballot[0];
+    if (ballotId) {
+      return { txDigest: tx.digest, ballotId };
+    }
+  }
+
+  return null;
+}
+
+async function loadBallot(client: SuiClient, ballotId: ObjectId): Promise<Ballot | null> {
+  const response = await getObjectSafe(client, ballotId);
+  return response?.data ? processBallot(response.data) : null;
+}
+
+// ===== Receipts =====
+
+/**
+ * Build the receipt for a voter's counted ballot on a poll
+ */
+export async function loadBallotReceipt(
+  client: SuiClient,
+  packageId: string,
+  network: string,
+  pollId: ObjectId,
+  voter: Address
+): Promise<BallotReceipt> {
+  const voterIdHex = toHex(new Uint8Array(await computeVoterId(voter, pollId)));
+
+  const received = await findVoteReceivedEvent(client, packageId, pollId, voterIdHex);
+  if (!received) {
+    throw new Error("No vote from this address was recorded on this poll");
+  }
+
+  // Regular votes create the Ballot in the same transaction as the event
+  const eventBallotId = await getCreatedBallotId(client, packageId, received.txDigest);
+  const created = eventBallotId
+    ? { txDigest: received.txDigest, ballotId: eventBallotId }
+    : await findBallotTransaction(client, packageId, pollId, voter);
+  if (!created) {
+    throw new Error("Your vote has not been counted yet; secret ballots are counted once revealed");
+  }
+
+  const ballot = await loadBallot(client, created.ballotId);
+  if (!ballot || toHex(new Uint8Array(ballot.anonymousVoterId)) !== voterIdHex) {
+    throw new Error("The ballot created by your vote could not be read");
+  }
+
+  return {
+    version: RECEIPT_VERSION,
+    network,
+    packageId,
+    pollId,
+    anonymousVoterId: voterIdHex,
+    choice: ballot.vote,
+    timestamp: ballot.timestamp,
+    ballotId: ballot.id,
+    txDigest: created.txDigest,
+  };
+}
+
+/**
+ * Parse a receipt file, rejecting anything that is not a complete receipt
+ */
+export function parseBallotReceipt(json: string): BallotReceipt {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Receipt is not valid JSON");
+  }
+
+  if (data?.version !== RECEIPT_VERSION) {
+    throw new Error(`Unsupported receipt version: ${data?.version}`);
+  }
+
+  const strings = ["network", "packageId", "pollId", "anonymousVoterId", "ballotId", "txDigest"] as const;
+  for (const field of strings) {
+    if (typeof data[field] !== "string" || !data[field]) {
+      throw new Error(`Receipt is missing ${field}`);
+    }
+  }
+  if (typeof data.choice !== "boolean" || typeof data.timestamp !== "number") {
+    throw new Error("Receipt is missing its choice or timestamp");
+  }
+
+  return { ...data, anonymousVoterId: data.anonymousVoterId.replace(/^0x/, "").toLowerCase() } as BallotReceipt;
+}
+
+/**
+ * Re-check a receipt against the chain
+ * With `voter`, also checks that the receipt's voter ID belongs to that address
+ */
+export async function verifyBallotReceipt(
+  client: SuiClient,
+  receipt: BallotReceipt,
+  voter?: Address
+): Promise<ReceiptVerification> {
+  const checks: ReceiptCheck[] = [];
+
+  const createdBallotId = await getCreatedBallotId(client, receipt.packageId, receipt.txDigest).catch(() => null);
+  checks.push({
+    label: "Transaction created this ballot",
+    passed: createdBallotId !== null && normalizeAddress(createdBallotId) === normalizeAddress(receipt.ballotId),
+    detail: createdBallotId ? undefined : "Transaction not found, failed, or created no ballot",
+  });
+
+  const ballot = await loadBallot(client, receipt.ballotId);
+  const mismatches = !ballot ? ["ballot not found"] : [
+    normalizeAddress(ballot.pollId) !== normalizeAddress(receipt.pollId) && "poll",
+    toHex(new Uint8Array(ballot.anonymousVoterId)) !== receipt.anonymousVoterId && "voter ID",
+    ballot.vote !== receipt.choice && "choice",
+    ballot.timestamp !== receipt.timestamp && "timestamp",
+  ].filter((field): field is string => Boolean(field));
+  checks.push({
+    label: "Ballot on chain matches the receipt",
+    passed: mismatches.length === 0,
+    detail: mismatches.length > 0 ? `Differs: ${mismatches.join(", ")}` : undefined,
+  });
+
+  const received = await findVoteReceivedEvent(client, receipt.packageId, receipt.pollId, receipt.anonymousVoterId);
+  checks.push({
+    label: "Vote received event recorded for this voter ID",
+    passed: received !== null,
+  });
+
+  if (voter) {
+    const voterIdHex = toHex(new Uint8Array(await computeVoterId(voter, receipt.pollId)));
+    checks.push({
+      label: "Voter ID belongs to the connected address",
+      passed: voterIdHex === receipt.anonymousVoterId,
+    });
+  }
+
+  return { valid: checks.every(check => check.passed), checks };
+}
+
+/**
+ * Receipt as a downloadable JSON document
+ */
+export function serializeBallotReceipt(receipt: BallotReceipt): string {
+  return JSON.stringify(receipt, null, 2);
+}
@@ -0,0 +1,337 @@
+// On-chain discovery of MemberRegistry and VoteRegistry objects for Shallot system
+//
+// Registries are shared objects, and nothing on the Forum or Poll points at them.
+// Newer entry points (`create_forum_with_registry` and its variants) create the registry
+// in the same transaction as its parent, so we look there first. Otherwise we scan the
+// transactions that called the separate `init_*_registry` function, newest first, back to
+// the checkpoint the parent was created in. Either way, the `forum_id` / `poll_id` of
+// what they created must match.
+
+import { SuiClient, type SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { MODULES, FUNCTIONS } from "../constants";
+import {
+  getObjectSafe,
+  getMultipleObjectsSafe,
+  getObjectCreationTransaction,
+  tableContainsAddress,
+  normalizeAddress,
+  extractObjectFields
+} from "./sui";
+import { isStructType, type ShallotStruct } from "./effects";
+import { ShallotError } from "./errors";
+import {
+  getRegistryId,
+  saveRegistryId,
+  getPollId,
+  getVoteRegistryId,
+  savePollId,
+  saveVoteRegistryId
+} from "./storage";
+import {
+  type Poll,
+  processForum,
+  processMemberRegistry
+} from "../types";
+import type { ObjectId, Address } from "../types";
+
+// Safety cap on transaction pages scanned per lookup; the scan normally stops at the
+// parent's creation checkpoint long before this
+const MAX_SCAN_PAGES = 200;
+const SCAN_PAGE_SIZE = 50;
+
+interface RegistrySearch {
+  packageId: string;
+  module: string;
+  functionName: string;
+  struct: ShallotStruct;
+  parentField: "forum_id" | "poll_id";
+  parentId: ObjectId;
+  creator?: Address; // prefer registries created by this address
+}
+
+/**
+ * The init transaction scan hit MAX_SCAN_PAGES before reaching the parent's creation,
+ * so a missing registry cannot be told apart from one further back
+ */
+export class RegistryScanLimitError extends ShallotError {
+  constructor(readonly parentId: ObjectId) {
+    super(
+      `Stopped looking for the registry of ${parentId} after ${MAX_SCAN_PAGES * SCAN_PAGE_SIZE} transactions`,
+      "Open the forum from a browser that has its registry saved, or import a Shallot backup from one."
+    );
+    this.name = "RegistryScanLimitError";
+  }
+}
+
+// ===== Registry Discovery =====
+
+/**
+ * Registry created by the same transaction as its parent, if any
+ * That transaction was sent by the parent's creator, so a match needs no tie-breaking
+ */
+async function findRegistryCreatedWithParent(
+  client: SuiClient,
+  search: RegistrySearch,
+  tx: SuiTransactionBlockResponse
+): Promise<ObjectId | null> {
+  const created = (tx.objectChanges || []).flatMap(change =>
+    change.type === "created" && isStructType(change.objectType, search.packageId, search.struct)
+      ? [change.objectId]
+      : []
+  );
+  if (created.length === 0) {
+    return null;
+  }
+
+  const parentId = normalizeAddress(search.parentId);
+  const objects = await getMultipleObjectsSafe(client, created);
+  return created.find((_, i) => {
+    const fields = objects[i] ? extractObjectFields<Record<string, unknown>>(objects[i]!) : null;
+    return !!fields && normalizeAddress(String(fields[search.parentField])) === parentId;
+  }) ?? null;
+}
+
+/**
+ * Find a registry created alongside its parent, or else scan init transactions for
+ * a registry whose parent field matches.
+ *
+ * Anyone can call an init function for any forum or poll, so when a creator is
+ * given a registry created by them wins; otherwise the oldest match is used.
+ * Throws RegistryScanLimitError if nothing matched before the scan cap.
+ */
+async function findRegistryId(
+  client: SuiClient,
+  search: RegistrySearch
+): Promise<ObjectId | null> {
+  const parentTx = await getObjectCreationTransaction(client, search.parentId);
+  if (parentTx) {
+    const createdWithParent = await findRegistryCreatedWithParent(client, search, parentTx);
+    if (createdWithParent) {
+      return createdWithParent;
+    }
+  }
+
+  // No registry can predate its parent, so the scan ends at the parent's checkpoint
+  const oldestCheckpoint = parentTx?.checkpoint ? BigInt(parentTx.checkpoint) : null;
+  const creator = search.creator ? normalizeAddress(search.creator) : null;
+  const parentId = normalizeAddress(search.parentId);
+
+  let fallback: ObjectId | null = null;
+  let cursor: string | null | undefined = null;
+
+  for (let page = 0; page < MAX_SCAN_PAGES; page++) {
+    const response = await client.queryTransactionBlocks({
+      filter: {
+        MoveFunction: {
+          package: search.packageId,
+          module: search.module,
+          function: search.functionName,
+        },
+      },
+      options: { showObjectChanges: true, showInput: true },
+      cursor,
+      limit: SCAN_PAGE_SIZE,
+      order: "descending",
+    });
+
+    // Created registry objects in this page, with the sender that created them
+    const candidates: { objectId: ObjectId; sender: string }[] = [];
+    let reachedParent = false;
+    for (const tx of response.data) {
+      if (oldestCheckpoint !== null && tx.checkpoint && BigInt(tx.checkpoint) < oldestCheckpoint) {
+        reachedParent = true;
+        break;
+      }
+      const sender = normalizeAddress(tx.transaction?.data.sender || "");
+      for (const change of tx.objectChanges || []) {
+        if (change.type === "created" && isStructType(change.objectType, search.packageId, search.struct)) {
+          candidates.push({ objectId: change.objectId, sender });
+        }
+      }
+    }
+
+    if (candidates.length > 0) {
+      const objects = await getMultipleObjectsSafe(client, candidates.map(c => c.objectId));
+
+      for (let i = 0; i < candidates.length; i++) {
+        const fields = objects[i] ? extractObjectFields<Record<string, unknown>>(objects[i]!) : null;
+        if (!fields || normalizeAddress(String(fields[search.parentField])) !== parentId) {
+          continue;
+        }
+
+        if (!creator || candidates[i].sender === creator) {
+          return candidates[i].objectId;
+        }
+
+        // Scan is newest-first, so the last non-creator match seen is the oldest
+        fallback = candidates[i].objectId;
+      }
+    }
+
+    if (reachedParent || !response.hasNextPage || !response.nextCursor) {
+      return fallback;
+    }
+    cursor = response.nextCursor;
+  }
+
+  if (fallback) {
+    console.warn(`Registry scan for ${search.parentId} hit its limit; using the oldest match found`);
+    return fallback;
+  }
+  throw new RegistryScanLimitError(search.parentId);
+}
+
+/**
+ * Find the shared MemberRegistry for a forum on-chain
+ */
+export async function findMemberRegistryId(
+  client: SuiClient,
+  packageId: string,
+  forumId: ObjectId,
+  creator?: Address
+): Promise<ObjectId | null> {
+  return findRegistryId(client, {
+    packageId,
+    module: MODULES.MEMBERSHIP,
+    functionName: FUNCTIONS.INIT_MEMBER_REGISTRY,
+    struct: "MemberRegistry",
+    parentField: "forum_id",
+    parentId: forumId,
+    creator,
+  });
+}
+
+/**
+ * Find the shared VoteRegistry for a poll on-chain
+ */
+export async function findVoteRegistryId(
+  client: SuiClient,
+  packageId: string,
+  pollId: ObjectId,
+  creator?: Address
+): Promise<ObjectId | null> {
+  return findRegistryId(client, {
+    packageId,
+    module: MODULES.BALLOT,
+    functionName: FUNCTIONS.INIT_VOTE_REGISTRY,
+    struct: "VoteRegistry",
+    parentField: "poll_id",
+    parentId: pollId,
+    creator,
+  });
+}
+
+// ===== Cached Resolution =====
+
+/**
+ * Get a forum's MemberRegistry ID from storage, discovering it on-chain if needed
+ * Null when there is none; throws RegistryScanLimitError when the search gave up
+ */
+export async function resolveMemberRegistryId(
+  client: SuiClient,
+  packageId: string,
+  forumId: ObjectId
+): Promise<ObjectId | null> {
+  const cached = getRegistryId(forumId);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const forumResponse = await getObjectSafe(client, forumId);
+    const forum = forumResponse?.data ? processForum(forumResponse.data) : null;
+
+    const registryId = await findMemberRegistryId(client, packageId, forumId, forum?.creator);
+    if (registryId) {
+      console.log('🔎 Discovered member registry for forum:', forumId, registryId);
+      saveRegistryId(forumId, registryId);
+    }
+    return registryId;
+  } catch (error) {
+    if (error instanceof RegistryScanLimitError) {
+      throw error;
+    }
+    console.error(`Failed to discover member registry for forum ${forumId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get a poll's VoteRegistry ID from storage, discovering it on-chain if needed
+ * Null when there is none; throws RegistryScanLimitError when the search gave up
+ */
+export async function resolveVoteRegistryId(
+  client: SuiClient,
+  packageId: string,
+  poll: Poll
+): Promise<ObjectId | null> {
+  // Vote registry is stored per forum, so only trust it for the poll it was saved with
+  if (getPollId(poll.forumId) === poll.id) {
+    const cached = getVoteRegistryId(poll.forumId);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  try {
+    const voteRegistryId = await findVoteRegistryId(client, packageId, poll.id, poll.creator);
+    if (voteRegistryId) {
+      console.log('🔎 Discovered vote registry for poll:', poll.id, voteRegistryId);
+      savePollId(poll.forumId, poll.id);
+      saveVoteRegistryId(poll.forumId, voteRegistryId);
+    }
+    return voteRegistryId;
+  } catch (error) {
+    if (error instanceof RegistryScanLimitError) {
+      throw error;
+    }
+    console.error(`Failed to discover vote registry for poll ${poll.id}:`, error);
+    return null;
+  }
+}
+
+// ===== Membership Checks =====
+
+// MemberRegistry ID -> its `members` table ID, which never changes
+const membersTableIds = new Map<ObjectId, ObjectId>();
+
+/**
+ * Check an address against a MemberRegistry's `members` table
+ * After the first check of a registry this reads a single dynamic field,
+ * so the cost does not grow with the forum
+ */
+export async function isRegistryMember(
+  client: SuiClient,
+  registryId: ObjectId,
+  address: Address
+): Promise<boolean> {
+  let membersTableId = membersTableIds.get(registryId);
+  if (!membersTableId) {
+    const response = await getObjectSafe(client, registryId);
+    const registry = response?.data ? processMemberRegistry(response.data) : null;
+    if (!registry) {
+      throw new Error("Member registry not found");
+    }
+    membersTableId = registry.membersTableId;
+    membersTableIds.set(registryId, membersTableId);
+  }
+
+  return tableContainsAddress(client, membersTableId, address);
+}
+
+/**
+ * Check whether an address is a member of a forum; false when the forum has no registry
+ */
+export async function isForumMember(
+  client: SuiClient,
+  packageId: string,
+  forumId: ObjectId,
+  address: Address
+): Promise<boolean> {
+  const registryId = await resolveMemberRegistryId(client, packageId, forumId);
+  if (!registryId) {
+    return false;
+  }
+
+  return isRegistryMember(client, registryId, address);
+}
@@ -0,0 +1,125 @@
+// Pre-flight simulation of transactions for Shallot system
+//
+// Every transaction is dry-run before the wallet is asked to sign, so aborts such
+// as a wrong password are reported without spending gas, and the gas budget is
+// taken from the simulated cost instead of a fixed constant.
+
+import type { SuiClient, SuiObjectChange, ObjectOwner } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { SIMULATION_GAS_BUDGET, GAS_BUDGET_BUFFER_PERCENT } from "../constants";
+import { normalizeAddress } from "./sui";
+import { translateError } from "./errors";
+import type { SimulatedObjectChange, TransactionSimulation } from "../types";
+
+// Same per-transaction allowance the SDK adds on top of the dry-run computation cost
+const GAS_SAFE_OVERHEAD = BigInt(1000);
+
+const SUI_COIN_TYPE = "0x2::coin::Coin<0x2::sui::SUI>";
+
+// ===== Object Changes =====
+
+function describeOwner(owner: ObjectOwner, sender: string): string {
+  if (owner === "Immutable") return "immutable";
+  if ("AddressOwner" in owner) {
+    return normalizeAddress(owner.AddressOwner) === normalizeAddress(sender) ? "you" : owner.AddressOwner;
+  }
+  if ("ObjectOwner" in owner) return `object ${owner.ObjectOwner}`;
+  return "shared";
+}
+
+/**
+ * Created and mutated objects of a simulation, leaving out the gas coin
+ */
+function toObjectChanges(
+  changes: SuiObjectChange[],
+  sender: string
+): Pick<TransactionSimulation, "created" | "mutated"> {
+  const created: SimulatedObjectChange[] = [];
+  const mutated: SimulatedObjectChange[] = [];
+
+  for (const change of changes) {
+    if (change.type !== "created" && change.type !== "mutated") continue;
+    if (change.objectType === SUI_COIN_TYPE) continue;
+
+    const entry = {
+      objectId: change.objectId,
+      objectType: change.objectType,
+      owner: describeOwner(change.owner, sender),
+    };
+    (change.type === "created" ? created : mutated).push(entry);
+  }
+
+  return { created, mutated };
+}
+
+// ===== Simulation =====
+
+/**
+ * Gas budget for a simulated cost: computation plus overhead, plus net storage,
+ * with a buffer for state that changes before the transaction lands
+ */
+export function gasBudgetFromSimulation(
+  gasUsed: { computationCost: string; storageCost: string; storageRebate: string },
+  gasPrice: bigint
+): bigint {
+  const computation = BigInt(gasUsed.computationCost) + GAS_SAFE_OVERHEAD * gasPrice;
+  const total = computation + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate);
+  const budget = total > computation ? total : computation;
+  return (budget * BigInt(100 + GAS_BUDGET_BUFFER_PERCENT)) / BigInt(100);
+}
+
+/**
+ * Dry-run a transaction as `sender` without a gas coin and, if it succeeds,
+ * set the transaction's gas budget from the simulated cost
+ */
+export async function simulateTransaction(
+  client: SuiClient,
+  tx: Transaction,
+  sender: string
+): Promise<TransactionSimulation> {
+  tx.setSenderIfNotSet(sender);
+
+  // Simulate a copy: an empty gas payment makes the fullnode use a mock gas coin
+  const simulation = Transaction.from(tx);
+  simulation.setGasBudget(SIMULATION_GAS_BUDGET);
+  simulation.setGasPayment([]);
+
+  try {
+    const result = await client.dryRunTransactionBlock({
+      transactionBlock: await simulation.build({ client }),
+    });
+
+    const gasUsed = result.effects.gasUsed;
+    const gasCost = BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate);
+    const gasBudget = gasBudgetFromSimulation(gasUsed, BigInt(result.input.gasData.price));
+
+    if (result.effects.status.status !== "success") {
+      return {
+        success: false,
+        error: translateError(result.effects.status.error || "Transaction simulation failed"),
+        gasCost,
+        gasBudget,
+        created: [],
+        mutated: [],
+      };
+    }
+
+    tx.setGasBudget(gasBudget);
+    return {
+      success: true,
+      gasCost,
+      gasBudget,
+      ...toObjectChanges(result.objectChanges, sender),
+    };
+  } catch (err: any) {
+    // Building fails too when an input object is missing or the call does not type-check
+    return {
+      success: false,
+      error: translateError(err, "Transaction simulation failed"),
+      gasCost: BigInt(0),
+      gasBudget: BigInt(0),
+      created: [],
+      mutated: [],
+    };
+  }
+}
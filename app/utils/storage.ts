@@ -1,5 +1,6 @@
-// Simple lightweight storage for forum-related IDs
-// Note: Using memory storage since localStorage is not available in Claude artifacts
+// Persistent cache for forum-related IDs (registries are discovered on-chain, see registry.ts)
+// and for secret ballot salts, which exist nowhere else
+// Backed by localStorage, falling back to memory when it is unavailable (SSR, private mode)
 
 interface ForumData {
   registryId?: string;
@@ -7,40 +8,517 @@ interface ForumData {
   voteRegistryId?: string;
 }
 
-// In-memory storage (would be localStorage in real app)
-const storage = new Map<string, ForumData>();
+interface StoredForumData extends ForumData {
+  updatedAt: number;
+}
+
+// Forum whose creation transaction landed but whose member registry has not been created yet
+export interface PendingForumCreation {
+  forumId: string;
+  name: string;
+  creator: string;
+  updatedAt: number;
+}
+
+// Poll whose creation transaction landed but whose vote registry has not been created yet
+export interface PendingPollCreation {
+  pollId: string;
+  forumId: string;
+  title: string;
+  creator: string;
+  updatedAt: number;
+}
+
+// Choice and salt behind a secret ballot commitment; without it the vote cannot be revealed
+export interface VoteSecret {
+  pollId: string;
+  voter: string;
+  choice: boolean;
+  salt: number[];
+  revealEndTime: number;
+  pending?: boolean; // saved for a commit transaction whose commitment is not known to be on chain yet
+  updatedAt: number;
+}
+
+interface StoreSnapshot {
+  version: number;
+  forums: Record<string, StoredForumData>;
+  pendingForums: Record<string, PendingForumCreation>;
+  pendingPolls: Record<string, PendingPollCreation>;
+  voteSecrets: Record<string, VoteSecret>;
+}
+
+interface StoreBackup extends StoreSnapshot {
+  scope: string;
+  exportedAt: number;
+}
+
+// ===== Configuration =====
+
+export const STORAGE_VERSION = 4;
+
+// Entries not written for this long are dropped
+export const STORAGE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const KEY_PREFIX = "shallot";
+
+/**
+ * Schema migrations, keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // v0: bare forumId -> ForumData record without timestamps
+  0: (data) => {
+    const forums: Record<string, StoredForumData> = {};
+    const now = Date.now();
+    Object.entries(data && typeof data === "object" ? data : {}).forEach(([forumId, value]) => {
+      if (value && typeof value === "object") {
+        forums[forumId] = { ...(value as ForumData), updatedAt: now };
+      }
+    });
+    return { version: 1, forums };
+  },
+  // v1 -> v2: track half-finished forum creations
+  1: (data) => ({ ...data, version: 2, pendingForums: {} }),
+  // v2 -> v3: secret ballot salts
+  2: (data) => ({ ...data, version: 3, voteSecrets: {} }),
+  // v3 -> v4: track half-finished poll creations
+  3: (data) => ({ ...data, version: 4, pendingPolls: {} }),
+};
+
+// ===== Backend =====
+
+const memoryBackend = new Map<string, string>();
+
+function getLocalStorage(): Storage | null {
+  try {
+    if (typeof window === "undefined" || !window.localStorage) return null;
+    // Access can throw when storage is disabled
+    window.localStorage.getItem(KEY_PREFIX);
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+function readRaw(key: string): string | null {
+  const local = getLocalStorage();
+  return local ? local.getItem(key) : memoryBackend.get(key) ?? null;
+}
+
+function writeRaw(key: string, value: string) {
+  const local = getLocalStorage();
+  if (local) {
+    try {
+      local.setItem(key, value);
+      return;
+    } catch (error) {
+      console.warn("Failed to write to localStorage, keeping data in memory:", error);
+    }
+  }
+  memoryBackend.set(key, value);
+}
+
+// ===== Scope =====
+
+// Network and package the store currently belongs to
+let currentScope = `${KEY_PREFIX}:default`;
+
+// Parsed store for the current scope
+let cache: StoreSnapshot | null = null;
+
+// Scope whose stored value could not be read or backed up; it is never overwritten
+let readOnlyScope: string | null = null;
+
+/**
+ * Namespace the store by network and package ID so IDs never leak across deployments
+ */
+export function setStorageScope(network: string, packageId: string) {
+  const scope = `${KEY_PREFIX}:${network}:${packageId || "unconfigured"}`;
+  if (scope !== currentScope) {
+    currentScope = scope;
+    cache = null;
+  }
+}
+
+export function getStorageScope(): string {
+  return currentScope;
+}
+
+// ===== Load / Save =====
+
+/**
+ * Bring stored data of any known version up to STORAGE_VERSION
+ */
+function migrate(data: any): StoreSnapshot {
+  // Unversioned data is the legacy v0 shape
+  let version = typeof data?.version === "number" ? data.version : 0;
+  let current = data;
+
+  while (version < STORAGE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new Error(`No storage migration from version ${version}`);
+    }
+    current = step(current);
+    version = current.version;
+  }
+
+  if (version > STORAGE_VERSION) {
+    throw new Error(`Storage version ${version} is newer than supported version ${STORAGE_VERSION}`);
+  }
+
+  if (!current.forums || typeof current.forums !== "object" ||
+      !current.pendingForums || typeof current.pendingForums !== "object" ||
+      !current.pendingPolls || typeof current.pendingPolls !== "object" ||
+      !current.voteSecrets || typeof current.voteSecrets !== "object") {
+    throw new Error("Stored data is missing forum entries");
+  }
+
+  return current as StoreSnapshot;
+}
+
+/**
+ * Keep only entries written within the TTL
+ */
+function pruneRecord<T extends { updatedAt: number }>(
+  record: Record<string, T>,
+  now: number
+): Record<string, T> {
+  const fresh: Record<string, T> = {};
+  Object.entries(record).forEach(([key, entry]) => {
+    if (now - entry.updatedAt < STORAGE_TTL_MS) {
+      fresh[key] = entry;
+    }
+  });
+  return fresh;
+}
+
+/**
+ * Drop entries older than the TTL; vote secrets are kept until their reveal window closes
+ */
+function pruneExpired(snapshot: StoreSnapshot, now: number = Date.now()): StoreSnapshot {
+  const voteSecrets: Record<string, VoteSecret> = {};
+  Object.entries(snapshot.voteSecrets).forEach(([key, secret]) => {
+    if (now < secret.revealEndTime) {
+      voteSecrets[key] = secret;
+    }
+  });
+
+  return {
+    ...snapshot,
+    forums: pruneRecord(snapshot.forums, now),
+    pendingForums: pruneRecord(snapshot.pendingForums, now),
+    pendingPolls: pruneRecord(snapshot.pendingPolls, now),
+    voteSecrets,
+  };
+}
+
+/**
+ * Copy stored data this version cannot read (corrupt, or written by a newer version)
+ * to its own key before the store starts over, so secret ballot salts in it survive
+ */
+function backUpUnreadable(raw: string): boolean {
+  const backupKey = `${currentScope}:unreadable:${Date.now()}`;
+  writeRaw(backupKey, raw);
+  // writeRaw falls back to memory when localStorage rejects the write
+  return readRaw(backupKey) === raw;
+}
+
+function load(): StoreSnapshot {
+  if (cache) return cache;
+
+  const raw = readRaw(currentScope);
+  let snapshot: StoreSnapshot = {
+    version: STORAGE_VERSION,
+    forums: {},
+    pendingForums: {},
+    pendingPolls: {},
+    voteSecrets: {},
+  };
+
+  if (raw) {
+    try {
+      snapshot = migrate(JSON.parse(raw));
+    } catch (error) {
+      if (backUpUnreadable(raw)) {
+        console.warn("Unreadable storage data was backed up and will be replaced:", error);
+      } else {
+        console.warn("Unreadable storage data could not be backed up; changes stay in memory:", error);
+        readOnlyScope = currentScope;
+      }
+    }
+  }
+
+  cache = pruneExpired(snapshot);
+  return cache;
+}
+
+function save(snapshot: StoreSnapshot) {
+  cache = snapshot;
+  if (readOnlyScope === currentScope) {
+    return;
+  }
+  writeRaw(currentScope, JSON.stringify(snapshot));
+}
+
+function updateForum(forumId: string, data: ForumData) {
+  const snapshot = load();
+  const existing = snapshot.forums[forumId] || {};
+  save({
+    ...snapshot,
+    forums: {
+      ...snapshot.forums,
+      [forumId]: { ...existing, ...data, updatedAt: Date.now() },
+    },
+  });
+}
+
+function getForumEntry(forumId: string): StoredForumData | null {
+  const entry = load().forums[forumId];
+  if (!entry) return null;
+  return Date.now() - entry.updatedAt < STORAGE_TTL_MS ? entry : null;
+}
+
+// ===== Forum Data =====
 
 // Forum -> Registry ID mapping
 export function saveRegistryId(forumId: string, registryId: string) {
-  const existing = storage.get(forumId) || {};
-  storage.set(forumId, { ...existing, registryId });
+  updateForum(forumId, { registryId });
 }
 
 export function getRegistryId(forumId: string): string | null {
-  return storage.get(forumId)?.registryId || null;
+  return getForumEntry(forumId)?.registryId || null;
 }
 
 // Poll ID storage
 export function savePollId(forumId: string, pollId: string) {
-  const existing = storage.get(forumId) || {};
-  storage.set(forumId, { ...existing, pollId });
+  updateForum(forumId, { pollId });
 }
 
 export function getPollId(forumId: string): string | null {
-  return storage.get(forumId)?.pollId || null;
+  return getForumEntry(forumId)?.pollId || null;
 }
 
-// Vote Registry ID storage  
+// Vote Registry ID storage
 export function saveVoteRegistryId(forumId: string, voteRegistryId: string) {
-  const existing = storage.get(forumId) || {};
-  storage.set(forumId, { ...existing, voteRegistryId });
+  updateForum(forumId, { voteRegistryId });
 }
 
 export function getVoteRegistryId(forumId: string): string | null {
-  return storage.get(forumId)?.voteRegistryId || null;
+  return getForumEntry(forumId)?.voteRegistryId || null;
 }
 
 // Get all data for a forum
 export function getForumData(forumId: string): ForumData {
-  return storage.get(forumId) || {};
-}
\ No newline at end of file
+  const entry = getForumEntry(forumId);
+  if (!entry) return {};
+  return {
+    registryId: entry.registryId,
+    pollId: entry.pollId,
+    voteRegistryId: entry.voteRegistryId,
+  };
+}
+
+// ===== Pending Forum Creations =====
+
+/**
+ * Remember a forum that still needs its member registry
+ */
+export function savePendingForum(forumId: string, name: string, creator: string) {
+  const snapshot = load();
+  save({
+    ...snapshot,
+    pendingForums: {
+      ...snapshot.pendingForums,
+      [forumId]: { forumId, name, creator, updatedAt: Date.now() },
+    },
+  });
+}
+
+export function getPendingForums(creator: string): PendingForumCreation[] {
+  return Object.values(load().pendingForums)
+    .filter(pending => pending.creator === creator)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function clearPendingForum(forumId: string) {
+  const snapshot = load();
+  if (!snapshot.pendingForums[forumId]) return;
+
+  const pendingForums = { ...snapshot.pendingForums };
+  delete pendingForums[forumId];
+  save({ ...snapshot, pendingForums });
+}
+
+// ===== Pending Poll Creations =====
+
+/**
+ * Remember a poll that still needs its vote registry
+ */
+export function savePendingPoll(pollId: string, forumId: string, title: string, creator: string) {
+  const snapshot = load();
+  save({
+    ...snapshot,
+    pendingPolls: {
+      ...snapshot.pendingPolls,
+      [pollId]: { pollId, forumId, title, creator, updatedAt: Date.now() },
+    },
+  });
+}
+
+export function getPendingPolls(creator: string): PendingPollCreation[] {
+  return Object.values(load().pendingPolls)
+    .filter(pending => pending.creator === creator)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function clearPendingPoll(pollId: string) {
+  const snapshot = load();
+  if (!snapshot.pendingPolls[pollId]) return;
+
+  const pendingPolls = { ...snapshot.pendingPolls };
+  delete pendingPolls[pollId];
+  save({ ...snapshot, pendingPolls });
+}
+
+// ===== Secret Ballot Salts =====
+
+function voteSecretKey(pollId: string, voter: string): string {
+  return `${pollId}:${voter}`;
+}
+
+/**
+ * Remember a commitment's choice and salt as pending; must happen before the commitment is sent
+ * An existing secret for the poll and voter is never overwritten, since its commitment may
+ * already be on chain. Returns whichever secret is stored.
+ */
+export function saveVoteSecret(secret: Omit<VoteSecret, "pending" | "updatedAt">): VoteSecret {
+  const snapshot = load();
+  const key = voteSecretKey(secret.pollId, secret.voter);
+  const existing = snapshot.voteSecrets[key];
+  if (existing) {
+    return existing;
+  }
+
+  const stored: VoteSecret = { ...secret, pending: true, updatedAt: Date.now() };
+  save({ ...snapshot, voteSecrets: { ...snapshot.voteSecrets, [key]: stored } });
+  return stored;
+}
+
+/**
+ * Mark a secret's commitment as on chain
+ */
+export function confirmVoteSecret(pollId: string, voter: string) {
+  const snapshot = load();
+  const key = voteSecretKey(pollId, voter);
+  const secret = snapshot.voteSecrets[key];
+  if (!secret?.pending) return;
+
+  save({
+    ...snapshot,
+    voteSecrets: { ...snapshot.voteSecrets, [key]: { ...secret, pending: false, updatedAt: Date.now() } },
+  });
+}
+
+export function getVoteSecret(pollId: string, voter: string): VoteSecret | null {
+  return load().voteSecrets[voteSecretKey(pollId, voter)] || null;
+}
+
+/**
+ * Commitments a voter still has to reveal, soonest deadline first
+ */
+export function getPendingReveals(voter: string): VoteSecret[] {
+  return Object.values(load().voteSecrets)
+    .filter(secret => secret.voter === voter)
+    .sort((a, b) => a.revealEndTime - b.revealEndTime);
+}
+
+export function clearVoteSecret(pollId: string, voter: string) {
+  const snapshot = load();
+  const key = voteSecretKey(pollId, voter);
+  if (!snapshot.voteSecrets[key]) return;
+
+  const voteSecrets = { ...snapshot.voteSecrets };
+  delete voteSecrets[key];
+  save({ ...snapshot, voteSecrets });
+}
+
+// ===== Backup =====
+
+/**
+ * Serialize the current scope's store as a JSON backup
+ */
+export function exportStore(): string {
+  const backup: StoreBackup = {
+    ...load(),
+    scope: currentScope,
+    exportedAt: Date.now(),
+  };
+  return JSON.stringify(backup, null, 2);
+}
+
+/**
+ * Merge a JSON backup into the current scope's store, returning the number of forums imported.
+ * Newer entries win; backups from another network or package are rejected.
+ */
+export function importStore(json: string): number {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Backup is not valid JSON");
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error("Backup has an unexpected format");
+  }
+
+  if (parsed.scope && parsed.scope !== currentScope) {
+    throw new Error(`Backup belongs to ${parsed.scope}, not ${currentScope}`);
+  }
+
+  const incoming = pruneExpired(migrate(parsed));
+  const snapshot = load();
+  const forums = { ...snapshot.forums };
+  const pendingForums = { ...snapshot.pendingForums };
+  const pendingPolls = { ...snapshot.pendingPolls };
+  const voteSecrets = { ...snapshot.voteSecrets };
+
+  let imported = 0;
+  Object.entries(incoming.forums).forEach(([forumId, entry]) => {
+    const existing = forums[forumId];
+    if (!existing || existing.updatedAt < entry.updatedAt) {
+      forums[forumId] = { ...existing, ...entry };
+      imported++;
+    }
+  });
+
+  Object.entries(incoming.pendingForums).forEach(([forumId, entry]) => {
+    // A registry we already know about means the creation was finished
+    if (!forums[forumId]?.registryId && !pendingForums[forumId]) {
+      pendingForums[forumId] = entry;
+    }
+  });
+
+  Object.entries(incoming.pendingPolls).forEach(([pollId, entry]) => {
+    if (!pendingPolls[pollId]) {
+      pendingPolls[pollId] = entry;
+    }
+  });
+
+  Object.entries(incoming.voteSecrets).forEach(([key, secret]) => {
+    if (!voteSecrets[key]) {
+      voteSecrets[key] = secret;
+    }
+  });
+
+  save({ ...snapshot, forums, pendingForums, pendingPolls, voteSecrets });
+  return imported;
+}
+
+/**
+ * Remove everything stored for the current scope
+ */
+export function clearStore() {
+  save({ version: STORAGE_VERSION, forums: {}, pendingForums: {}, pendingPolls: {}, voteSecrets: {} });
+}
@@ -1,19 +1,34 @@
 // Sui blockchain utility functions for Shallot system
 
-import { SuiClient, SuiObjectResponse, SuiEvent } from "@mysten/sui/client";
+import {
+  SuiClient,
+  SuiObjectResponse,
+  SuiEvent,
+  SuiTransactionBlockResponse,
+  EventId,
+  DynamicFieldName,
+  getFullnodeUrl
+} from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
 import { isValidSuiObjectId, isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
 import { 
   MODULES, 
   FUNCTIONS, 
-  DEFAULT_GAS_BUDGET, 
-  EVENT_TYPES 
+  EVENT_TYPES,
+  INDEXER_URL
 } from "../constants";
 import type { 
   TransactionResult, 
   EventFilter,
+  PaginatedResponse,
   ObjectId,
-  Address 
+  Address,
+  ForumCommitment,
+  GovernanceConfig,
+  CommitmentVerifierFields,
+  GovernanceConfigFields,
+  SecretBallotFields,
+  VoteCommitmentFields
 } from "../types";
 
 // ===== Object ID and Address Utilities =====
@@ -64,12 +79,10 @@ export function getShortId(id: string, prefixLength: number = 6, suffixLength: n
 // ===== Transaction Building Utilities =====
 
 /**
- * Create a new transaction with default settings
+ * Create a new transaction; the gas budget is set by simulateTransaction before signing
  */
 export function createTransaction(): Transaction {
-  const tx = new Transaction();
-  tx.setGasBudget(DEFAULT_GAS_BUDGET);
-  return tx;
+  return new Transaction();
 }
 
 /**
@@ -128,6 +141,98 @@ export function createMemberRegistryTransaction(
   return tx;
 }
 
+/**
+ * Create Forum and its Member Registry in a single transaction
+ * Requires a package version that has `membership::create_forum_with_registry`
+ */
+export function createForumWithRegistryTransaction(
+  packageId: string,
+  args: {
+    name: string;
+    description: string;
+    password: string;
+  }
+): Transaction {
+  const tx = createTransaction();
+  
+  tx.moveCall({
+    target: buildMoveCallTarget(packageId, "MEMBERSHIP", "CREATE_FORUM_WITH_REGISTRY"),
+    arguments: [
+      tx.pure.string(args.name),
+      tx.pure.string(args.description),
+      tx.pure.string(args.password),
+      tx.object("0x6"), // Clock object
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Create Forum and its Member Registry with a password commitment
+ * The password itself never goes on chain; see `utils/crypto.ts#createForumCommitment`
+ */
+export function createForumWithCommitmentTransaction(
+  packageId: string,
+  args: {
+    name: string;
+    description: string;
+    publicKey: number[];
+    salt: number[];
+    kdfIterations: number;
+  }
+): Transaction {
+  const tx = createTransaction();
+  
+  tx.moveCall({
+    target: buildMoveCallTarget(packageId, "MEMBERSHIP", "CREATE_FORUM_WITH_COMMITMENT"),
+    arguments: [
+      tx.pure.string(args.name),
+      tx.pure.string(args.description),
+      tx.pure.vector("u8", args.publicKey),
+      tx.pure.vector("u8", args.salt),
+      tx.pure.u64(args.kdfIterations),
+      tx.object("0x6"), // Clock object
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Create a commitment Forum with its own quorum and pass threshold, and its Member Registry
+ */
+export function createForumWithCommitmentAndGovernanceTransaction(
+  packageId: string,
+  args: {
+    name: string;
+    description: string;
+    publicKey: number[];
+    salt: number[];
+    kdfIterations: number;
+    governance: GovernanceConfig;
+  }
+): Transaction {
+  const tx = createTransaction();
+  
+  tx.moveCall({
+    target: buildMoveCallTarget(packageId, "MEMBERSHIP", "CREATE_FORUM_WITH_COMMITMENT_AND_GOVERNANCE"),
+    arguments: [
+      tx.pure.string(args.name),
+      tx.pure.string(args.description),
+      tx.pure.vector("u8", args.publicKey),
+      tx.pure.vector("u8", args.salt),
+      tx.pure.u64(args.kdfIterations),
+      tx.pure.u64(args.governance.quorumPercent),
+      tx.pure.u64(args.governance.thresholdNumerator),
+      tx.pure.u64(args.governance.thresholdDenominator),
+      tx.object("0x6"), // Clock object
+    ],
+  });
+  
+  return tx;
+}
+
 /**
  * Create Join Forum transaction
  */
@@ -154,6 +259,66 @@ export function createJoinForumTransaction(
   return tx;
 }
 
+/**
+ * Create Join Forum transaction for a commitment forum
+ * `signature` comes from `utils/crypto.ts#createJoinProof` for the sender's address
+ */
+export function createJoinForumWithProofTransaction(
+  packageId: string,
+  args: {
+    forumId: ObjectId;
+    registryId: ObjectId;
+    signature: number[];
+  }
+): Transaction {
+  const tx = createTransaction();
+  
+  tx.moveCall({
+    target: buildMoveCallTarget(packageId, "MEMBERSHIP", "JOIN_FORUM_WITH_PROOF"),
+    arguments: [
+      tx.object(args.forumId),
+      tx.object(args.registryId),
+      tx.pure.vector("u8", args.signature),
+      tx.object("0x6"), // Clock object
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Move a password forum to a commitment
+ * Sends the current password one last time; the sender must be a member
+ */
+export function createMigrateToCommitmentTransaction(
+  packageId: string,
+  args: {
+    forumId: ObjectId;
+    registryId: ObjectId;
+    password: string;
+    publicKey: number[];
+    salt: number[];
+    kdfIterations: number;
+  }
+): Transaction {
+  const tx = createTransaction();
+  
+  tx.moveCall({
+    target: buildMoveCallTarget(packageId, "MEMBERSHIP", "MIGRATE_TO_COMMITMENT"),
+    arguments: [
+      tx.object(args.forumId),
+      tx.object(args.registryId),
+      tx.pure.string(args.password),
+      tx.pure.vector("u8", args.publicKey),
+      tx.pure.vector("u8", args.salt),
+      tx.pure.u64(args.kdfIterations),
+      tx.object("0x6"), // Clock object
+    ],
+  });
+  
+  return tx;
+}
+
 /**
  * Create Poll creation transaction
  */
@@ -188,6 +353,43 @@ export function createPollTransaction(
   return tx;
 }
 
+/**
+ * Create secret ballot Poll transaction
+ * Votes are committed until the poll ends, then revealed within `revealDurationMs`
+ */
+export function createSecretPollTransaction(
+  packageId: string,
+  args: {
+    forumId: ObjectId;
+    registryId: ObjectId;
+    title: string;
+    description: string;
+    newName: string;
+    newDescription: string;
+    durationMs: number;
+    revealDurationMs: number;
+  }
+): Transaction {
+  const tx = createTransaction();
+  
+  tx.moveCall({
+    target: buildMoveCallTarget(packageId, "POLL", "CREATE_SECRET_POLL"),
+    arguments: [
+      tx.object(args.forumId),
+      tx.object(args.registryId),
+      tx.pure.string(args.title),
+      tx.pure.string(args.description),
+      tx.pure.string(args.newName),
+      tx.pure.string(args.newDescription),
+      tx.pure.u64(args.durationMs),
+      tx.pure.u64(args.revealDurationMs),
+      tx.object("0x6"), // Clock object
+    ],
+  });
+  
+  return tx;
+}
+
 /**
  * Create Vote Registry initialization transaction
  */
@@ -235,6 +437,63 @@ export function createVoteTransaction(
   return tx;
 }
 
+/**
+ * Create Commit Vote transaction for a secret ballot
+ * `commitment` comes from `utils/crypto.ts#computeVoteCommitment`
+ */
+export function createCommitVoteTransaction(
+  packageId: string,
+  args: {
+    pollId: ObjectId;
+    voteRegistryId: ObjectId;
+    memberRegistryId: ObjectId;
+    commitment: number[];
+  }
+): Transaction {
+  const tx = createTransaction();
+  
+  tx.moveCall({
+    target: buildMoveCallTarget(packageId, "BALLOT", "COMMIT_VOTE"),
+    arguments: [
+      tx.object(args.pollId),
+      tx.object(args.voteRegistryId),
+      tx.object(args.memberRegistryId),
+      tx.pure.vector("u8", args.commitment),
+      tx.object("0x6"), // Clock object
+    ],
+  });
+  
+  return tx;
+}
+
+/**
+ * Create Reveal Vote transaction for a secret ballot
+ */
+export function createRevealVoteTransaction(
+  packageId: string,
+  args: {
+    pollId: ObjectId;
+    voteRegistryId: ObjectId;
+    choice: boolean;
+    salt: number[];
+  }
+): Transaction {
+  const tx = createTransaction();
+  
+  tx.moveCall({
+    target: buildMoveCallTarget(packageId, "BALLOT", "REVEAL_VOTE"),
+    arguments: [
+      tx.object(args.pollId),
+      tx.object(args.voteRegistryId),
+      tx.pure.bool(args.choice),
+      tx.pure.vector("u8", args.salt),
+      tx.object("0x6"), // Clock object
+    ],
+  });
+  
+  return tx;
+}
+
 /**
  * Create Execute Poll transaction
  */
@@ -334,43 +593,481 @@ export async function getMultipleObjectsSafe(
   }
 }
 
+/**
+ * Get one page of objects of a Move struct type owned by an address
+ */
+export async function getOwnedObjectsPage(
+  client: SuiClient,
+  owner: Address,
+  structType: string,
+  options?: { cursor?: string | null; limit?: number; offset?: number }
+): Promise<PaginatedResponse<SuiObjectResponse>> {
+  const limit = options?.limit || 50;
+  const offset = options?.offset || 0;
+
+  try {
+    const response = await client.getOwnedObjects({
+      owner,
+      filter: { StructType: structType },
+      options: { showContent: true, showType: true },
+      cursor: options?.cursor,
+      limit,
+    });
+
+    return {
+      data: response.data,
+      success: true,
+      timestamp: Date.now(),
+      pagination: {
+        total: offset + response.data.length,
+        limit,
+        offset,
+        hasMore: response.hasNextPage,
+        nextCursor: response.hasNextPage ? response.nextCursor ?? null : null,
+      },
+    };
+  } catch (error: any) {
+    console.error(`Failed to fetch ${structType} objects owned by ${owner}:`, error);
+    return {
+      data: [],
+      success: false,
+      error: error?.message || "Failed to fetch owned objects",
+      timestamp: Date.now(),
+      pagination: { total: offset, limit, offset, hasMore: false, nextCursor: null },
+    };
+  }
+}
+
+/**
+ * Iterate over every object of a Move struct type owned by an address
+ */
+export async function* iterateOwnedObjects(
+  client: SuiClient,
+  owner: Address,
+  structType: string
+): AsyncGenerator<SuiObjectResponse> {
+  let cursor: string | null = null;
+
+  while (true) {
+    const page: PaginatedResponse<SuiObjectResponse> = await getOwnedObjectsPage(client, owner, structType, { cursor });
+    if (!page.success) {
+      throw new Error(page.error);
+    }
+
+    yield* page.data;
+
+    cursor = page.pagination.nextCursor ?? null;
+    if (!cursor) {
+      return;
+    }
+  }
+}
+
+/**
+ * Iterate over every transaction that took an object as input, with sender and object changes
+ * For a Poll this covers each vote, reveal and its execution
+ */
+export async function* iterateTransactionsWithInput(
+  client: SuiClient,
+  objectId: ObjectId
+): AsyncGenerator<SuiTransactionBlockResponse> {
+  let cursor: string | null | undefined = null;
+
+  do {
+    const page = await client.queryTransactionBlocks({
+      filter: { InputObject: objectId },
+      options: { showInput: true, showEffects: true, showObjectChanges: true },
+      cursor,
+    });
+
+    yield* page.data;
+
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+}
+
+/**
+ * Transaction that created an object, with sender and object changes
+ * The oldest transaction that changed an object is the one that created it
+ */
+export async function getObjectCreationTransaction(
+  client: SuiClient,
+  objectId: ObjectId
+): Promise<SuiTransactionBlockResponse | null> {
+  const page = await client.queryTransactionBlocks({
+    filter: { ChangedObject: objectId },
+    options: { showInput: true, showObjectChanges: true },
+    limit: 1,
+    order: "ascending",
+  });
+
+  return page.data[0] ?? null;
+}
+
+/**
+ * Check whether a Move `Table<address, _>` has an entry for the given address
+ * Throws when the lookup fails, so an RPC error is never read as "not present"
+ */
+export async function tableContainsAddress(
+  client: SuiClient,
+  tableId: ObjectId,
+  address: Address
+): Promise<boolean> {
+  const response = await client.getDynamicFieldObject({
+    parentId: tableId,
+    name: {
+      type: "address",
+      value: normalizeAddress(address),
+    },
+  });
+
+  if (response.data) {
+    return true;
+  }
+  // Only a missing entry means "not in the table"; anything else is a failed lookup
+  if (response.error?.code === "dynamicFieldNotFound") {
+    return false;
+  }
+  throw new Error(`Failed to look up ${address} in table ${tableId}: ${response.error?.code || "no data"}`);
+}
+
+/**
+ * Struct value of a dynamic field, or null when the field does not exist
+ * Throws when the lookup fails, so an RPC error is never read as "not set"
+ */
+async function getDynamicFieldValue<T>(
+  client: SuiClient,
+  parentId: ObjectId,
+  name: DynamicFieldName
+): Promise<T | null> {
+  const response = await client.getDynamicFieldObject({ parentId, name });
+  if (response.error?.code === "dynamicFieldNotFound") {
+    return null;
+  }
+
+  const field = extractObjectFields<{ value: { fields: T } }>(response);
+  if (!field) {
+    throw new Error(`Failed to read dynamic field ${name.type} of ${parentId}: ${response.error?.code || "no data"}`);
+  }
+  return field.value.fields;
+}
+
+/**
+ * Read a forum's password commitment, stored as a dynamic field on the Forum
+ * Returns null for forums that still use a plain password hash, and throws if the read fails
+ */
+export async function getForumCommitment(
+  client: SuiClient,
+  packageId: string,
+  forumId: ObjectId
+): Promise<ForumCommitment | null> {
+  const value = await getDynamicFieldValue<CommitmentVerifierFields>(client, forumId, {
+    type: `${packageId}::${MODULES.FORUM}::CommitmentVerifierKey`,
+    value: { dummy_field: false },
+  });
+  if (!value) {
+    return null;
+  }
+
+  return {
+    publicKey: value.public_key,
+    salt: value.salt,
+    kdfIterations: Number(value.kdf_iterations),
+    createdAt: Number(value.created_at),
+  };
+}
+
+/**
+ * Read a Forum's quorum and pass threshold, stored as a dynamic field on the Forum
+ * Returns null for forums created without one (no quorum, simple majority)
+ */
+export async function getForumGovernance(
+  client: SuiClient,
+  packageId: string,
+  forumId: ObjectId
+): Promise<GovernanceConfig | null> {
+  try {
+    const value = await getDynamicFieldValue<GovernanceConfigFields>(client, forumId, {
+      type: `${packageId}::${MODULES.FORUM}::GovernanceConfigKey`,
+      value: { dummy_field: false },
+    });
+    if (!value) {
+      return null;
+    }
+
+    return {
+      quorumPercent: Number(value.quorum_percent),
+      thresholdNumerator: Number(value.threshold_numerator),
+      thresholdDenominator: Number(value.threshold_denominator),
+    };
+  } catch (error) {
+    console.error(`Failed to read governance for forum ${forumId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Read a secret ballot's reveal deadline, stored as a dynamic field on the Poll
+ * Returns null for regular polls
+ */
+export async function getPollRevealEndTime(
+  client: SuiClient,
+  packageId: string,
+  pollId: ObjectId
+): Promise<number | null> {
+  try {
+    const value = await getDynamicFieldValue<SecretBallotFields>(client, pollId, {
+      type: `${packageId}::${MODULES.POLL}::SecretBallotKey`,
+      value: { dummy_field: false },
+    });
+    return value ? Number(value.reveal_end_time) : null;
+  } catch (error) {
+    console.error(`Failed to read secret ballot settings for poll ${pollId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Read a voter's secret ballot commitment from a VoteRegistry, or null if they have not committed
+ * Throws if the read fails, so a stored salt is never dropped because of an RPC error
+ */
+export async function getVoteCommitment(
+  client: SuiClient,
+  packageId: string,
+  voteRegistryId: ObjectId,
+  voter: Address
+): Promise<{ commitment: number[]; revealed: boolean } | null> {
+  const value = await getDynamicFieldValue<VoteCommitmentFields>(client, voteRegistryId, {
+    type: `${packageId}::${MODULES.BALLOT}::VoteCommitmentKey`,
+    value: { voter: normalizeAddress(voter) },
+  });
+  return value ? { commitment: value.commitment, revealed: value.revealed } : null;
+}
+
+// ===== Network Utilities =====
+
+const NETWORK_NAMES = ["mainnet", "testnet", "devnet", "localnet"] as const;
+
+/**
+ * Fullnode URL for a network name, or the argument itself if it is already a URL
+ * Used by the command line tools (`--network testnet` or `--rpc http://127.0.0.1:9000`)
+ */
+export function resolveRpcUrl(networkOrUrl: string): string {
+  const network = NETWORK_NAMES.find(name => name === networkOrUrl);
+  return network ? getFullnodeUrl(network) : networkOrUrl;
+}
+
 // ===== Event Query Utilities =====
 
+// Events fetched per RPC call when scanning
+const EVENT_PAGE_SIZE = 50;
+
+interface EventQueryOptions {
+  cursor?: string | null;    // from a previous page's `pagination.nextCursor`
+  descending?: boolean;
+  match?: (event: SuiEvent) => boolean;  // client-side filter applied while scanning
+}
+
 /**
- * Query events with filtering
+ * Encode an event ID as an opaque page cursor
  */
-export async function queryEvents(
+export function encodeEventCursor(id: EventId): string {
+  return `${id.txDigest}:${id.eventSeq}`;
+}
+
+/**
+ * Decode a page cursor back into an event ID
+ */
+export function decodeEventCursor(cursor: string): EventId {
+  const separator = cursor.lastIndexOf(":");
+  if (separator <= 0) {
+    throw new Error(`Invalid event cursor: ${cursor}`);
+  }
+  return {
+    txDigest: cursor.slice(0, separator),
+    eventSeq: cursor.slice(separator + 1),
+  };
+}
+
+/**
+ * Build the RPC event filter
+ */
+function buildEventQuery(filter: EventFilter): any {
+  const eventFilter: any = {};
+  
+  if (filter.eventType) {
+    eventFilter.MoveEventType = `${filter.packageId}::${filter.moduleId}::${filter.eventType}`;
+  }
+  
+  if (filter.fromAddress) {
+    eventFilter.Sender = filter.fromAddress;
+  }
+  
+  return eventFilter;
+}
+
+/**
+ * Fetch one page of events from the local indexer, or null if it cannot serve the query
+ */
+async function fetchIndexedEvents(
+  query: any,
+  cursor: EventId | null,
+  limit: number,
+  order: "ascending" | "descending"
+): Promise<{ data: SuiEvent[]; nextCursor: EventId | null; hasNextPage: boolean } | null> {
+  // The indexer only holds this package's events, filtered by type
+  if (!INDEXER_URL || !query.MoveEventType || Object.keys(query).length > 1) {
+    return null;
+  }
+
+  const params = new URLSearchParams({ type: query.MoveEventType, limit: String(limit), order });
+  if (cursor) {
+    params.set("cursor", encodeEventCursor(cursor));
+  }
+
+  try {
+    const response = await fetch(`${INDEXER_URL}/events?${params}`);
+    if (!response.ok) {
+      return null;
+    }
+    const page = await response.json();
+    return {
+      data: page.data,
+      nextCursor: page.nextCursor ? decodeEventCursor(page.nextCursor) : null,
+      hasNextPage: page.hasNextPage,
+    };
+  } catch (error) {
+    console.warn("Indexer unavailable, querying the fullnode:", error);
+    return null;
+  }
+}
+
+/**
+ * Iterate over every matching event, fetching pages from the indexer or RPC as needed
+ */
+export async function* iterateEvents(
   client: SuiClient,
   filter: EventFilter,
-  options?: {
+  options?: EventQueryOptions & { pageSize?: number }
+): AsyncGenerator<SuiEvent> {
+  let cursor: EventId | null = options?.cursor ? decodeEventCursor(options.cursor) : null;
+  const query = buildEventQuery(filter);
+  const limit = options?.pageSize || EVENT_PAGE_SIZE;
+  const order = options?.descending ? "descending" : "ascending";
+
+  while (true) {
+    const response = await fetchIndexedEvents(query, cursor, limit, order)
+      ?? await client.queryEvents({ query, cursor, limit, order });
+
+    for (const event of response.data) {
+      if (!options?.match || options.match(event)) {
+        yield event;
+      }
+    }
+
+    if (!response.hasNextPage || !response.nextCursor) {
+      return;
+    }
+    cursor = response.nextCursor;
+  }
+}
+
+/**
+ * Query one page of matching events
+ * Client-side matches are collected across as many RPC pages as needed to fill the page.
+ * `total` is the number of events returned so far (offset + page), as the RPC has no count.
+ */
+export async function queryEventsPage(
+  client: SuiClient,
+  filter: EventFilter,
+  options?: EventQueryOptions & {
     limit?: number;
-    descending?: boolean;
+    offset?: number;
   }
-): Promise<SuiEvent[]> {
+): Promise<PaginatedResponse<SuiEvent>> {
+  const limit = options?.limit || EVENT_PAGE_SIZE;
+  const offset = options?.offset || 0;
+
   try {
-    const eventFilter: any = {};
-    
-    if (filter.eventType) {
-      eventFilter.MoveEventType = `${filter.packageId}::${filter.moduleId}::${filter.eventType}`;
-    }
-    
-    if (filter.fromAddress) {
-      eventFilter.Sender = filter.fromAddress;
+    const data: SuiEvent[] = [];
+    let hasMore = false;
+
+    // Read one extra match to learn whether another page exists
+    for await (const event of iterateEvents(client, filter, options)) {
+      if (data.length === limit) {
+        hasMore = true;
+        break;
+      }
+      data.push(event);
     }
-    
-    const response = await client.queryEvents({
-      query: eventFilter,
-      limit: options?.limit || 50,
-      order: options?.descending ? "descending" : "ascending",
-    });
-    
-    return response.data;
-  } catch (error) {
+
+    return {
+      data,
+      success: true,
+      timestamp: Date.now(),
+      pagination: {
+        total: offset + data.length,
+        limit,
+        offset,
+        hasMore,
+        nextCursor: hasMore ? encodeEventCursor(data[data.length - 1].id) : null,
+      },
+    };
+  } catch (error: any) {
     console.error("Failed to query events:", error);
-    return [];
+    return {
+      data: [],
+      success: false,
+      error: error?.message || "Failed to query events",
+      timestamp: Date.now(),
+      pagination: { total: offset, limit, offset, hasMore: false, nextCursor: null },
+    };
   }
 }
 
+/**
+ * Query events with filtering (first `limit` matches)
+ */
+export async function queryEvents(
+  client: SuiClient,
+  filter: EventFilter,
+  options?: EventQueryOptions & {
+    limit?: number;
+  }
+): Promise<SuiEvent[]> {
+  const page = await queryEventsPage(client, filter, options);
+  return page.data;
+}
+
+/**
+ * Match events whose payload belongs to a forum
+ */
+function forumEventMatcher(forumId?: ObjectId) {
+  if (!forumId) return undefined;
+  return (event: SuiEvent) =>
+    (event.parsedJson as { forum_id?: unknown } | undefined)?.forum_id === forumId;
+}
+
+/**
+ * Match events whose payload belongs to a poll
+ */
+function pollEventMatcher(pollId?: ObjectId) {
+  if (!pollId) return undefined;
+  return (event: SuiEvent) =>
+    (event.parsedJson as { poll_id?: unknown } | undefined)?.poll_id === pollId;
+}
+
+/**
+ * Shallot event filter for an event type
+ */
+function shallotEventFilter(packageId: string, eventType: string): EventFilter {
+  return {
+    eventType,
+    packageId,
+    moduleId: MODULES.EVENTS,
+  };
+}
+
 /**
  * Get Forum creation events
  */
@@ -379,11 +1076,29 @@ export async function getForumCreatedEvents(
   packageId: string,
   limit?: number
 ): Promise<SuiEvent[]> {
-  return queryEvents(client, {
-    eventType: EVENT_TYPES.FORUM_CREATED,
-    packageId,
-    moduleId: MODULES.EVENTS,
-  }, { limit });
+  return queryEvents(client, shallotEventFilter(packageId, EVENT_TYPES.FORUM_CREATED), { limit });
+}
+
+/**
+ * Get one page of Forum creation events
+ */
+export async function getForumCreatedEventsPage(
+  client: SuiClient,
+  packageId: string,
+  options?: { cursor?: string | null; limit?: number; offset?: number; descending?: boolean }
+): Promise<PaginatedResponse<SuiEvent>> {
+  return queryEventsPage(client, shallotEventFilter(packageId, EVENT_TYPES.FORUM_CREATED), options);
+}
+
+/**
+ * Iterate over all Forum creation events
+ */
+export function iterateForumCreatedEvents(
+  client: SuiClient,
+  packageId: string,
+  options?: { cursor?: string | null; descending?: boolean }
+): AsyncGenerator<SuiEvent> {
+  return iterateEvents(client, shallotEventFilter(packageId, EVENT_TYPES.FORUM_CREATED), options);
 }
 
 /**
@@ -395,20 +1110,40 @@ export async function getMemberJoinedEvents(
   forumId?: ObjectId,
   limit?: number
 ): Promise<SuiEvent[]> {
-  const events = await queryEvents(client, {
-    eventType: EVENT_TYPES.MEMBER_JOINED,
-    packageId,
-    moduleId: MODULES.EVENTS,
-  }, { limit });
-  
-  if (forumId) {
-    return events.filter(event => 
-      event.parsedJson && 
-      (event.parsedJson as any).forum_id === forumId
-    );
-  }
-  
-  return events;
+  return queryEvents(client, shallotEventFilter(packageId, EVENT_TYPES.MEMBER_JOINED), {
+    limit,
+    match: forumEventMatcher(forumId),
+  });
+}
+
+/**
+ * Get one page of Member joined events, optionally for a specific forum
+ */
+export async function getMemberJoinedEventsPage(
+  client: SuiClient,
+  packageId: string,
+  forumId?: ObjectId,
+  options?: { cursor?: string | null; limit?: number; offset?: number; descending?: boolean }
+): Promise<PaginatedResponse<SuiEvent>> {
+  return queryEventsPage(client, shallotEventFilter(packageId, EVENT_TYPES.MEMBER_JOINED), {
+    ...options,
+    match: forumEventMatcher(forumId),
+  });
+}
+
+/**
+ * Iterate over all Member joined events, optionally for a specific forum
+ */
+export function iterateMemberJoinedEvents(
+  client: SuiClient,
+  packageId: string,
+  forumId?: ObjectId,
+  options?: { cursor?: string | null; descending?: boolean }
+): AsyncGenerator<SuiEvent> {
+  return iterateEvents(client, shallotEventFilter(packageId, EVENT_TYPES.MEMBER_JOINED), {
+    ...options,
+    match: forumEventMatcher(forumId),
+  });
 }
 
 /**
@@ -420,26 +1155,77 @@ export async function getPollCreatedEvents(
   forumId?: ObjectId,
   limit?: number
 ): Promise<SuiEvent[]> {
-  const events = await queryEvents(client, {
-    eventType: EVENT_TYPES.POLL_CREATED,
-    packageId,
-    moduleId: MODULES.EVENTS,
-  }, { limit });
-  
-  if (forumId) {
-    return events.filter(event => 
-      event.parsedJson && 
-      (event.parsedJson as any).forum_id === forumId
-    );
-  }
-  
-  return events;
+  return queryEvents(client, shallotEventFilter(packageId, EVENT_TYPES.POLL_CREATED), {
+    limit,
+    match: forumEventMatcher(forumId),
+  });
+}
+
+/**
+ * Get one page of Poll created events, optionally for a specific forum
+ */
+export async function getPollCreatedEventsPage(
+  client: SuiClient,
+  packageId: string,
+  forumId?: ObjectId,
+  options?: { cursor?: string | null; limit?: number; offset?: number; descending?: boolean }
+): Promise<PaginatedResponse<SuiEvent>> {
+  return queryEventsPage(client, shallotEventFilter(packageId, EVENT_TYPES.POLL_CREATED), {
+    ...options,
+    match: forumEventMatcher(forumId),
+  });
+}
+
+/**
+ * Iterate over all Poll created events, optionally for a specific forum
+ */
+export function iteratePollCreatedEvents(
+  client: SuiClient,
+  packageId: string,
+  forumId?: ObjectId,
+  options?: { cursor?: string | null; descending?: boolean }
+): AsyncGenerator<SuiEvent> {
+  return iterateEvents(client, shallotEventFilter(packageId, EVENT_TYPES.POLL_CREATED), {
+    ...options,
+    match: forumEventMatcher(forumId),
+  });
+}
+
+/**
+ * Iterate over vote received events, optionally for a single poll
+ */
+export function iterateVoteReceivedEvents(
+  client: SuiClient,
+  packageId: string,
+  pollId?: ObjectId,
+  options?: { cursor?: string | null; descending?: boolean }
+): AsyncGenerator<SuiEvent> {
+  return iterateEvents(client, shallotEventFilter(packageId, EVENT_TYPES.VOTE_RECEIVED), {
+    ...options,
+    match: pollEventMatcher(pollId),
+  });
+}
+
+/**
+ * Iterate over poll executed events, optionally for a single poll
+ */
+export function iteratePollExecutedEvents(
+  client: SuiClient,
+  packageId: string,
+  pollId?: ObjectId,
+  options?: { cursor?: string | null; descending?: boolean }
+): AsyncGenerator<SuiEvent> {
+  return iterateEvents(client, shallotEventFilter(packageId, EVENT_TYPES.POLL_EXECUTED), {
+    ...options,
+    match: pollEventMatcher(pollId),
+  });
 }
 
 // ===== Transaction Result Helpers =====
 
 /**
  * Process transaction result
+ * Created object IDs are not guessed here; use the typed parsers in effects.ts
  */
 export function processTransactionResult(
   result: any,
@@ -453,13 +1239,9 @@ export function processTransactionResult(
   }
   
   if (result?.digest) {
-    // Extract created object ID if available
-    const objectId = result.effects?.created?.[0]?.reference?.objectId;
-    
     return {
       success: true,
       digest: result.digest,
-      objectId,
     };
   }
   
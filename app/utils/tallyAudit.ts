@@ -0,0 +1,268 @@
+// Independent poll tally audit for Shallot system
+//
+// `Poll.yes_votes`/`no_votes` are counters that `ballot.move` increments as it
+// shares each `Ballot`. The audit recounts the Ballot objects themselves and
+// cross-checks them against the `VoteReceived` events, `VoteRegistry.total_votes`,
+// the Poll counters and the `PollExecuted` event, so a counter that drifted from
+// the ballots behind it shows up.
+
+import { SuiClient } from "@mysten/sui/client";
+import { toHex } from "@mysten/sui/utils";
+import {
+  getForumGovernance,
+  getObjectSafe,
+  getPollRevealEndTime,
+  iteratePollExecutedEvents,
+  iterateTransactionsWithInput,
+  iterateVoteReceivedEvents
+} from "./sui";
+import { parseCreatedObjects } from "./effects";
+import { resolveVoteRegistryId } from "./registry";
+import {
+  decodeEvents,
+  decodePollExecutedEvent,
+  decodeVoteReceivedEvent
+} from "./decoders";
+import {
+  evaluatePollOutcome,
+  isSecretBallot,
+  processBallot,
+  processPoll,
+  processVoteRegistry
+} from "../types";
+import type {
+  Ballot,
+  ObjectId,
+  Poll,
+  PollExecutedEvent,
+  VoteReceivedEvent
+} from "../types";
+
+// multiGetObjects accepts at most 50 IDs per call
+const OBJECT_BATCH_SIZE = 50;
+
+export type TallyCheck =
+  | "ballot-poll"
+  | "duplicate-ballot"
+  | "duplicate-event"
+  | "ballot-without-event"
+  | "event-without-ballot"
+  | "registry-total"
+  | "poll-counters"
+  | "execution";
+
+export interface TallyIssue {
+  check: TallyCheck;
+  message: string;
+}
+
+export interface TallyAudit {
+  pollId: ObjectId;
+  secretBallot: boolean;
+  ballots: number;
+  voteEvents: number;
+  unrevealed: number; // secret ballots: commitments with no Ballot
+  recount: { yes: number; no: number };
+  pollCounters: { yes: number; no: number };
+  registryTotalVotes: number | null; // null when the registry could not be found
+  execution: PollExecutedEvent | null;
+  issues: TallyIssue[];
+  consistent: boolean;
+}
+
+export interface TallyAuditInput {
+  poll: Poll;
+  ballots: Ballot[];
+  voteEvents: VoteReceivedEvent[];
+  registryTotalVotes: number | null;
+  executedEvents: PollExecutedEvent[];
+}
+
+function voterIdHex(voterId: ArrayLike<number>): string {
+  return toHex(new Uint8Array(Array.from(voterId)));
+}
+
+function findDuplicates(ids: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  ids.forEach(id => (seen.has(id) ? duplicates.add(id) : seen.add(id)));
+  return [...duplicates];
+}
+
+/**
+ * Recount a poll from its ballots and compare every other record of the tally with it
+ */
+export function auditTally({
+  poll,
+  ballots,
+  voteEvents,
+  registryTotalVotes,
+  executedEvents,
+}: TallyAuditInput): TallyAudit {
+  const issues: TallyIssue[] = [];
+  const secretBallot = isSecretBallot(poll);
+
+  const foreign = ballots.filter(ballot => ballot.pollId !== poll.id);
+  if (foreign.length > 0) {
+    issues.push({ check: "ballot-poll", message: `${foreign.length} ballot(s) belong to another poll` });
+  }
+  const counted = ballots.filter(ballot => ballot.pollId === poll.id);
+
+  const recount = {
+    yes: counted.filter(ballot => ballot.vote).length,
+    no: counted.filter(ballot => !ballot.vote).length,
+  };
+
+  const ballotIds = counted.map(ballot => voterIdHex(ballot.anonymousVoterId));
+  const eventIds = voteEvents.map(event => voterIdHex(event.anonymous_voter_id));
+
+  const duplicateBallots = findDuplicates(ballotIds);
+  if (duplicateBallots.length > 0) {
+    issues.push({ check: "duplicate-ballot", message: `${duplicateBallots.length} voter ID(s) have more than one ballot` });
+  }
+  const duplicateEvents = findDuplicates(eventIds);
+  if (duplicateEvents.length > 0) {
+    issues.push({ check: "duplicate-event", message: `${duplicateEvents.length} voter ID(s) were received more than once` });
+  }
+
+  const eventIdSet = new Set(eventIds);
+  const ballotIdSet = new Set(ballotIds);
+  const withoutEvent = ballotIds.filter(id => !eventIdSet.has(id));
+  if (withoutEvent.length > 0) {
+    issues.push({ check: "ballot-without-event", message: `${withoutEvent.length} ballot(s) have no vote received event` });
+  }
+
+  // Secret ballots announce the commit; a commit that was never revealed has no Ballot
+  const withoutBallot = [...eventIdSet].filter(id => !ballotIdSet.has(id));
+  if (withoutBallot.length > 0 && !secretBallot) {
+    issues.push({ check: "event-without-ballot", message: `${withoutBallot.length} received vote(s) have no ballot` });
+  }
+
+  // total_votes counts voters: one per vote, or one per commit on a secret ballot
+  const expectedTotal = secretBallot ? eventIdSet.size : counted.length;
+  if (registryTotalVotes === null) {
+    issues.push({ check: "registry-total", message: "Vote registry not found" });
+  } else if (registryTotalVotes !== expectedTotal) {
+    issues.push({
+      check: "registry-total",
+      message: `Vote registry counts ${registryTotalVotes} voter(s), expected ${expectedTotal}`,
+    });
+  }
+
+  const pollCounters = { yes: poll.yesVotes, no: poll.noVotes };
+  if (pollCounters.yes !== recount.yes || pollCounters.no !== recount.no) {
+    issues.push({
+      check: "poll-counters",
+      message: `Poll counts ${pollCounters.yes} yes / ${pollCounters.no} no, ballots recount ${recount.yes} / ${recount.no}`,
+    });
+  }
+
+  const execution = executedEvents[0] ?? null;
+  if (executedEvents.length > 1) {
+    issues.push({ check: "execution", message: `Poll was executed ${executedEvents.length} times` });
+  }
+  if (poll.isExecuted && !execution) {
+    issues.push({ check: "execution", message: "Poll is executed but has no execution event" });
+  }
+  if (!poll.isExecuted && execution) {
+    issues.push({ check: "execution", message: "Execution event found for a poll that is not executed" });
+  }
+  if (execution) {
+    const total = recount.yes + recount.no;
+    const { passed } = evaluatePollOutcome(recount.yes, recount.no, poll.memberSnapshot, poll.governance ?? undefined);
+    if (execution.yes_votes !== recount.yes || execution.no_votes !== recount.no || execution.total_participants !== total) {
+      issues.push({
+        check: "execution",
+        message: `Execution recorded ${execution.yes_votes} yes / ${execution.no_votes} no, ballots recount ${recount.yes} / ${recount.no}`,
+      });
+    }
+    if (execution.passed !== passed) {
+      issues.push({
+        check: "execution",
+        message: `Execution recorded the poll as ${execution.passed ? "passed" : "rejected"}, ballots say ${passed ? "passed" : "rejected"}`,
+      });
+    }
+  }
+
+  return {
+    pollId: poll.id,
+    secretBallot,
+    ballots: counted.length,
+    voteEvents: voteEvents.length,
+    unrevealed: secretBallot ? withoutBallot.length : 0,
+    recount,
+    pollCounters,
+    registryTotalVotes,
+    execution,
+    issues,
+    consistent: issues.length === 0,
+  };
+}
+
+/**
+ * Every Ballot shared by a transaction on the poll
+ * Unreadable ballots fail the load rather than silently dropping out of the recount
+ */
+async function loadPollBallots(client: SuiClient, packageId: string, pollId: ObjectId): Promise<Ballot[]> {
+  const ballotIds: ObjectId[] = [];
+  for await (const tx of iterateTransactionsWithInput(client, pollId)) {
+    ballotIds.push(...parseCreatedObjects(tx, packageId).Ballot);
+  }
+
+  const ballots: Ballot[] = [];
+  for (let i = 0; i < ballotIds.length; i += OBJECT_BATCH_SIZE) {
+    const responses = await client.multiGetObjects({
+      ids: ballotIds.slice(i, i + OBJECT_BATCH_SIZE),
+      options: { showContent: true, showType: true },
+    });
+    responses.forEach((response, index) => {
+      const ballot = response.data ? processBallot(response.data) : null;
+      if (!ballot) {
+        throw new Error(`Ballot ${ballotIds[i + index]} could not be read`);
+      }
+      ballots.push(ballot);
+    });
+  }
+  return ballots;
+}
+
+/**
+ * Load a poll's ballots, events and registry from chain and audit its tally
+ * The Poll is read last, so its counters are at least as recent as the ballots
+ */
+export async function loadTallyAudit(
+  client: SuiClient,
+  packageId: string,
+  pollId: ObjectId
+): Promise<TallyAudit> {
+  const ballots = await loadPollBallots(client, packageId, pollId);
+
+  const voteEvents = [];
+  for await (const event of iterateVoteReceivedEvents(client, packageId, pollId)) {
+    voteEvents.push(event);
+  }
+  const executedEvents = [];
+  for await (const event of iteratePollExecutedEvents(client, packageId, pollId)) {
+    executedEvents.push(event);
+  }
+
+  const pollResponse = await getObjectSafe(client, pollId);
+  const poll = pollResponse?.data ? processPoll(pollResponse.data) : null;
+  if (!poll) {
+    throw new Error(`Poll ${pollId} not found`);
+  }
+  poll.revealEndTime = await getPollRevealEndTime(client, packageId, pollId);
+  poll.governance = await getForumGovernance(client, packageId, poll.forumId);
+
+  const registryId = await resolveVoteRegistryId(client, packageId, poll);
+  const registryResponse = registryId ? await getObjectSafe(client, registryId) : null;
+  const registry = registryResponse?.data ? processVoteRegistry(registryResponse.data) : null;
+
+  return auditTally({
+    poll,
+    ballots,
+    voteEvents: decodeEvents(voteEvents, decodeVoteReceivedEvent),
+    registryTotalVotes: registry ? registry.totalVotes : null,
+    executedEvents: decodeEvents(executedEvents, decodePollExecutedEvent),
+  });
+}
@@ -1,9 +1,11 @@
 // Validation utility functions for Shallot system
 
 import { isValidSuiObjectId, isValidSuiAddress } from "@mysten/sui/utils";
-import { VALIDATION } from "../constants";
+import { VALIDATION, COMMITMENT_SALT_BYTES } from "../constants";
+import { isCommonPassword } from "./passwordAudit";
 import type {
   ForumValidationResult,
+  GovernanceConfig,
   JoinForumValidationResult,
   PollValidationResult,
   ValidationResult,
@@ -156,6 +158,51 @@ export function validatePassword(password: string): ValidationError | null {
   );
 }
 
+/**
+ * Validate a password commitment with the same rules as `verifier::create_commitment_verifier`
+ */
+export function validateForumCommitment(commitment: {
+  publicKey: number[];
+  salt: number[];
+  kdfIterations: number;
+}): ValidationError | null {
+  if (commitment.publicKey.length !== 32) {
+    return { field: 'commitment', message: 'Commitment public key must be 32 bytes' };
+  }
+
+  if (commitment.salt.length < COMMITMENT_SALT_BYTES) {
+    return { field: 'commitment', message: `Commitment salt must be at least ${COMMITMENT_SALT_BYTES} bytes` };
+  }
+
+  if (!Number.isInteger(commitment.kdfIterations) || commitment.kdfIterations <= 0) {
+    return { field: 'commitment', message: 'Commitment iteration count must be a positive integer' };
+  }
+
+  return null;
+}
+
+/**
+ * Validate a quorum and pass threshold with the same rules as `forum::set_governance_config`
+ */
+export function validateGovernanceConfig(governance: GovernanceConfig): ValidationError | null {
+  const { quorumPercent, thresholdNumerator, thresholdDenominator } = governance;
+
+  if (!Number.isInteger(quorumPercent) || quorumPercent < 0 || quorumPercent > 100) {
+    return { field: 'governance', message: 'Quorum must be a whole percentage between 0 and 100' };
+  }
+
+  if (!Number.isInteger(thresholdNumerator) || !Number.isInteger(thresholdDenominator) ||
+      thresholdNumerator < 0 || thresholdDenominator <= 0 || thresholdNumerator > thresholdDenominator) {
+    return { field: 'governance', message: 'Pass threshold must be a fraction between 0 and 1' };
+  }
+
+  if (thresholdNumerator * 2 < thresholdDenominator) {
+    return { field: 'governance', message: 'Pass threshold cannot be below a simple majority' };
+  }
+
+  return null;
+}
+
 /**
  * Validate complete forum creation form
  */
@@ -163,6 +210,7 @@ export function validateCreateForumForm(data: {
   name: string;
   description: string;
   password: string;
+  governance?: GovernanceConfig;
 }): ForumValidationResult {
   const errors: Record<string, string> = {};
   
@@ -181,6 +229,11 @@ export function validateCreateForumForm(data: {
     errors.password = passwordError.message;
   }
   
+  const governanceError = data.governance ? validateGovernanceConfig(data.governance) : null;
+  if (governanceError) {
+    errors.governance = governanceError.message;
+  }
+  
   return {
     isValid: Object.keys(errors).length === 0,
     errors,
@@ -263,6 +316,28 @@ export function validatePollDuration(durationMs: number): ValidationError | null
   return null;
 }
 
+/**
+ * Validate a secret ballot's reveal window (duration in milliseconds)
+ */
+export function validateRevealDuration(durationMs: number): ValidationError | null {
+  if (!durationMs || durationMs <= 0) {
+    return {
+      field: 'revealDuration',
+      message: 'Reveal window is required for a secret ballot',
+    };
+  }
+  
+  if (durationMs > VALIDATION.MAX_POLL_DURATION) {
+    const maxDays = VALIDATION.MAX_POLL_DURATION / (24 * 60 * 60 * 1000);
+    return {
+      field: 'revealDuration',
+      message: `Reveal window must be no more than ${maxDays} days`,
+    };
+  }
+  
+  return null;
+}
+
 /**
  * Validate proposed forum name (for polls)
  */
@@ -296,6 +371,8 @@ export function validateCreatePollForm(data: {
   proposedName: string;
   proposedDescription: string;
   duration: number; // in hours
+  secretBallot?: boolean;
+  revealDuration?: number; // in hours
 }): PollValidationResult {
   const errors: Record<string, string> = {};
   
@@ -326,6 +403,13 @@ export function validateCreatePollForm(data: {
     errors.duration = durationError.message;
   }
   
+  if (data.secretBallot) {
+    const revealError = validateRevealDuration((data.revealDuration || 0) * 60 * 60 * 1000);
+    if (revealError) {
+      errors.revealDuration = revealError.message;
+    }
+  }
+  
   return {
     isValid: Object.keys(errors).length === 0,
     errors,
@@ -532,6 +616,14 @@ export function validatePasswordStrength(password: string): {
       feedback: ['Password is required'],
     };
   }
+
+  // Forum password hashes are public, so a listed password is as good as published
+  if (isCommonPassword(password)) {
+    return {
+      score: 0,
+      feedback: ['This is one of the most common passwords and will be guessed'],
+    };
+  }
   
   const feedback: string[] = [];
   let score = 0;
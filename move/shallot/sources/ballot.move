@@ -1,9 +1,10 @@
 /// Ballot module for Shallot decentralized forum voting system
-/// Handles anonymous voting with privacy protection and anti-double-voting
+/// Handles member voting and anti-double-voting
 module shallot::ballot {
     use std::hash;
     use sui::clock::{Self, Clock};
     use sui::table::{Self, Table};
+    use sui::dynamic_field as df;
     use shallot::poll::{Self, Poll};
     use shallot::membership::{Self, MemberRegistry};
     use shallot::events;
@@ -19,6 +20,24 @@ module shallot::ballot {
     
     /// Error: Poll does not belong to this registry's forum
     const E_POLL_FORUM_MISMATCH: u64 = 3;
+    
+    /// Error: Secret ballot polls take commitments, not plain votes
+    const E_SECRET_BALLOT: u64 = 4;
+    
+    /// Error: Poll is not a secret ballot
+    const E_NOT_SECRET_BALLOT: u64 = 5;
+    
+    /// Error: Voter has no commitment to reveal
+    const E_NO_COMMITMENT: u64 = 6;
+    
+    /// Error: Vote has already been revealed
+    const E_ALREADY_REVEALED: u64 = 7;
+    
+    /// Error: Revealed choice and salt do not match the commitment
+    const E_COMMITMENT_MISMATCH: u64 = 8;
+    
+    /// Error: Poll is not in its reveal window
+    const E_NOT_REVEAL_PHASE: u64 = 9;
 
     // ===== Core Structures =====
 
@@ -39,6 +58,17 @@ module shallot::ballot {
         total_votes: u64,
     }
 
+    /// Dynamic field key on a VoteRegistry for one voter's secret ballot commitment
+    public struct VoteCommitmentKey has copy, drop, store {
+        voter: address,
+    }
+
+    /// A committed secret ballot: hash(poll_id, voter, choice, salt) until revealed
+    public struct VoteCommitment has store, copy, drop {
+        commitment: vector<u8>,
+        revealed: bool,
+    }
+
     // ===== Vote Registry Management =====
 
     /// Initialize vote registry for a poll
@@ -71,6 +101,34 @@ module shallot::ballot {
         let poll_id = object::id(poll);
         let timestamp = clock::timestamp_ms(clock);
         
+        // Secret ballots must go through commit_vote
+        assert!(!poll::is_secret_ballot(poll), E_SECRET_BALLOT);
+        
+        // Generate anonymous voter ID: hash(address + poll_id)
+        let anonymous_id = generate_anonymous_id(voter, poll_id);
+        
+        record_voter(poll, vote_registry, member_registry, voter, clock);
+        
+        // Emit anonymous vote event
+        events::emit_vote_received(
+            poll_id,
+            anonymous_id,
+            timestamp
+        );
+        
+        count_and_store_ballot(poll, voter, vote_choice, timestamp, ctx);
+    }
+
+    /// Verify a voter may vote now and mark them as voted (prevents double voting)
+    fun record_voter(
+        poll: &Poll,
+        vote_registry: &mut VoteRegistry,
+        member_registry: &MemberRegistry,
+        voter: address,
+        clock: &Clock,
+    ) {
+        let poll_id = object::id(poll);
+        
         // Verify vote registry belongs to this poll
         assert!(vote_registry.poll_id == poll_id, E_POLL_FORUM_MISMATCH);
         
@@ -88,12 +146,20 @@ module shallot::ballot {
         // Verify voter hasn't already voted
         assert!(!table::contains(&vote_registry.voted_addresses, voter), E_ALREADY_VOTED);
         
-        // Generate anonymous voter ID: hash(address + poll_id)
-        let anonymous_id = generate_anonymous_id(voter, poll_id);
-        
         // Record vote in registry (prevent double voting)
         table::add(&mut vote_registry.voted_addresses, voter, true);
         vote_registry.total_votes = vote_registry.total_votes + 1;
+    }
+
+    /// Add a choice to the poll tally and share its Ballot
+    fun count_and_store_ballot(
+        poll: &mut Poll,
+        voter: address,
+        vote_choice: bool,
+        timestamp: u64,
+        ctx: &mut TxContext
+    ) {
+        let poll_id = object::id(poll);
         
         // Update poll vote counts
         if (vote_choice) {
@@ -106,25 +172,104 @@ module shallot::ballot {
         let ballot = Ballot {
             id: object::new(ctx),
             poll_id,
-            anonymous_voter_id: anonymous_id,
+            anonymous_voter_id: generate_anonymous_id(voter, poll_id),
             vote: vote_choice,
             timestamp,
         };
         
-        // Emit anonymous vote event
+        // Store ballot as shared object for transparency
+        transfer::public_share_object(ballot);
+    }
+
+    // ===== Secret Ballot (Commit-Reveal) =====
+
+    /// Commit to a vote on a secret ballot poll without revealing it
+    /// `commitment` is vote_commitment(poll_id, voter, choice, salt); the choice
+    /// stays hidden and uncounted until the voter reveals it after end_time
+    entry fun commit_vote(
+        poll: &Poll,
+        vote_registry: &mut VoteRegistry,
+        member_registry: &MemberRegistry,
+        commitment: vector<u8>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        record_commitment(poll, vote_registry, member_registry, tx_context::sender(ctx), commitment, clock);
+    }
+
+    /// Reveal a committed vote during the reveal window and add it to the tally
+    entry fun reveal_vote(
+        poll: &mut Poll,
+        vote_registry: &mut VoteRegistry,
+        vote_choice: bool,
+        salt: vector<u8>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        reveal_commitment(poll, vote_registry, tx_context::sender(ctx), vote_choice, salt, clock, ctx);
+    }
+
+    /// Check and store a voter's commitment
+    public(package) fun record_commitment(
+        poll: &Poll,
+        vote_registry: &mut VoteRegistry,
+        member_registry: &MemberRegistry,
+        voter: address,
+        commitment: vector<u8>,
+        clock: &Clock,
+    ) {
+        let poll_id = object::id(poll);
+        assert!(poll::is_secret_ballot(poll), E_NOT_SECRET_BALLOT);
+        
+        record_voter(poll, vote_registry, member_registry, voter, clock);
+        df::add(&mut vote_registry.id, VoteCommitmentKey { voter }, VoteCommitment { commitment, revealed: false });
+        
         events::emit_vote_received(
             poll_id,
-            anonymous_id,
-            timestamp
+            generate_anonymous_id(voter, poll_id),
+            clock::timestamp_ms(clock)
         );
+    }
+
+    /// Check a reveal against the voter's commitment, then count it
+    public(package) fun reveal_commitment(
+        poll: &mut Poll,
+        vote_registry: &mut VoteRegistry,
+        voter: address,
+        vote_choice: bool,
+        salt: vector<u8>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let poll_id = object::id(poll);
+        assert!(vote_registry.poll_id == poll_id, E_POLL_FORUM_MISMATCH);
+        assert!(poll::is_reveal_phase(poll, clock), E_NOT_REVEAL_PHASE);
         
-        // Store ballot as shared object for transparency
-        transfer::public_share_object(ballot);
+        let key = VoteCommitmentKey { voter };
+        assert!(df::exists_(&vote_registry.id, key), E_NO_COMMITMENT);
+        
+        let stored: &mut VoteCommitment = df::borrow_mut(&mut vote_registry.id, key);
+        assert!(!stored.revealed, E_ALREADY_REVEALED);
+        assert!(stored.commitment == vote_commitment(poll_id, voter, vote_choice, salt), E_COMMITMENT_MISMATCH);
+        stored.revealed = true;
+        
+        count_and_store_ballot(poll, voter, vote_choice, clock::timestamp_ms(clock), ctx);
+    }
+
+    /// Commitment for a secret ballot: sha2_256(bcs(poll_id) || bcs(voter) || bcs(choice) || salt)
+    /// Binding the poll and voter stops anyone from copying another member's commitment
+    public fun vote_commitment(poll_id: ID, voter: address, vote_choice: bool, salt: vector<u8>): vector<u8> {
+        let mut data = bcs::to_bytes(&poll_id);
+        vector::append(&mut data, bcs::to_bytes(&voter));
+        vector::append(&mut data, bcs::to_bytes(&vote_choice));
+        vector::append(&mut data, salt);
+        hash::sha2_256(data)
     }
 
     // ===== Anonymous ID Generation =====
 
     /// Generate anonymous voter ID using hash(address + poll_id)
+    /// Not private: both inputs are public, so anyone can recompute it per member
     fun generate_anonymous_id(voter: address, poll_id: ID): vector<u8> {
         let mut data = vector::empty<u8>();
         
@@ -157,6 +302,17 @@ module shallot::ballot {
         vote_registry.poll_id
     }
 
+    /// Check if a voter has committed to a secret ballot
+    public fun has_committed(vote_registry: &VoteRegistry, voter: address): bool {
+        df::exists_(&vote_registry.id, VoteCommitmentKey { voter })
+    }
+
+    /// Check if a voter has revealed their secret ballot
+    public fun has_revealed(vote_registry: &VoteRegistry, voter: address): bool {
+        has_committed(vote_registry, voter) &&
+            df::borrow<VoteCommitmentKey, VoteCommitment>(&vote_registry.id, VoteCommitmentKey { voter }).revealed
+    }
+
     // ===== Ballot View Functions =====
 
     /// Get ballot information (anonymous)
@@ -3,7 +3,8 @@
 module shallot::forum {
     use std::string::{Self, String};
     use sui::clock::{Self, Clock};
-    use shallot::verifier::{Self, SimplePasswordVerifier};
+    use sui::dynamic_field as df;
+    use shallot::verifier::{Self, SimplePasswordVerifier, CommitmentVerifier};
     use shallot::events;
 
     // ===== Error Constants =====
@@ -17,6 +18,18 @@ module shallot::forum {
     /// Error: Forum name cannot be empty
     const E_EMPTY_NAME: u64 = 3;
 
+    /// Error: Forum already admits members by commitment
+    const E_COMMITMENT_EXISTS: u64 = 4;
+
+    /// Error: Forum has no commitment verifier
+    const E_NO_COMMITMENT: u64 = 5;
+
+    /// Error: Quorum or pass threshold out of range
+    const E_INVALID_GOVERNANCE: u64 = 6;
+
+    /// Error: Forum already has a governance config
+    const E_GOVERNANCE_EXISTS: u64 = 7;
+
     // ===== Core Structures =====
 
     /// Main Forum object - the heart of decentralized governance
@@ -25,13 +38,29 @@ module shallot::forum {
         id: UID,
         name: String,
         description: String,
-        creator: address,  // Only for historical record, no special rights
+        creator: address,  // Historical record; its only right is migrating a password Forum to a commitment
         verifier: SimplePasswordVerifier,
         member_count: u64,
         active_poll: option::Option<ID>,  // Ensures only one poll at a time
         created_at: u64,
     }
 
+    /// Dynamic field key for a Forum's CommitmentVerifier
+    /// Stored as a dynamic field so existing Forum objects keep their layout
+    public struct CommitmentVerifierKey has copy, drop, store {}
+
+    /// Dynamic field key for a Forum's GovernanceConfig
+    public struct GovernanceConfigKey has copy, drop, store {}
+
+    /// When a poll passes: at least `quorum_percent`% of the member snapshot voted, and
+    /// yes votes are at least `threshold_numerator / threshold_denominator` of the votes
+    /// and more than the no votes. Forums without one use quorum 0 and threshold 1/2
+    public struct GovernanceConfig has store, copy, drop {
+        quorum_percent: u64,
+        threshold_numerator: u64,
+        threshold_denominator: u64,
+    }
+
     // ===== Forum Creation =====
 
     /// Create a new Forum with password verification
@@ -43,15 +72,61 @@ module shallot::forum {
         clock: &Clock,
         ctx: &mut TxContext
     ) {
+        let forum = new_forum(name, description, password, clock, ctx);
+        
+        // Share Forum as shared object for multi-user access
+        // Creator has no special access after this point
+        transfer::share_object(forum);
+    }
+
+    /// Build a new Forum and emit its creation event without sharing it
+    /// Lets other modules create companion objects that need the Forum ID in the same transaction
+    public(package) fun new_forum(
+        name: String,
+        description: String,
+        password: String,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ): Forum {
         // Validate inputs
         assert!(!string::is_empty(&name), E_EMPTY_NAME);
         
+        // Create verifier with password
+        let verifier = verifier::create_simple_password_verifier(password, clock::timestamp_ms(clock));
+        
+        build_forum(name, description, verifier, clock, ctx)
+    }
+
+    /// Build a new Forum that admits members by commitment proof, without sharing it
+    /// Its password verifier accepts nothing, so no password is ever sent on-chain
+    public(package) fun new_forum_with_commitment(
+        name: String,
+        description: String,
+        commitment: CommitmentVerifier,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ): Forum {
+        // Validate inputs
+        assert!(!string::is_empty(&name), E_EMPTY_NAME);
+        
+        let verifier = verifier::create_disabled_password_verifier(clock::timestamp_ms(clock));
+        let mut forum = build_forum(name, description, verifier, clock, ctx);
+        df::add(&mut forum.id, CommitmentVerifierKey {}, commitment);
+        
+        forum
+    }
+
+    /// Create the Forum object and emit its creation event
+    fun build_forum(
+        name: String,
+        description: String,
+        verifier: SimplePasswordVerifier,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ): Forum {
         let creator = tx_context::sender(ctx);
         let timestamp = clock::timestamp_ms(clock);
         
-        // Create verifier with password
-        let verifier = verifier::create_simple_password_verifier(password, timestamp);
-        
         // Create Forum object
         let forum_id = object::new(ctx);
         let forum_id_copy = object::uid_to_inner(&forum_id);
@@ -60,7 +135,7 @@ module shallot::forum {
             id: forum_id,
             name: name,
             description: description,
-            creator,  // Only for historical record
+            creator,
             verifier,
             member_count: 0,
             active_poll: option::none(),
@@ -76,8 +151,11 @@ module shallot::forum {
             timestamp
         );
         
-        // Share Forum as shared object for multi-user access
-        // Creator has no special access after this point
+        forum
+    }
+
+    /// Share a Forum created with `new_forum`
+    public(package) fun share_forum(forum: Forum) {
         transfer::share_object(forum);
     }
 
@@ -100,6 +178,37 @@ module shallot::forum {
         forum.member_count = forum.member_count + 1;
     }
 
+    /// Switch a Forum from password to commitment verification (called by membership module)
+    /// The password verifier is disabled so the old password can no longer be used to join
+    public(package) fun set_commitment_verifier(forum: &mut Forum, commitment: CommitmentVerifier) {
+        assert!(!has_commitment_verifier(forum), E_COMMITMENT_EXISTS);
+        
+        let timestamp = verifier::get_commitment_created_at(&commitment);
+        df::add(&mut forum.id, CommitmentVerifierKey {}, commitment);
+        forum.verifier = verifier::create_disabled_password_verifier(timestamp);
+    }
+
+    /// Set a Forum's quorum and pass threshold; only done while it is being created
+    /// A threshold below a simple majority is rejected
+    public(package) fun set_governance_config(
+        forum: &mut Forum,
+        quorum_percent: u64,
+        threshold_numerator: u64,
+        threshold_denominator: u64,
+    ) {
+        assert!(!has_governance_config(forum), E_GOVERNANCE_EXISTS);
+        assert!(quorum_percent <= 100, E_INVALID_GOVERNANCE);
+        assert!(threshold_denominator > 0, E_INVALID_GOVERNANCE);
+        assert!(threshold_numerator <= threshold_denominator, E_INVALID_GOVERNANCE);
+        assert!(threshold_numerator * 2 >= threshold_denominator, E_INVALID_GOVERNANCE);
+        
+        df::add(&mut forum.id, GovernanceConfigKey {}, GovernanceConfig {
+            quorum_percent,
+            threshold_numerator,
+            threshold_denominator,
+        });
+    }
+
     // ===== Metadata Updates (via voting) =====
 
     /// Update Forum metadata after successful poll
@@ -158,7 +267,7 @@ module shallot::forum {
         forum.member_count
     }
 
-    /// Get Forum creator (for historical record only)
+    /// Get Forum creator
     public fun get_creator(forum: &Forum): address {
         forum.creator
     }
@@ -168,6 +277,32 @@ module shallot::forum {
         &forum.verifier
     }
 
+    /// Check if Forum admits members by commitment proof
+    public fun has_commitment_verifier(forum: &Forum): bool {
+        df::exists_(&forum.id, CommitmentVerifierKey {})
+    }
+
+    /// Get the commitment verifier for membership checks
+    public fun get_commitment_verifier(forum: &Forum): &CommitmentVerifier {
+        assert!(has_commitment_verifier(forum), E_NO_COMMITMENT);
+        df::borrow(&forum.id, CommitmentVerifierKey {})
+    }
+
+    /// Check if Forum has its own quorum and pass threshold
+    public fun has_governance_config(forum: &Forum): bool {
+        df::exists_(&forum.id, GovernanceConfigKey {})
+    }
+
+    /// Get (quorum_percent, threshold_numerator, threshold_denominator)
+    /// Forums without a config get the original rule: no quorum, simple majority
+    public fun get_governance_config(forum: &Forum): (u64, u64, u64) {
+        if (!has_governance_config(forum)) {
+            return (0, 1, 2)
+        };
+        let config: &GovernanceConfig = df::borrow(&forum.id, GovernanceConfigKey {});
+        (config.quorum_percent, config.threshold_numerator, config.threshold_denominator)
+    }
+
     // ===== Test Functions =====
 
     #[test_only]
@@ -5,7 +5,7 @@ module shallot::membership {
     use sui::clock::{Self, Clock};
     use sui::table::{Self, Table};
     use shallot::forum::{Self, Forum};
-    use shallot::verifier;
+    use shallot::verifier::{Self, CommitmentVerifier};
     use shallot::events;
 
     // ===== Error Constants =====
@@ -18,6 +18,9 @@ module shallot::membership {
     
     /// Error: User is not a member of this forum
     const E_NOT_MEMBER: u64 = 3;
+    
+    /// Error: Only the Forum's creator can do this
+    const E_NOT_CREATOR: u64 = 4;
 
     // ===== Core Structures =====
 
@@ -46,16 +49,91 @@ module shallot::membership {
         forum_id: ID,
         ctx: &mut TxContext
     ) {
-        let registry = MemberRegistry {
+        let registry = new_registry(forum_id, ctx);
+        
+        // Share registry as shared object
+        transfer::share_object(registry);
+    }
+
+    /// Create a Forum and its member registry in one transaction
+    /// The registry is bound to the new Forum's ID, so a forum can never be left without one
+    entry fun create_forum_with_registry(
+        name: String,
+        description: String,
+        password: String,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let forum = forum::new_forum(name, description, password, clock, ctx);
+        let registry = new_registry(object::id(&forum), ctx);
+        
+        forum::share_forum(forum);
+        transfer::share_object(registry);
+    }
+
+    /// Create a Forum that admits members by commitment proof, with its member registry
+    /// The creator derives `public_key` from the password client-side; the password is never sent
+    entry fun create_forum_with_commitment(
+        name: String,
+        description: String,
+        public_key: vector<u8>,
+        salt: vector<u8>,
+        kdf_iterations: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let commitment = verifier::create_commitment_verifier(
+            public_key,
+            salt,
+            kdf_iterations,
+            clock::timestamp_ms(clock)
+        );
+        let forum = forum::new_forum_with_commitment(name, description, commitment, clock, ctx);
+        let registry = new_registry(object::id(&forum), ctx);
+        
+        forum::share_forum(forum);
+        transfer::share_object(registry);
+    }
+
+    /// Create a commitment Forum with its own quorum and pass threshold, with its member registry
+    entry fun create_forum_with_commitment_and_governance(
+        name: String,
+        description: String,
+        public_key: vector<u8>,
+        salt: vector<u8>,
+        kdf_iterations: u64,
+        quorum_percent: u64,
+        threshold_numerator: u64,
+        threshold_denominator: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let commitment = verifier::create_commitment_verifier(
+            public_key,
+            salt,
+            kdf_iterations,
+            clock::timestamp_ms(clock)
+        );
+        let mut forum = forum::new_forum_with_commitment(name, description, commitment, clock, ctx);
+        forum::set_governance_config(&mut forum, quorum_percent, threshold_numerator, threshold_denominator);
+        let registry = new_registry(object::id(&forum), ctx);
+        
+        forum::share_forum(forum);
+        transfer::share_object(registry);
+    }
+
+    /// Build an empty member registry for a Forum
+    public(package) fun new_registry(
+        forum_id: ID,
+        ctx: &mut TxContext
+    ): MemberRegistry {
+        MemberRegistry {
             id: object::new(ctx),
             forum_id,
             members: table::new(ctx),
             member_list: vector::empty(),
             total_count: 0,
-        };
-        
-        // Share registry as shared object
-        transfer::share_object(registry);
+        }
     }
 
     // ===== Membership Management =====
@@ -80,6 +158,51 @@ module shallot::membership {
         let verifier = forum::get_verifier(forum);
         assert!(verifier::verify_user(verifier, password), E_VERIFICATION_FAILED);
         
+        mint_membership(forum, registry, member_addr, timestamp, ctx);
+    }
+
+    /// Join a commitment Forum by signing the join message with the password-derived key
+    /// The signature is bound to the sender, so it is useless to anyone who reads it on-chain
+    entry fun join_forum_with_proof(
+        forum: &mut Forum,
+        registry: &mut MemberRegistry,
+        signature: vector<u8>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let member_addr = tx_context::sender(ctx);
+        
+        assert_join_proof(forum, registry, member_addr, signature);
+        mint_membership(forum, registry, member_addr, clock::timestamp_ms(clock), ctx);
+    }
+
+    /// Check a join proof against the Forum's commitment verifier or abort
+    public(package) fun assert_join_proof(
+        forum: &Forum,
+        registry: &MemberRegistry,
+        member: address,
+        signature: vector<u8>
+    ) {
+        let forum_id = object::id(forum);
+        
+        // Verify registry belongs to this forum
+        assert!(registry.forum_id == forum_id, E_VERIFICATION_FAILED);
+        assert!(forum::has_commitment_verifier(forum), E_VERIFICATION_FAILED);
+        
+        let commitment = forum::get_commitment_verifier(forum);
+        assert!(verifier::verify_proof(commitment, forum_id, member, signature), E_VERIFICATION_FAILED);
+    }
+
+    /// Register a verified member and send them a Membership NFT
+    fun mint_membership(
+        forum: &mut Forum,
+        registry: &mut MemberRegistry,
+        member_addr: address,
+        timestamp: u64,
+        ctx: &mut TxContext
+    ) {
+        let forum_id = object::id(forum);
+        
         // Add member to registry (this will check for duplicates)
         add_member_to_registry(registry, member_addr);
         
@@ -123,6 +246,48 @@ module shallot::membership {
         registry.total_count = registry.total_count + 1;
     }
 
+    // ===== Verifier Migration =====
+
+    /// Move a password Forum to commitment-based joins
+    /// Only the creator, as a member who knows the current password, can migrate, so
+    /// no other member can install a commitment of their own and take over joins. The
+    /// password is sent one last time and then disabled. Clients derive the commitment from
+    /// that same password, so existing members keep using it.
+    entry fun migrate_to_commitment(
+        forum: &mut Forum,
+        registry: &MemberRegistry,
+        password: String,
+        public_key: vector<u8>,
+        salt: vector<u8>,
+        kdf_iterations: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let commitment = verifier::create_commitment_verifier(
+            public_key,
+            salt,
+            kdf_iterations,
+            clock::timestamp_ms(clock)
+        );
+        migrate_verifier(forum, registry, tx_context::sender(ctx), password, commitment);
+    }
+
+    /// Check the migrating creator, their membership and the password, then install the commitment
+    public(package) fun migrate_verifier(
+        forum: &mut Forum,
+        registry: &MemberRegistry,
+        member: address,
+        password: String,
+        commitment: CommitmentVerifier
+    ) {
+        assert!(registry.forum_id == object::id(forum), E_VERIFICATION_FAILED);
+        assert!(member == forum::get_creator(forum), E_NOT_CREATOR);
+        verify_member_or_abort(registry, member);
+        assert!(verifier::verify_user(forum::get_verifier(forum), password), E_VERIFICATION_FAILED);
+        
+        forum::set_commitment_verifier(forum, commitment);
+    }
+
     // ===== Member Verification =====
 
     /// Check if an address is a member of a Forum
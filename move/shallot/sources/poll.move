@@ -3,6 +3,7 @@
 module shallot::poll {
     use std::string::{Self, String};
     use sui::clock::{Self, Clock};
+    use sui::dynamic_field as df;
     use shallot::forum::{Self, Forum};
     use shallot::membership::{Self, MemberRegistry};
     use shallot::events;
@@ -23,6 +24,9 @@ module shallot::poll {
     
     /// Error: Poll title cannot be empty
     const E_EMPTY_TITLE: u64 = 5;
+    
+    /// Error: Secret ballot reveal window has not closed yet
+    const E_REVEAL_NOT_ENDED: u64 = 6;
 
     // ===== Core Structures =====
 
@@ -43,6 +47,16 @@ module shallot::poll {
         is_executed: bool,
     }
 
+    /// Dynamic field key marking a Poll as a commit-reveal secret ballot
+    /// Stored as a dynamic field so existing Poll objects keep their layout
+    public struct SecretBallotKey has copy, drop, store {}
+
+    /// Secret ballot settings: votes are committed until end_time and
+    /// revealed between end_time and reveal_end_time
+    public struct SecretBallot has store, copy, drop {
+        reveal_end_time: u64,
+    }
+
     // ===== Poll Creation =====
 
     /// Create a new poll for Forum metadata update
@@ -58,6 +72,76 @@ module shallot::poll {
         clock: &Clock,
         ctx: &mut TxContext
     ) {
+        let poll = new_poll(forum, registry, title, description, new_name, new_description, duration_ms, clock, ctx);
+        
+        // Share poll for voting
+        transfer::public_share_object(poll);
+    }
+
+    /// Create a commit-reveal poll: tallies stay hidden until voters reveal after end_time
+    /// Only Forum members can create polls
+    entry fun create_secret_poll(
+        forum: &mut Forum,
+        registry: &MemberRegistry,
+        title: String,
+        description: String,
+        new_name: String,
+        new_description: String,
+        duration_ms: u64,
+        reveal_duration_ms: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let poll = new_secret_poll(
+            forum,
+            registry,
+            title,
+            description,
+            new_name,
+            new_description,
+            duration_ms,
+            reveal_duration_ms,
+            clock,
+            ctx
+        );
+        
+        transfer::public_share_object(poll);
+    }
+
+    /// Build a secret ballot Poll without sharing it
+    public(package) fun new_secret_poll(
+        forum: &mut Forum,
+        registry: &MemberRegistry,
+        title: String,
+        description: String,
+        new_name: String,
+        new_description: String,
+        duration_ms: u64,
+        reveal_duration_ms: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ): Poll {
+        assert!(reveal_duration_ms > 0, E_INVALID_DURATION);
+        
+        let mut poll = new_poll(forum, registry, title, description, new_name, new_description, duration_ms, clock, ctx);
+        let reveal_end_time = poll.end_time + reveal_duration_ms;
+        df::add(&mut poll.id, SecretBallotKey {}, SecretBallot { reveal_end_time });
+        
+        poll
+    }
+
+    /// Build a Poll, mark it as the Forum's active poll and emit its creation event
+    public(package) fun new_poll(
+        forum: &mut Forum,
+        registry: &MemberRegistry,
+        title: String,
+        description: String,
+        new_name: String,
+        new_description: String,
+        duration_ms: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ): Poll {
         let creator = tx_context::sender(ctx);
         let forum_id = object::id(forum);
         let timestamp = clock::timestamp_ms(clock);
@@ -110,8 +194,7 @@ module shallot::poll {
             timestamp
         );
         
-        // Share poll for voting
-        transfer::public_share_object(poll);
+        poll
     }
 
     // ===== Poll Execution =====
@@ -131,12 +214,15 @@ module shallot::poll {
         // Verify poll has ended
         assert!(timestamp >= poll.end_time, E_POLL_NOT_ENDED);
         
+        // Secret ballots count only revealed votes, so wait for the reveal window
+        assert!(timestamp >= get_reveal_end_time(poll), E_REVEAL_NOT_ENDED);
+        
         // Verify not already executed
         assert!(!poll.is_executed, E_POLL_NOT_ENDED);
         
-        // Calculate results
+        // Calculate results against the forum's quorum and pass threshold
         let total_votes = poll.yes_votes + poll.no_votes;
-        let passed = poll.yes_votes > poll.no_votes && total_votes > 0;
+        let (_, _, passed) = get_poll_outcome(poll, forum);
         
         // Mark as executed
         poll.is_executed = true;
@@ -217,12 +303,25 @@ module shallot::poll {
     }
 
     /// Get poll results
+    /// `passed` here is the simple-majority rule; use `get_poll_outcome` for the forum's own rule
     public fun get_poll_results(poll: &Poll): (u64, u64, u64, bool) {
         let total_votes = poll.yes_votes + poll.no_votes;
         let passed = poll.yes_votes > poll.no_votes && total_votes > 0;
         (poll.yes_votes, poll.no_votes, total_votes, passed)
     }
 
+    /// Get (quorum_met, threshold_met, passed) under the forum's governance config
+    public fun get_poll_outcome(poll: &Poll, forum: &Forum): (bool, bool, bool) {
+        let (quorum_percent, threshold_numerator, threshold_denominator) = forum::get_governance_config(forum);
+        let total_votes = poll.yes_votes + poll.no_votes;
+        
+        let quorum_met = total_votes * 100 >= quorum_percent * poll.member_snapshot;
+        let threshold_met = poll.yes_votes > poll.no_votes &&
+            poll.yes_votes * threshold_denominator >= threshold_numerator * total_votes;
+        
+        (quorum_met, threshold_met, total_votes > 0 && quorum_met && threshold_met)
+    }
+
     /// Get poll forum ID
     public fun get_poll_forum_id(poll: &Poll): ID {
         poll.forum_id
@@ -243,6 +342,26 @@ module shallot::poll {
         poll.forum_id == forum_id
     }
 
+    /// Check if poll is a commit-reveal secret ballot
+    public fun is_secret_ballot(poll: &Poll): bool {
+        df::exists_(&poll.id, SecretBallotKey {})
+    }
+
+    /// Get the time votes can be revealed until (end_time for regular polls)
+    public fun get_reveal_end_time(poll: &Poll): u64 {
+        if (!is_secret_ballot(poll)) {
+            return poll.end_time
+        };
+        let secret: &SecretBallot = df::borrow(&poll.id, SecretBallotKey {});
+        secret.reveal_end_time
+    }
+
+    /// Check if a secret ballot is between end_time and its reveal deadline
+    public fun is_reveal_phase(poll: &Poll, clock: &Clock): bool {
+        let timestamp = clock::timestamp_ms(clock);
+        is_secret_ballot(poll) && timestamp >= poll.end_time && timestamp < get_reveal_end_time(poll)
+    }
+
     // ===== Test Functions =====
 
     #[test_only]
@@ -271,6 +390,18 @@ module shallot::poll {
         }
     }
 
+    #[test_only]
+    /// Create test secret ballot poll: commits until 2000, reveals until 3000
+    public fun create_test_secret_poll(
+        forum_id: ID,
+        creator: address,
+        ctx: &mut TxContext
+    ): Poll {
+        let mut poll = create_test_poll(forum_id, creator, ctx);
+        df::add(&mut poll.id, SecretBallotKey {}, SecretBallot { reveal_end_time: 3000 });
+        poll
+    }
+
     #[test_only]
     /// Test poll basic functionality
     public fun test_poll_basic() {
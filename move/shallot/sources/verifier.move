@@ -2,6 +2,8 @@
 /// Implements pluggable identity verification system with simple password verification
 module shallot::verifier {
     use std::string::{Self, String};
+    use sui::address;
+    use sui::ed25519;
 
     // ===== Error Constants =====
     
@@ -11,6 +13,12 @@ module shallot::verifier {
     /// Error: Empty password not allowed
     const E_EMPTY_PASSWORD: u64 = 2;
 
+    /// Error: Commitment public key or salt is malformed
+    const E_INVALID_COMMITMENT: u64 = 3;
+
+    /// Domain separator prefixed to every join proof message
+    const JOIN_PROOF_DOMAIN: vector<u8> = b"shallot::join";
+
     // ===== Verifier Configuration Structure =====
 
     /// Simple password verifier configuration
@@ -20,6 +28,16 @@ module shallot::verifier {
         created_at: u64,            // Timestamp when verifier was created
     }
 
+    /// Commitment verifier - the password never appears on-chain
+    /// Clients derive an ed25519 keypair from PBKDF2(password, salt); joiners prove
+    /// knowledge of the password by signing their own address with the derived key
+    public struct CommitmentVerifier has store, copy, drop {
+        public_key: vector<u8>,     // ed25519 public key of the derived keypair
+        salt: vector<u8>,           // per-forum key derivation salt
+        kdf_iterations: u64,        // PBKDF2-SHA256 iterations used by clients
+        created_at: u64,
+    }
+
     // ===== Verifier Creation Functions =====
 
     /// Create a new SimplePasswordVerifier with given password
@@ -41,6 +59,34 @@ module shallot::verifier {
         }
     }
 
+    /// Create a password verifier that accepts no password
+    /// Used by forums that admit members through a CommitmentVerifier instead
+    public(package) fun create_disabled_password_verifier(timestamp: u64): SimplePasswordVerifier {
+        SimplePasswordVerifier {
+            password_hash: vector::empty(),  // never equal to a SHA-256 digest
+            created_at: timestamp,
+        }
+    }
+
+    /// Create a CommitmentVerifier from a client-derived public key and its salt
+    public fun create_commitment_verifier(
+        public_key: vector<u8>,
+        salt: vector<u8>,
+        kdf_iterations: u64,
+        timestamp: u64,
+    ): CommitmentVerifier {
+        assert!(vector::length(&public_key) == 32, E_INVALID_COMMITMENT);
+        assert!(vector::length(&salt) >= 16, E_INVALID_COMMITMENT);
+        assert!(kdf_iterations > 0, E_INVALID_COMMITMENT);
+
+        CommitmentVerifier {
+            public_key,
+            salt,
+            kdf_iterations,
+            created_at: timestamp,
+        }
+    }
+
     // ===== Verification Functions =====
 
     /// Verify user input against the stored password hash
@@ -70,6 +116,30 @@ module shallot::verifier {
         assert!(verify_user(verifier, input_password), E_INVALID_PASSWORD);
     }
 
+    /// Message a joiner signs: domain || forum ID || joiner address
+    /// Binding the address means a proof seen on-chain cannot be replayed by anyone else
+    public fun join_proof_message(forum_id: ID, member: address): vector<u8> {
+        let mut message = JOIN_PROOF_DOMAIN;
+        vector::append(&mut message, object::id_to_bytes(&forum_id));
+        vector::append(&mut message, address::to_bytes(member));
+        message
+    }
+
+    /// Verify a join proof: an ed25519 signature over join_proof_message
+    public fun verify_proof(
+        verifier: &CommitmentVerifier,
+        forum_id: ID,
+        member: address,
+        signature: vector<u8>,
+    ): bool {
+        if (vector::length(&signature) != 64) {
+            return false
+        };
+
+        let message = join_proof_message(forum_id, member);
+        ed25519::ed25519_verify(&signature, &verifier.public_key, &message)
+    }
+
     // ===== Getter Functions =====
 
     /// Get the creation timestamp of the verifier
@@ -83,6 +153,21 @@ module shallot::verifier {
         verifier.password_hash
     }
 
+    /// Get the commitment public key
+    public fun get_commitment_public_key(verifier: &CommitmentVerifier): vector<u8> {
+        verifier.public_key
+    }
+
+    /// Get the key derivation salt and iteration count
+    public fun get_commitment_kdf(verifier: &CommitmentVerifier): (vector<u8>, u64) {
+        (verifier.salt, verifier.kdf_iterations)
+    }
+
+    /// Get the creation timestamp of the commitment verifier
+    public fun get_commitment_created_at(verifier: &CommitmentVerifier): u64 {
+        verifier.created_at
+    }
+
     // ===== Testing and Utility Functions =====
 
     /// Check if two verifiers have the same password (for testing)
@@ -287,4 +287,166 @@ module shallot::ballot_tests_simple {
         
         sui::test_scenario::end(scenario);
     }
-}
\ No newline at end of file
+
+    // ===== Test Secret Ballot =====
+
+    const SALT: vector<u8> = x"0101010101010101010101010101010101010101010101010101010101010101";
+
+    // Secret poll (commits until 2000, reveals until 3000) with members @0x1 and @0x2
+    fun setup_secret_poll(
+        ctx: &mut TxContext
+    ): (shallot::poll::Poll, shallot::membership::MemberRegistry, ballot::VoteRegistry, sui::clock::Clock) {
+        let forum_id = sui::object::id_from_address(@0x999);
+        let poll = shallot::poll::create_test_secret_poll(forum_id, @0x1, ctx);
+        let mut members = shallot::membership::create_test_registry(forum_id, ctx);
+        shallot::membership::add_member_to_registry(&mut members, @0x1);
+        shallot::membership::add_member_to_registry(&mut members, @0x2);
+        let votes = ballot::create_test_vote_registry(sui::object::id(&poll), ctx);
+        let mut clock = sui::clock::create_for_testing(ctx);
+        sui::clock::set_for_testing(&mut clock, 1500);
+        (poll, members, votes, clock)
+    }
+
+    fun share_secret_poll(
+        poll: shallot::poll::Poll,
+        members: shallot::membership::MemberRegistry,
+        votes: ballot::VoteRegistry,
+        clock: sui::clock::Clock
+    ) {
+        sui::transfer::public_share_object(poll);
+        sui::transfer::public_share_object(members);
+        sui::transfer::public_share_object(votes);
+        sui::clock::destroy_for_testing(clock);
+    }
+
+    #[test]
+    fun test_secret_ballot_commit_and_reveal() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        sui::test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = sui::test_scenario::ctx(&mut scenario);
+            let (mut poll, members, mut votes, mut clock) = setup_secret_poll(ctx);
+            let poll_id = sui::object::id(&poll);
+            
+            // Commit: counted as voted, but the tally stays hidden
+            ballot::record_commitment(&poll, &mut votes, &members, @0x1,
+                ballot::vote_commitment(poll_id, @0x1, true, SALT), &clock);
+            ballot::record_commitment(&poll, &mut votes, &members, @0x2,
+                ballot::vote_commitment(poll_id, @0x2, false, SALT), &clock);
+            assert!(ballot::get_total_votes(&votes) == 2, 0);
+            assert!(ballot::has_committed(&votes, @0x1), 1);
+            let (yes_votes, no_votes, _, _) = shallot::poll::get_poll_results(&poll);
+            assert!(yes_votes == 0 && no_votes == 0, 2);
+            
+            // Reveal after end_time: only revealed votes are counted
+            sui::clock::set_for_testing(&mut clock, 2500);
+            assert!(shallot::poll::is_reveal_phase(&poll, &clock), 3);
+            ballot::reveal_commitment(&mut poll, &mut votes, @0x1, true, SALT, &clock, ctx);
+            assert!(ballot::has_revealed(&votes, @0x1), 4);
+            assert!(!ballot::has_revealed(&votes, @0x2), 5);
+            let (yes_votes, no_votes, _, _) = shallot::poll::get_poll_results(&poll);
+            assert!(yes_votes == 1 && no_votes == 0, 6);
+            
+            share_secret_poll(poll, members, votes, clock);
+        };
+        
+        sui::test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::ballot::E_COMMITMENT_MISMATCH)]
+    fun test_reveal_different_choice_fails() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        sui::test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = sui::test_scenario::ctx(&mut scenario);
+            let (mut poll, members, mut votes, mut clock) = setup_secret_poll(ctx);
+            let poll_id = sui::object::id(&poll);
+            
+            ballot::record_commitment(&poll, &mut votes, &members, @0x1,
+                ballot::vote_commitment(poll_id, @0x1, true, SALT), &clock);
+            
+            // Revealing "no" for a "yes" commitment - should fail
+            sui::clock::set_for_testing(&mut clock, 2500);
+            ballot::reveal_commitment(&mut poll, &mut votes, @0x1, false, SALT, &clock, ctx);
+            
+            share_secret_poll(poll, members, votes, clock);
+        };
+        
+        sui::test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::ballot::E_NOT_REVEAL_PHASE)]
+    fun test_reveal_before_end_fails() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        sui::test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = sui::test_scenario::ctx(&mut scenario);
+            let (mut poll, members, mut votes, clock) = setup_secret_poll(ctx);
+            let poll_id = sui::object::id(&poll);
+            
+            ballot::record_commitment(&poll, &mut votes, &members, @0x1,
+                ballot::vote_commitment(poll_id, @0x1, true, SALT), &clock);
+            
+            // Voting still open - should fail
+            ballot::reveal_commitment(&mut poll, &mut votes, @0x1, true, SALT, &clock, ctx);
+            
+            share_secret_poll(poll, members, votes, clock);
+        };
+        
+        sui::test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::ballot::E_ALREADY_REVEALED)]
+    fun test_reveal_twice_fails() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        sui::test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = sui::test_scenario::ctx(&mut scenario);
+            let (mut poll, members, mut votes, mut clock) = setup_secret_poll(ctx);
+            let poll_id = sui::object::id(&poll);
+            
+            ballot::record_commitment(&poll, &mut votes, &members, @0x1,
+                ballot::vote_commitment(poll_id, @0x1, true, SALT), &clock);
+            
+            // Second reveal would count the vote twice - should fail
+            sui::clock::set_for_testing(&mut clock, 2500);
+            ballot::reveal_commitment(&mut poll, &mut votes, @0x1, true, SALT, &clock, ctx);
+            ballot::reveal_commitment(&mut poll, &mut votes, @0x1, true, SALT, &clock, ctx);
+            
+            share_secret_poll(poll, members, votes, clock);
+        };
+        
+        sui::test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::ballot::E_NOT_SECRET_BALLOT)]
+    fun test_commit_on_regular_poll_fails() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        sui::test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = sui::test_scenario::ctx(&mut scenario);
+            let forum_id = sui::object::id_from_address(@0x999);
+            let poll = shallot::poll::create_test_poll(forum_id, @0x1, ctx);
+            let mut members = shallot::membership::create_test_registry(forum_id, ctx);
+            shallot::membership::add_member_to_registry(&mut members, @0x1);
+            let mut votes = ballot::create_test_vote_registry(sui::object::id(&poll), ctx);
+            let clock = sui::clock::create_for_testing(ctx);
+            
+            // Regular polls take plain votes - should fail
+            ballot::record_commitment(&poll, &mut votes, &members, @0x1, SALT, &clock);
+            
+            share_secret_poll(poll, members, votes, clock);
+        };
+        
+        sui::test_scenario::end(scenario);
+    }
+}
@@ -143,6 +143,27 @@ module shallot::forum_tests {
         test_scenario::end(scenario);
     }
 
+    #[test]
+    #[expected_failure(abort_code = shallot::forum::E_EMPTY_NAME)]
+    fun test_new_forum_empty_name_fails() {
+        let mut scenario = test_scenario::begin(@0x1);
+        let ctx = test_scenario::ctx(&mut scenario);
+        let clock = clock::create_for_testing(ctx);
+        
+        // Empty name is rejected before anything is created
+        let forum = forum::new_forum(
+            string::utf8(b""),
+            string::utf8(b"No name"),
+            string::utf8(b"password123"),
+            &clock,
+            ctx
+        );
+        
+        clock::destroy_for_testing(clock);
+        forum::share_forum(forum);
+        test_scenario::end(scenario);
+    }
+
     // ===== Test Metadata Updates =====
 
     #[test]
@@ -306,4 +327,82 @@ module shallot::forum_tests {
         transfer::public_share_object(forum);
         test_scenario::end(scenario);
     }
-}
\ No newline at end of file
+
+    // ===== Test Governance Config =====
+
+    #[test]
+    fun test_governance_config_default_and_set() {
+        let mut scenario = test_scenario::begin(@0x1);
+        let ctx = test_scenario::ctx(&mut scenario);
+        
+        let mut forum = forum::create_test_forum(ctx);
+        
+        // Without a config: no quorum, simple majority
+        assert!(!forum::has_governance_config(&forum), 0);
+        let (quorum, numerator, denominator) = forum::get_governance_config(&forum);
+        assert!(quorum == 0 && numerator == 1 && denominator == 2, 1);
+        
+        forum::set_governance_config(&mut forum, 40, 2, 3);
+        assert!(forum::has_governance_config(&forum), 2);
+        let (quorum, numerator, denominator) = forum::get_governance_config(&forum);
+        assert!(quorum == 40 && numerator == 2 && denominator == 3, 3);
+        
+        transfer::public_share_object(forum);
+        test_scenario::end(scenario);
+    }
+
+    #[test]
+    fun test_governance_config_unanimous() {
+        let mut scenario = test_scenario::begin(@0x1);
+        let ctx = test_scenario::ctx(&mut scenario);
+        
+        let mut forum = forum::create_test_forum(ctx);
+        forum::set_governance_config(&mut forum, 100, 1, 1);
+        
+        let (quorum, numerator, denominator) = forum::get_governance_config(&forum);
+        assert!(quorum == 100 && numerator == 1 && denominator == 1, 0);
+        
+        transfer::public_share_object(forum);
+        test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::forum::E_INVALID_GOVERNANCE)]
+    fun test_governance_threshold_below_majority_fails() {
+        let mut scenario = test_scenario::begin(@0x1);
+        let ctx = test_scenario::ctx(&mut scenario);
+        
+        let mut forum = forum::create_test_forum(ctx);
+        forum::set_governance_config(&mut forum, 0, 1, 3);
+        
+        transfer::public_share_object(forum);
+        test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::forum::E_INVALID_GOVERNANCE)]
+    fun test_governance_quorum_over_100_fails() {
+        let mut scenario = test_scenario::begin(@0x1);
+        let ctx = test_scenario::ctx(&mut scenario);
+        
+        let mut forum = forum::create_test_forum(ctx);
+        forum::set_governance_config(&mut forum, 101, 1, 2);
+        
+        transfer::public_share_object(forum);
+        test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::forum::E_GOVERNANCE_EXISTS)]
+    fun test_governance_config_set_twice_fails() {
+        let mut scenario = test_scenario::begin(@0x1);
+        let ctx = test_scenario::ctx(&mut scenario);
+        
+        let mut forum = forum::create_test_forum(ctx);
+        forum::set_governance_config(&mut forum, 0, 1, 2);
+        forum::set_governance_config(&mut forum, 50, 2, 3);
+        
+        transfer::public_share_object(forum);
+        test_scenario::end(scenario);
+    }
+}
@@ -190,6 +190,40 @@ module shallot::membership_tests_simple {
         test_scenario::end(scenario);
     }
 
+    // ===== Test Forum With Registry =====
+
+    #[test]
+    fun test_new_registry_bound_to_new_forum() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = test_scenario::ctx(&mut scenario);
+            let clock = sui::clock::create_for_testing(ctx);
+            
+            // Same building blocks as create_forum_with_registry
+            let forum = shallot::forum::new_forum(
+                std::string::utf8(b"Forum"),
+                std::string::utf8(b"With registry"),
+                std::string::utf8(b"password123"),
+                &clock,
+                ctx
+            );
+            let registry = membership::new_registry(sui::object::id(&forum), ctx);
+            
+            // Registry belongs to the forum and starts empty
+            assert!(membership::get_registry_forum_id(&registry) == sui::object::id(&forum), 0);
+            assert!(membership::get_member_count(&registry) == 0, 1);
+            assert!(shallot::forum::get_creator(&forum) == @0x1, 2);
+            
+            sui::clock::destroy_for_testing(clock);
+            shallot::forum::share_forum(forum);
+            sui::transfer::public_share_object(registry);
+        };
+        
+        test_scenario::end(scenario);
+    }
+
     // ===== Test Creator No Privileges =====
 
     #[test]
@@ -211,4 +245,213 @@ module shallot::membership_tests_simple {
         
         test_scenario::end(scenario);
     }
-}
\ No newline at end of file
+
+    // ===== Test Commitment Verifier =====
+
+    fun test_commitment(): shallot::verifier::CommitmentVerifier {
+        shallot::verifier::create_commitment_verifier(
+            x"8fe6c68eb4d0d9fffee93ba72186dd79badd6e4f4b75008e22e8058ae4003b58",
+            x"01010101010101010101010101010101",
+            1,
+            42
+        )
+    }
+
+    #[test]
+    fun test_migrate_to_commitment() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = test_scenario::ctx(&mut scenario);
+            let clock = sui::clock::create_for_testing(ctx);
+            let mut forum = shallot::forum::new_forum(
+                std::string::utf8(b"Forum"),
+                std::string::utf8(b"Legacy"),
+                std::string::utf8(b"password123"),
+                &clock,
+                ctx
+            );
+            let mut registry = membership::new_registry(sui::object::id(&forum), ctx);
+            membership::add_member_to_registry(&mut registry, @0x1);
+            
+            membership::migrate_verifier(
+                &mut forum,
+                &registry,
+                @0x1,
+                std::string::utf8(b"password123"),
+                test_commitment()
+            );
+            
+            // Commitment installed and the old password no longer admits anyone
+            assert!(shallot::forum::has_commitment_verifier(&forum), 0);
+            assert!(!shallot::verifier::verify_user(
+                shallot::forum::get_verifier(&forum),
+                std::string::utf8(b"password123")
+            ), 1);
+            
+            sui::clock::destroy_for_testing(clock);
+            shallot::forum::share_forum(forum);
+            sui::transfer::public_share_object(registry);
+        };
+        
+        test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::membership::E_NOT_MEMBER)]
+    fun test_migrate_by_non_member_fails() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = test_scenario::ctx(&mut scenario);
+            let clock = sui::clock::create_for_testing(ctx);
+            let mut forum = shallot::forum::new_forum(
+                std::string::utf8(b"Forum"),
+                std::string::utf8(b"Legacy"),
+                std::string::utf8(b"password123"),
+                &clock,
+                ctx
+            );
+            let registry = membership::new_registry(sui::object::id(&forum), ctx);
+            
+            // Knowing the password is not enough to migrate - should fail
+            membership::migrate_verifier(
+                &mut forum,
+                &registry,
+                @0x1,
+                std::string::utf8(b"password123"),
+                test_commitment()
+            );
+            
+            sui::clock::destroy_for_testing(clock);
+            shallot::forum::share_forum(forum);
+            sui::transfer::public_share_object(registry);
+        };
+        
+        test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::membership::E_NOT_CREATOR)]
+    fun test_migrate_by_other_member_fails() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = test_scenario::ctx(&mut scenario);
+            let clock = sui::clock::create_for_testing(ctx);
+            let mut forum = shallot::forum::new_forum(
+                std::string::utf8(b"Forum"),
+                std::string::utf8(b"Legacy"),
+                std::string::utf8(b"password123"),
+                &clock,
+                ctx
+            );
+            let mut registry = membership::new_registry(sui::object::id(&forum), ctx);
+            membership::add_member_to_registry(&mut registry, @0x1);
+            membership::add_member_to_registry(&mut registry, @0x2);
+            
+            // A second member who knows the password cannot take over the verifier - should fail
+            membership::migrate_verifier(
+                &mut forum,
+                &registry,
+                @0x2,
+                std::string::utf8(b"password123"),
+                test_commitment()
+            );
+            
+            sui::clock::destroy_for_testing(clock);
+            shallot::forum::share_forum(forum);
+            sui::transfer::public_share_object(registry);
+        };
+        
+        test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::membership::E_VERIFICATION_FAILED)]
+    fun test_migrate_with_wrong_password_fails() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = test_scenario::ctx(&mut scenario);
+            let clock = sui::clock::create_for_testing(ctx);
+            let mut forum = shallot::forum::new_forum(
+                std::string::utf8(b"Forum"),
+                std::string::utf8(b"Legacy"),
+                std::string::utf8(b"password123"),
+                &clock,
+                ctx
+            );
+            let mut registry = membership::new_registry(sui::object::id(&forum), ctx);
+            membership::add_member_to_registry(&mut registry, @0x1);
+            
+            // Wrong current password - should fail
+            membership::migrate_verifier(
+                &mut forum,
+                &registry,
+                @0x1,
+                std::string::utf8(b"wrong"),
+                test_commitment()
+            );
+            
+            sui::clock::destroy_for_testing(clock);
+            shallot::forum::share_forum(forum);
+            sui::transfer::public_share_object(registry);
+        };
+        
+        test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::forum::E_COMMITMENT_EXISTS)]
+    fun test_set_commitment_twice_fails() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = test_scenario::ctx(&mut scenario);
+            let mut forum = shallot::forum::create_test_forum(ctx);
+            
+            // Second commitment - should fail
+            shallot::forum::set_commitment_verifier(&mut forum, test_commitment());
+            shallot::forum::set_commitment_verifier(&mut forum, test_commitment());
+            
+            shallot::forum::share_forum(forum);
+        };
+        
+        test_scenario::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::membership::E_VERIFICATION_FAILED)]
+    fun test_join_with_bad_proof_fails() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = test_scenario::ctx(&mut scenario);
+            let clock = sui::clock::create_for_testing(ctx);
+            let forum = shallot::forum::new_forum_with_commitment(
+                std::string::utf8(b"Forum"),
+                std::string::utf8(b"Commitment"),
+                test_commitment(),
+                &clock,
+                ctx
+            );
+            let registry = membership::new_registry(sui::object::id(&forum), ctx);
+            
+            // Signature over a different forum ID - should fail
+            membership::assert_join_proof(&forum, &registry, @0x1, x"27a5cc4ad9ab6b82d5badd44164b6ca1bebcdf7fefe9de6ec17b269fc57535f05334e500829cc0b954669f5fc9f55a9cf96bc99b14e3a781eb0f636439260308");
+            
+            sui::clock::destroy_for_testing(clock);
+            shallot::forum::share_forum(forum);
+            sui::transfer::public_share_object(registry);
+        };
+        
+        test_scenario::end(scenario);
+    }
+}
@@ -280,4 +280,116 @@ module shallot::poll_tests_simple {
         
         sui::test_scenario::end(scenario);
     }
-}
\ No newline at end of file
+
+    // ===== Test Governance Outcome =====
+
+    #[test]
+    fun test_poll_outcome_default_governance() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        sui::test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = sui::test_scenario::ctx(&mut scenario);
+            let forum = shallot::forum::create_test_forum(ctx);
+            let mut poll = poll::create_test_poll(sui::object::id(&forum), @0x1, ctx);
+            
+            // One yes vote out of 5 members passes without a config
+            poll::increment_yes_votes(&mut poll);
+            let (quorum_met, threshold_met, passed) = poll::get_poll_outcome(&poll, &forum);
+            assert!(quorum_met && threshold_met && passed, 0);
+            
+            sui::transfer::public_share_object(poll);
+            sui::transfer::public_share_object(forum);
+        };
+        
+        sui::test_scenario::end(scenario);
+    }
+
+    #[test]
+    fun test_poll_outcome_quorum() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        sui::test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = sui::test_scenario::ctx(&mut scenario);
+            let mut forum = shallot::forum::create_test_forum(ctx);
+            shallot::forum::set_governance_config(&mut forum, 60, 1, 2);
+            let mut poll = poll::create_test_poll(sui::object::id(&forum), @0x1, ctx);
+            
+            // 2 of 5 members is below a 60% quorum
+            poll::increment_yes_votes(&mut poll);
+            poll::increment_yes_votes(&mut poll);
+            let (quorum_met, threshold_met, passed) = poll::get_poll_outcome(&poll, &forum);
+            assert!(!quorum_met && threshold_met && !passed, 0);
+            
+            // 3 of 5 meets it exactly
+            poll::increment_no_votes(&mut poll);
+            let (quorum_met, threshold_met, passed) = poll::get_poll_outcome(&poll, &forum);
+            assert!(quorum_met && threshold_met && passed, 1);
+            
+            sui::transfer::public_share_object(poll);
+            sui::transfer::public_share_object(forum);
+        };
+        
+        sui::test_scenario::end(scenario);
+    }
+
+    #[test]
+    fun test_poll_outcome_two_thirds() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        sui::test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = sui::test_scenario::ctx(&mut scenario);
+            let mut forum = shallot::forum::create_test_forum(ctx);
+            shallot::forum::set_governance_config(&mut forum, 0, 2, 3);
+            let mut poll = poll::create_test_poll(sui::object::id(&forum), @0x1, ctx);
+            
+            // 2 yes / 1 no is exactly two thirds
+            poll::increment_yes_votes(&mut poll);
+            poll::increment_yes_votes(&mut poll);
+            poll::increment_no_votes(&mut poll);
+            let (_, threshold_met, passed) = poll::get_poll_outcome(&poll, &forum);
+            assert!(threshold_met && passed, 0);
+            
+            // 3 yes / 2 no is a majority but short of two thirds
+            poll::increment_yes_votes(&mut poll);
+            poll::increment_no_votes(&mut poll);
+            let (_, threshold_met, passed) = poll::get_poll_outcome(&poll, &forum);
+            assert!(!threshold_met && !passed, 1);
+            
+            sui::transfer::public_share_object(poll);
+            sui::transfer::public_share_object(forum);
+        };
+        
+        sui::test_scenario::end(scenario);
+    }
+
+    #[test]
+    fun test_poll_outcome_unanimous() {
+        let mut scenario = sui::test_scenario::begin(@0x1);
+        
+        sui::test_scenario::next_tx(&mut scenario, @0x1);
+        {
+            let ctx = sui::test_scenario::ctx(&mut scenario);
+            let mut forum = shallot::forum::create_test_forum(ctx);
+            shallot::forum::set_governance_config(&mut forum, 0, 1, 1);
+            let mut poll = poll::create_test_poll(sui::object::id(&forum), @0x1, ctx);
+            
+            poll::increment_yes_votes(&mut poll);
+            poll::increment_yes_votes(&mut poll);
+            let (_, _, passed) = poll::get_poll_outcome(&poll, &forum);
+            assert!(passed, 0);
+            
+            // A single no vote blocks it
+            poll::increment_no_votes(&mut poll);
+            let (_, threshold_met, passed) = poll::get_poll_outcome(&poll, &forum);
+            assert!(!threshold_met && !passed, 1);
+            
+            sui::transfer::public_share_object(poll);
+            sui::transfer::public_share_object(forum);
+        };
+        
+        sui::test_scenario::end(scenario);
+    }
+}
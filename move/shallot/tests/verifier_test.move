@@ -12,4 +12,45 @@ module shallot::verifier_test {
         // 空密码
         assert!(!verifier::verify_user(&verifier, string::utf8(b"")), 2);
     }
-}
\ No newline at end of file
+
+    #[test]
+    public fun test_password_hash_is_sha256_of_utf8() {
+        let verifier = verifier::create_simple_password_verifier(string::utf8(b"abc"), 42);
+        // 前端 utils/crypto.ts 的 hashPassword 依赖同样的哈希
+        assert!(verifier::get_password_hash(&verifier) == x"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad", 0);
+    }
+
+    // 由 utils/crypto.ts 生成: 密码 "abc123", 盐 16 个 0x01, 迭代 1 次
+    // 论坛 @0x999, 成员 @0xa11ce
+    const TEST_PUBLIC_KEY: vector<u8> = x"8fe6c68eb4d0d9fffee93ba72186dd79badd6e4f4b75008e22e8058ae4003b58";
+    const TEST_SALT: vector<u8> = x"01010101010101010101010101010101";
+    const TEST_SIGNATURE: vector<u8> = x"27a5cc4ad9ab6b82d5badd44164b6ca1bebcdf7fefe9de6ec17b269fc57535f05334e500829cc0b954669f5fc9f55a9cf96bc99b14e3a781eb0f636439260308";
+
+    #[test]
+    public fun test_join_proof_matches_frontend() {
+        let verifier = verifier::create_commitment_verifier(TEST_PUBLIC_KEY, TEST_SALT, 1, 42);
+        let forum_id = sui::object::id_from_address(@0x999);
+        // 消息格式与 joinProofMessage 一致
+        assert!(verifier::join_proof_message(forum_id, @0xa11ce) == x"7368616c6c6f743a3a6a6f696e000000000000000000000000000000000000000000000000000000000000099900000000000000000000000000000000000000000000000000000000000a11ce", 0);
+        // 正确证明
+        assert!(verifier::verify_proof(&verifier, forum_id, @0xa11ce, TEST_SIGNATURE), 1);
+        // 他人重放同一证明
+        assert!(!verifier::verify_proof(&verifier, forum_id, @0xb0b, TEST_SIGNATURE), 2);
+        // 用于其他论坛
+        assert!(!verifier::verify_proof(&verifier, sui::object::id_from_address(@0x998), @0xa11ce, TEST_SIGNATURE), 3);
+        // 长度错误的签名
+        assert!(!verifier::verify_proof(&verifier, forum_id, @0xa11ce, x"00"), 4);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::verifier::E_INVALID_COMMITMENT)]
+    public fun test_commitment_rejects_short_salt() {
+        verifier::create_commitment_verifier(TEST_PUBLIC_KEY, x"0101", 1, 42);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = shallot::verifier::E_INVALID_COMMITMENT)]
+    public fun test_commitment_rejects_bad_public_key() {
+        verifier::create_commitment_verifier(x"8fe6", TEST_SALT, 1, 42);
+    }
+}